@@ -0,0 +1,58 @@
+'use client';
+
+import React from 'react';
+import { observer } from 'mobx-react-lite';
+import { Alert, AlertTitle, Box, Chip, Tooltip } from '@mui/material';
+import { useStore } from '../stores/StoreProvider';
+import { DrillDownRequest } from '../stores/ExplorerStore';
+import { alertSeverityColors } from './AgentHealthBadge';
+
+interface AgentAlertsBannerProps {
+  // Called with the flagged agent's calls when a chip is clicked
+  onDrillDown?: (drillDown: DrillDownRequest) => void;
+}
+
+const AgentAlertsBanner = observer(({ onDrillDown }: AgentAlertsBannerProps) => {
+  const store = useStore();
+  const alerts = store.alerts;
+  const agents = alerts.flaggedAgents;
+
+  if (agents.length === 0) return null;
+
+  const hasCritical = alerts.alerts.some((alert) => alert.severity === 'critical');
+
+  return (
+    <Alert severity={hasCritical ? 'error' : 'warning'} sx={{ mb: 3, borderRadius: 2 }}>
+      <AlertTitle>
+        {agents.length === 1 ? '1 agent needs attention' : `${agents.length} agents need attention`}
+      </AlertTitle>
+      <Box display="flex" flexWrap="wrap" gap={1}>
+        {agents.map((agent) => {
+          const agentAlerts = alerts.alertsForAgent(agent);
+          const color = alertSeverityColors[alerts.severityForAgent(agent) || 'warning'];
+          return (
+            <Tooltip
+              key={agent}
+              title={
+                <Box>
+                  {agentAlerts.map((alert) => (
+                    <div key={alert.ruleId}>{alert.message}</div>
+                  ))}
+                </Box>
+              }
+            >
+              <Chip
+                label={`${agent}: ${agentAlerts.length} ${agentAlerts.length === 1 ? 'rule' : 'rules'}`}
+                size="small"
+                onClick={onDrillDown ? () => onDrillDown({ label: agent, agents: [agent] }) : undefined}
+                sx={{ backgroundColor: `${color}20`, color, border: `1px solid ${color}40` }}
+              />
+            </Tooltip>
+          );
+        })}
+      </Box>
+    </Alert>
+  );
+});
+
+export default AgentAlertsBanner;
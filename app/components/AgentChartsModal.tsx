@@ -1,6 +1,7 @@
 'use client';
 
-import React, { useState, useEffect, useMemo } from 'react';
+import React from 'react';
+import { observer } from 'mobx-react-lite';
 import {
   Dialog,
   DialogTitle,
@@ -35,99 +36,47 @@ import {
 } from 'recharts';
 import { Close as CloseIcon, Download as DownloadIcon } from '@mui/icons-material';
 import { useStore } from '../stores/StoreProvider';
+import LeaderboardTab from './LeaderboardTab';
+import {
+  AgentMetrics,
+  MetricKey,
+  LATENCY_PERCENTILES,
+  LATENCY_SOURCES,
+  getMetricDefinition,
+  getLatencyPercentileKey,
+} from '../../lib/metrics';
+import { DrillDownRequest } from '../stores/ExplorerStore';
+import { AgentChartsTab } from '../../lib/dashboardUrl';
 
 interface Filters {
   dateRange?: { start: string; end: string };
   agents?: string[];
   callTypes?: string[];
-  timeRanges?: string[];
-}
-
-interface AgentMetrics {
-  [agent: string]: {
-    avgCostPerCall: number;
-    avgCostPerMin: number;
-    successRate: number;
-    failureRate: number;
-    transferRate: number;
-    abandonmentRate: number;
-    avgInterruptions: number;
-    avgLLMLatency: number;
-    avgTTSLatency: number;
-    avgTotalLatency: number;
-    firstCallResolutionRate: number;
-    avgCostPerSuccessfulCall: number;
-    avgHandleTime: number;
-    totalCalls: number;
-    totalCost: number;
-  };
+  durationBuckets?: string[];
 }
 
 interface AgentChartsModalProps {
   open: boolean;
+  tab: AgentChartsTab;
+  onTabChange: (tab: AgentChartsTab) => void;
   onClose: () => void;
   filters: Filters;
+  // Called with the agent (and outcome) behind a clicked bar or slice
+  onDrillDown?: (drillDown: DrillDownRequest) => void;
+}
+
+// The part of a clicked bar or pie slice that drill-down reads; every chart row carries its agent
+interface AgentChartClick {
+  payload: { agentId: string };
 }
 
 const COLORS = ['#90caf9', '#ce93d8', '#66bb6a', '#ffa726', '#f44336', '#29b6f6'];
 
-export default function AgentChartsModal({ open, onClose, filters }: AgentChartsModalProps) {
+const AgentChartsModal = observer(({ open, tab, onTabChange, onClose, filters, onDrillDown }: AgentChartsModalProps) => {
   const store = useStore();
-  const [tabValue, setTabValue] = useState(0);
 
-  // Calculate agent metrics from store data
-  const agentMetrics = useMemo(() => {
-    const filteredConversations = store.filteredConversations;
-    const agentGroups: { [agent: string]: any[] } = {};
-    
-    // Group conversations by agent
-    filteredConversations.forEach(conv => {
-      if (!agentGroups[conv.agent]) {
-        agentGroups[conv.agent] = [];
-      }
-      agentGroups[conv.agent].push(conv);
-    });
-
-    // Calculate metrics for each agent
-    const metrics: AgentMetrics = {};
-    
-    Object.entries(agentGroups).forEach(([agent, conversations]) => {
-      const totalCalls = conversations.length;
-      const totalCost = conversations.reduce((sum, conv) => sum + conv.cost, 0);
-      const totalDuration = conversations.reduce((sum, conv) => sum + conv.duration, 0);
-      const totalMinutes = conversations.reduce((sum, conv) => sum + (conv.duration / 60), 0);
-      
-      const successfulCalls = conversations.filter(conv => conv.status === 'success');
-      const failedCalls = conversations.filter(conv => conv.status === 'dropped' || conv.status === 'no_answer');
-      const transferredCalls = conversations.filter(conv => conv.status === 'transfer');
-      const abandonedCalls = conversations.filter(conv => conv.status === 'busy' || conv.status === 'no_answer');
-      
-      const conversationsWithStats = conversations.filter(conv => conv.callInfo.stats);
-      const totalInterruptions = conversationsWithStats.reduce((sum, conv) => sum + (conv.callInfo.stats?.interruptions || 0), 0);
-      const totalLLMLatency = conversationsWithStats.reduce((sum, conv) => sum + (conv.callInfo.stats?.llmLatency || 0), 0);
-      const totalTTSLatency = conversationsWithStats.reduce((sum, conv) => sum + (conv.callInfo.stats?.ttsLatency || 0), 0);
-      
-      metrics[agent] = {
-        totalCalls,
-        totalCost,
-        avgCostPerCall: totalCalls > 0 ? totalCost / totalCalls : 0,
-        avgCostPerMin: totalMinutes > 0 ? totalCost / totalMinutes : 0,
-        successRate: totalCalls > 0 ? (successfulCalls.length / totalCalls) * 100 : 0,
-        failureRate: totalCalls > 0 ? (failedCalls.length / totalCalls) * 100 : 0,
-        transferRate: totalCalls > 0 ? (transferredCalls.length / totalCalls) * 100 : 0,
-        abandonmentRate: totalCalls > 0 ? (abandonedCalls.length / totalCalls) * 100 : 0,
-        avgInterruptions: conversationsWithStats.length > 0 ? totalInterruptions / conversationsWithStats.length : 0,
-        avgLLMLatency: conversationsWithStats.length > 0 ? totalLLMLatency / conversationsWithStats.length : 0,
-        avgTTSLatency: conversationsWithStats.length > 0 ? totalTTSLatency / conversationsWithStats.length : 0,
-        avgTotalLatency: conversationsWithStats.length > 0 ? (totalLLMLatency + totalTTSLatency) / conversationsWithStats.length : 0,
-        firstCallResolutionRate: totalCalls > 0 ? (successfulCalls.length / totalCalls) * 100 : 0, // Assuming success = first call resolution
-        avgCostPerSuccessfulCall: successfulCalls.length > 0 ? successfulCalls.reduce((sum, conv) => sum + conv.cost, 0) / successfulCalls.length : 0,
-        avgHandleTime: totalCalls > 0 ? totalDuration / totalCalls : 0,
-      };
-    });
-
-    return metrics;
-  }, [store.filteredConversations]);
+  // Agent metrics come from the shared metrics engine via the store
+  const agentMetrics = store.agentMetrics;
 
   // Helper function to sort agents numerically
   const getSortedAgentEntries = (metrics: AgentMetrics) => {
@@ -143,6 +92,7 @@ export default function AgentChartsModal({ open, onClose, filters }: AgentCharts
     
     return getSortedAgentEntries(agentMetrics).map(([agent, metrics]) => ({
       agent: agent.replace('agent_', 'Agent '),
+      agentId: agent,
       [label]: Number(metrics[metric as keyof typeof metrics]),
     }));
   };
@@ -152,6 +102,7 @@ export default function AgentChartsModal({ open, onClose, filters }: AgentCharts
     
     return getSortedAgentEntries(agentMetrics).map(([agent, metrics]) => ({
       agent: agent.replace('agent_', 'Agent '),
+      agentId: agent,
       'Success Rate': metrics.successRate,
       'Transfer Rate': metrics.transferRate,
       'Abandonment Rate': metrics.abandonmentRate,
@@ -164,6 +115,7 @@ export default function AgentChartsModal({ open, onClose, filters }: AgentCharts
     
     return getSortedAgentEntries(agentMetrics).map(([agent, metrics], index) => ({
       name: agent.replace('agent_', 'Agent '),
+      agentId: agent,
       value: metrics.totalCalls,
       color: COLORS[index % COLORS.length],
     }));
@@ -174,38 +126,63 @@ export default function AgentChartsModal({ open, onClose, filters }: AgentCharts
     
     return getSortedAgentEntries(agentMetrics).map(([agent, metrics]) => ({
       agent: agent.replace('agent_', 'Agent '),
+      agentId: agent,
       'LLM Latency': metrics.avgLLMLatency,
       'TTS Latency': metrics.avgTTSLatency,
       'Total Latency': metrics.avgTotalLatency,
     }));
   };
 
+  const prepareLatencyPercentileData = () => {
+    if (!agentMetrics) return [];
+
+    return getSortedAgentEntries(agentMetrics).map(([agent, metrics]) => {
+      const row: { [key: string]: string | number } = {
+        agent: agent.replace('agent_', 'Agent '),
+        agentId: agent,
+      };
+      LATENCY_PERCENTILES.forEach(p => {
+        row[`p${p}`] = metrics[getLatencyPercentileKey('total', p)];
+      });
+      return row;
+    });
+  };
+
+  // All three histograms share bin width and origin, so bins line up by index
+  const prepareLatencyDistributionData = () => {
+    const distribution = store.latencyDistribution;
+    const binCount = Math.max(...LATENCY_SOURCES.map(source => distribution[source].length), 0);
+    const rows = [];
+    for (let i = 0; i < binCount; i++) {
+      const bin = LATENCY_SOURCES.map(source => distribution[source][i]).filter(Boolean)[0];
+      rows.push({
+        range: `${bin.start}-${bin.end}ms`,
+        'LLM Latency': distribution.llm[i] ? distribution.llm[i].count : 0,
+        'TTS Latency': distribution.tts[i] ? distribution.tts[i].count : 0,
+        'Total Latency': distribution.total[i] ? distribution.total[i].count : 0,
+      });
+    }
+    return rows;
+  };
+
+  // Recharts passes the clicked element with the original data row as its payload
+  const drillIntoAgent = (metricKey?: MetricKey) => (entry: AgentChartClick) => {
+    if (!onDrillDown) return;
+    const agentId = entry.payload.agentId;
+    const agentLabel = agentId.replace('agent_', 'Agent ');
+    if (metricKey) {
+      const definition = getMetricDefinition(metricKey);
+      onDrillDown({ label: `${agentLabel}: ${definition.label}`, agents: [agentId], statuses: definition.statuses });
+    } else {
+      onDrillDown({ label: agentLabel, agents: [agentId] });
+    }
+  };
+
+  // Per-agent KPIs for the current filters, rendered as CSV by the server
   const downloadChart = () => {
-    // Simple CSV export functionality
-    if (!agentMetrics) return;
-    
-    const csvContent = [
-      ['Agent', 'Total Calls', 'Success Rate (%)', 'Total Cost ($)', 'Avg Cost/Call ($)', 'Handle Time (s)', 'Interruptions', 'LLM Latency (ms)', 'TTS Latency (ms)'],
-      ...getSortedAgentEntries(agentMetrics).map(([agent, metrics]) => [
-        agent,
-        metrics.totalCalls,
-        metrics.successRate.toFixed(1),
-        metrics.totalCost.toFixed(2),
-        metrics.avgCostPerCall.toFixed(2),
-        metrics.avgHandleTime,
-        metrics.avgInterruptions.toFixed(2),
-        metrics.avgLLMLatency,
-        metrics.avgTTSLatency,
-      ])
-    ].map(row => row.join(',')).join('\n');
-
-    const blob = new Blob([csvContent], { type: 'text/csv' });
-    const url = window.URL.createObjectURL(blob);
     const a = document.createElement('a');
-    a.href = url;
-    a.download = 'agent_metrics.csv';
+    a.href = store.getExportUrl('agents', 'csv');
     a.click();
-    window.URL.revokeObjectURL(url);
   };
 
   const CustomTooltip = ({ active, payload, label }: any) => {
@@ -233,9 +210,11 @@ export default function AgentChartsModal({ open, onClose, filters }: AgentCharts
           </Typography>
           <Box>
             <Tooltip title="Download Data">
-              <IconButton onClick={downloadChart} sx={{ mr: 1 }}>
-                <DownloadIcon />
-              </IconButton>
+              <span>
+                <IconButton onClick={downloadChart} disabled={store.offline} sx={{ mr: 1 }}>
+                  <DownloadIcon />
+                </IconButton>
+              </span>
             </Tooltip>
             <IconButton onClick={onClose}>
               <CloseIcon />
@@ -246,16 +225,17 @@ export default function AgentChartsModal({ open, onClose, filters }: AgentCharts
 
       <DialogContent>
         <Box sx={{ borderBottom: 1, borderColor: 'divider', mb: 3 }}>
-          <Tabs value={tabValue} onChange={(_, newValue) => setTabValue(newValue)}>
-            <Tab label="Performance Overview" />
-            <Tab label="Call Outcomes" />
-            <Tab label="Cost Analysis" />
-            <Tab label="Latency Metrics" />
+          <Tabs value={tab} onChange={(_, newValue: AgentChartsTab) => onTabChange(newValue)}>
+            <Tab label="Performance Overview" value="overview" />
+            <Tab label="Call Outcomes" value="outcomes" />
+            <Tab label="Cost Analysis" value="cost" />
+            <Tab label="Latency Metrics" value="latency" />
+            <Tab label="Leaderboard" value="leaderboard" />
           </Tabs>
         </Box>
 
         {/* Performance Overview Tab */}
-        {tabValue === 0 && (
+        {tab === 'overview' && (
           <Grid container spacing={3}>
             <Grid item xs={12} md={6}>
               <Paper sx={{ p: 3, height: 400 }}>
@@ -274,6 +254,8 @@ export default function AgentChartsModal({ open, onClose, filters }: AgentCharts
                       dataKey="value"
                       stroke="#ffffff"
                       strokeWidth={2}
+                      onClick={drillIntoAgent()}
+                      cursor="pointer"
                     >
                       {preparePieChartData().map((entry, index) => (
                         <Cell key={`cell-${index}`} fill={entry.color} />
@@ -317,7 +299,7 @@ export default function AgentChartsModal({ open, onClose, filters }: AgentCharts
                     <XAxis dataKey="agent" />
                     <YAxis />
                     <RechartsTooltip content={<CustomTooltip />} />
-                    <Bar dataKey="Success Rate" fill="#66bb6a" />
+                    <Bar dataKey="Success Rate" fill="#66bb6a" onClick={drillIntoAgent('successRate')} cursor="pointer" />
                   </BarChart>
                 </ResponsiveContainer>
               </Paper>
@@ -341,7 +323,7 @@ export default function AgentChartsModal({ open, onClose, filters }: AgentCharts
         )}
 
         {/* Call Outcomes Tab */}
-        {tabValue === 1 && (
+        {tab === 'outcomes' && (
           <Grid container spacing={3}>
             <Grid item xs={12}>
               <Paper sx={{ p: 3, height: 500 }}>
@@ -353,10 +335,10 @@ export default function AgentChartsModal({ open, onClose, filters }: AgentCharts
                     <YAxis />
                     <RechartsTooltip content={<CustomTooltip />} />
                     <Legend />
-                    <Bar dataKey="Success Rate" stackId="a" fill="#66bb6a" />
-                    <Bar dataKey="Transfer Rate" stackId="a" fill="#ffa726" />
-                    <Bar dataKey="Abandonment Rate" stackId="a" fill="#ce93d8" />
-                    <Bar dataKey="Failure Rate" stackId="a" fill="#f44336" />
+                    <Bar dataKey="Success Rate" stackId="a" fill="#66bb6a" onClick={drillIntoAgent('successRate')} cursor="pointer" />
+                    <Bar dataKey="Transfer Rate" stackId="a" fill="#ffa726" onClick={drillIntoAgent('transferRate')} cursor="pointer" />
+                    <Bar dataKey="Abandonment Rate" stackId="a" fill="#ce93d8" onClick={drillIntoAgent('abandonmentRate')} cursor="pointer" />
+                    <Bar dataKey="Failure Rate" stackId="a" fill="#f44336" onClick={drillIntoAgent('failureRate')} cursor="pointer" />
                   </BarChart>
                 </ResponsiveContainer>
               </Paper>
@@ -365,7 +347,7 @@ export default function AgentChartsModal({ open, onClose, filters }: AgentCharts
         )}
 
         {/* Cost Analysis Tab */}
-        {tabValue === 2 && (
+        {tab === 'cost' && (
           <Grid container spacing={3}>
             <Grid item xs={12} md={6}>
               <Paper sx={{ p: 3, height: 400 }}>
@@ -376,7 +358,7 @@ export default function AgentChartsModal({ open, onClose, filters }: AgentCharts
                     <XAxis dataKey="agent" />
                     <YAxis />
                     <RechartsTooltip content={<CustomTooltip />} />
-                    <Bar dataKey="Total Cost" fill="#ce93d8" />
+                    <Bar dataKey="Total Cost" fill="#ce93d8" onClick={drillIntoAgent()} cursor="pointer" />
                   </BarChart>
                 </ResponsiveContainer>
               </Paper>
@@ -406,7 +388,7 @@ export default function AgentChartsModal({ open, onClose, filters }: AgentCharts
                     <XAxis dataKey="agent" />
                     <YAxis />
                     <RechartsTooltip content={<CustomTooltip />} />
-                    <Bar dataKey="Cost per Success" fill="#29b6f6" />
+                    <Bar dataKey="Cost per Success" fill="#29b6f6" onClick={drillIntoAgent('avgCostPerSuccessfulCall')} cursor="pointer" />
                   </BarChart>
                 </ResponsiveContainer>
               </Paper>
@@ -415,7 +397,7 @@ export default function AgentChartsModal({ open, onClose, filters }: AgentCharts
         )}
 
         {/* Latency Metrics Tab */}
-        {tabValue === 3 && (
+        {tab === 'latency' && (
           <Grid container spacing={3}>
             <Grid item xs={12}>
               <Paper sx={{ p: 3, height: 500 }}>
@@ -427,9 +409,9 @@ export default function AgentChartsModal({ open, onClose, filters }: AgentCharts
                     <YAxis />
                     <RechartsTooltip content={<CustomTooltip />} />
                     <Legend />
-                    <Bar dataKey="LLM Latency" fill="#90caf9" />
-                    <Bar dataKey="TTS Latency" fill="#ce93d8" />
-                    <Bar dataKey="Total Latency" fill="#66bb6a" />
+                    <Bar dataKey="LLM Latency" fill="#90caf9" onClick={drillIntoAgent()} cursor="pointer" />
+                    <Bar dataKey="TTS Latency" fill="#ce93d8" onClick={drillIntoAgent()} cursor="pointer" />
+                    <Bar dataKey="Total Latency" fill="#66bb6a" onClick={drillIntoAgent()} cursor="pointer" />
                   </BarChart>
                 </ResponsiveContainer>
               </Paper>
@@ -444,13 +426,58 @@ export default function AgentChartsModal({ open, onClose, filters }: AgentCharts
                     <XAxis dataKey="agent" />
                     <YAxis />
                     <RechartsTooltip content={<CustomTooltip />} />
-                    <Bar dataKey="Interruptions" fill="#ffa726" />
+                    <Bar dataKey="Interruptions" fill="#ffa726" onClick={drillIntoAgent()} cursor="pointer" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </Paper>
+            </Grid>
+
+            <Grid item xs={12} md={6}>
+              <Paper sx={{ p: 3, height: 400 }}>
+                <Typography variant="h6" gutterBottom>Total Latency Percentiles (ms)</Typography>
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={prepareLatencyPercentileData()}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="agent" />
+                    <YAxis />
+                    <RechartsTooltip content={<CustomTooltip />} />
+                    <Legend />
+                    {LATENCY_PERCENTILES.map((p, index) => (
+                      <Bar
+                        key={p}
+                        dataKey={`p${p}`}
+                        fill={COLORS[index % COLORS.length]}
+                        onClick={drillIntoAgent()}
+                        cursor="pointer"
+                      />
+                    ))}
+                  </BarChart>
+                </ResponsiveContainer>
+              </Paper>
+            </Grid>
+
+            <Grid item xs={12}>
+              <Paper sx={{ p: 3, height: 400 }}>
+                <Typography variant="h6" gutterBottom>Latency Distribution (calls per bin)</Typography>
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={prepareLatencyDistributionData()}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="range" minTickGap={20} />
+                    <YAxis allowDecimals={false} />
+                    <RechartsTooltip content={<CustomTooltip />} />
+                    <Legend />
+                    <Bar dataKey="LLM Latency" fill="#90caf9" />
+                    <Bar dataKey="TTS Latency" fill="#ce93d8" />
+                    <Bar dataKey="Total Latency" fill="#66bb6a" />
                   </BarChart>
                 </ResponsiveContainer>
               </Paper>
             </Grid>
           </Grid>
         )}
+
+        {/* Leaderboard Tab */}
+        {tab === 'leaderboard' && <LeaderboardTab onDrillDown={onDrillDown} />}
       </DialogContent>
 
       <DialogActions>
@@ -460,4 +487,6 @@ export default function AgentChartsModal({ open, onClose, filters }: AgentCharts
       </DialogActions>
     </Dialog>
   );
-} 
\ No newline at end of file
+});
+
+export default AgentChartsModal;
@@ -0,0 +1,36 @@
+'use client';
+
+import React from 'react';
+import { observer } from 'mobx-react-lite';
+import { Tooltip, Box } from '@mui/material';
+import { WarningAmber, ErrorOutline } from '@mui/icons-material';
+import { useStore } from '../stores/StoreProvider';
+
+export const alertSeverityColors = {
+  critical: '#f44336',
+  warning: '#ffa726',
+};
+
+// Icon shown next to an agent that breaches a health rule; renders nothing for healthy agents
+const AgentHealthBadge = observer(({ agent }: { agent: string }) => {
+  const store = useStore();
+  const severity = store.alerts.severityForAgent(agent);
+  if (!severity) return null;
+
+  const Icon = severity === 'critical' ? ErrorOutline : WarningAmber;
+  return (
+    <Tooltip
+      title={
+        <Box>
+          {store.alerts.alertsForAgent(agent).map((alert) => (
+            <div key={alert.ruleId}>{alert.message}</div>
+          ))}
+        </Box>
+      }
+    >
+      <Icon sx={{ color: alertSeverityColors[severity], fontSize: 18, ml: 1, verticalAlign: 'middle' }} />
+    </Tooltip>
+  );
+});
+
+export default AgentHealthBadge;
@@ -0,0 +1,103 @@
+'use client';
+
+import React, { useState } from 'react';
+import { observer } from 'mobx-react-lite';
+import { Alert, AlertTitle, Box, Button, Chip, Tooltip, Typography } from '@mui/material';
+import dayjs from 'dayjs';
+import { useStore } from '../stores/StoreProvider';
+import { DrillDownRequest } from '../stores/ExplorerStore';
+import { alertSeverityColors } from './AgentHealthBadge';
+import { Anomaly, AnomalyContributor } from '../../lib/anomalies';
+import { formatMetricValue, getMetricDefinition } from '../../lib/metrics';
+
+// Anomalies listed before "Show all"
+const COLLAPSED_ANOMALIES = 5;
+
+const formatDate = (date: string) => dayjs(date).format('ddd DD/MM/YYYY');
+
+const contributorTooltip = (anomaly: Anomaly, contributor: AnomalyContributor) => {
+  const definition = getMetricDefinition(anomaly.metric);
+  const format = (value: number) => formatMetricValue(definition.format, value);
+  return `${format(contributor.dayValue)} on the day against ${format(contributor.baseline)} (${contributor.calls} calls)`;
+};
+
+// The largest contributing agent and call type
+const topContributors = (anomaly: Anomaly) => {
+  const contributors: AnomalyContributor[] = [];
+  ['agent', 'callType'].forEach((dimension) => {
+    const contributor = anomaly.contributors.find((candidate) => candidate.dimension === dimension);
+    if (contributor) contributors.push(contributor);
+  });
+  return contributors;
+};
+
+interface AnomaliesBannerProps {
+  // Called with an agent's calls when their chip is clicked
+  onDrillDown?: (drillDown: DrillDownRequest) => void;
+}
+
+// Days on which a KPI broke from its rolling baseline, with the agents and call types behind the change
+const AnomaliesBanner = observer(({ onDrillDown }: AnomaliesBannerProps) => {
+  const store = useStore();
+  const { concerning, options } = store.anomalies;
+  const [expanded, setExpanded] = useState(false);
+
+  if (concerning.length === 0) return null;
+
+  const shown = expanded ? concerning : concerning.slice(0, COLLAPSED_ANOMALIES);
+  const hasCritical = concerning.some((anomaly) => anomaly.severity === 'critical');
+
+  const agentChip = (agent: string, key: string, tooltip?: string) => (
+    <Tooltip key={key} title={tooltip || ''}>
+      <Chip
+        label={agent}
+        size="small"
+        onClick={onDrillDown ? () => onDrillDown({ label: agent, agents: [agent] }) : undefined}
+        sx={{ height: 20 }}
+      />
+    </Tooltip>
+  );
+
+  return (
+    <Alert severity={hasCritical ? 'error' : 'warning'} sx={{ mb: 3, borderRadius: 2 }}>
+      <AlertTitle>
+        {concerning.length === 1 ? '1 KPI anomaly' : `${concerning.length} KPI anomalies`} against the {options.windowDays}-day baseline
+      </AlertTitle>
+      {shown.map((anomaly) => {
+        const contributors = topContributors(anomaly);
+        return (
+          <Box key={anomaly.id} display="flex" alignItems="center" flexWrap="wrap" gap={0.75} mb={0.5}>
+            <Box
+              component="span"
+              sx={{ width: 8, height: 8, borderRadius: '50%', bgcolor: alertSeverityColors[anomaly.severity] }}
+            />
+            <Typography variant="body2" fontWeight="medium">{formatDate(anomaly.date)}</Typography>
+            <Tooltip title={`${anomaly.calls} calls, ${anomaly.zScore.toFixed(1)} standard deviations from the baseline`}>
+              <Typography variant="body2">{anomaly.message}</Typography>
+            </Tooltip>
+            {anomaly.agent && agentChip(anomaly.agent, 'agent')}
+            {contributors.length > 0 && (
+              <Typography variant="caption" color="text.secondary">mostly</Typography>
+            )}
+            {contributors.map((contributor) => (
+              contributor.dimension === 'agent'
+                ? agentChip(contributor.value, `agent:${contributor.value}`, contributorTooltip(anomaly, contributor))
+                : (
+                  <Tooltip key={`callType:${contributor.value}`} title={contributorTooltip(anomaly, contributor)}>
+                    <Chip label={contributor.value} size="small" variant="outlined" sx={{ height: 20 }} />
+                  </Tooltip>
+                )
+            ))}
+          </Box>
+        );
+      })}
+      {concerning.length > COLLAPSED_ANOMALIES && (
+        <Button size="small" color="inherit" onClick={() => setExpanded(!expanded)} sx={{ mt: 0.5 }}>
+          {expanded ? 'Show fewer' : `Show all ${concerning.length}`}
+        </Button>
+      )}
+    </Alert>
+  );
+});
+
+export default AnomaliesBanner;
@@ -0,0 +1,149 @@
+'use client';
+
+import React from 'react';
+import { observer } from 'mobx-react-lite';
+import {
+  Alert,
+  Box,
+  LinearProgress,
+  Paper,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { GridOn } from '@mui/icons-material';
+import { useStore } from '../stores/StoreProvider';
+import { MetricKey, formatMetricValue, getMetricDefinition } from '../../lib/metrics';
+import { HEATMAP_METRICS, HeatmapCell, WEEKDAYS } from '../../lib/heatmap';
+
+const METRIC_COLORS: { [metric: string]: [number, number, number] } = {
+  totalCalls: [144, 202, 249],
+  successRate: [102, 187, 106],
+  avgCostPerCall: [255, 167, 38],
+};
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+const pad = (hour: number) => (hour < 10 ? `0${hour}` : String(hour));
+
+// Stronger colour for higher values; a single value everywhere gets full strength
+const cellColor = (metric: MetricKey, value: number, range: { min: number; max: number }) => {
+  const share = range.max > range.min ? (value - range.min) / (range.max - range.min) : 1;
+  const [red, green, blue] = METRIC_COLORS[metric];
+  return `rgba(${red}, ${green}, ${blue}, ${(0.15 + 0.85 * share).toFixed(2)})`;
+};
+
+const CellTooltip = ({ weekday, hour, cell }: { weekday: number; hour: number; cell?: HeatmapCell }) => (
+  <Box>
+    <Typography variant="body2" fontWeight="bold">
+      {WEEKDAYS[weekday]} {pad(hour)}:00 - {pad(hour)}:59
+    </Typography>
+    {cell ? (
+      HEATMAP_METRICS.map((metric) => {
+        const definition = getMetricDefinition(metric);
+        return (
+          <Typography key={metric} variant="body2">
+            {definition.label}: {formatMetricValue(definition.format, cell.metrics[metric])}
+          </Typography>
+        );
+      })
+    ) : (
+      <Typography variant="body2">No calls</Typography>
+    )}
+  </Box>
+);
+
+// Weekday × hour grid of the filtered calls, coloured by one KPI
+const CallHeatmap = observer(() => {
+  const store = useStore();
+  const heatmap = store.heatmap;
+  const range = heatmap.range;
+
+  return (
+    <Box>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
+        <Box display="flex" alignItems="center">
+          <GridOn sx={{ mr: 1, color: '#90caf9' }} />
+          <Typography variant="h5" fontWeight="bold">
+            Weekday &amp; Hour
+          </Typography>
+        </Box>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={heatmap.metric}
+          onChange={(_, value: MetricKey | null) => value && heatmap.setMetric(value)}
+        >
+          {HEATMAP_METRICS.map((metric) => (
+            <ToggleButton key={metric} value={metric}>
+              {getMetricDefinition(metric).label}
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+      </Box>
+
+      {heatmap.loading && <LinearProgress sx={{ mb: 2, borderRadius: 1 }} />}
+      {heatmap.error && (
+        <Alert severity="error" sx={{ mb: 2, borderRadius: 2 }}>{heatmap.error}</Alert>
+      )}
+
+      <Paper sx={{ p: 3, overflowX: 'auto' }}>
+        <Typography variant="body2" color="text.secondary" mb={2}>
+          Hours on the {store.timeZone} clock. Darker cells have a higher {getMetricDefinition(heatmap.metric).label.toLowerCase()}.
+        </Typography>
+        <Box
+          display="grid"
+          gridTemplateColumns="40px repeat(24, minmax(24px, 1fr))"
+          gap="3px"
+          sx={{ minWidth: 700 }}
+        >
+          <Box />
+          {HOURS.map((hour) => (
+            <Typography key={hour} variant="caption" color="text.secondary" textAlign="center">
+              {pad(hour)}
+            </Typography>
+          ))}
+          {heatmap.grid.map((row, weekday) => (
+            <React.Fragment key={weekday}>
+              <Typography variant="caption" color="text.secondary" alignSelf="center">
+                {WEEKDAYS[weekday]}
+              </Typography>
+              {row.map((cell, hour) => (
+                <Tooltip key={hour} title={<CellTooltip weekday={weekday} hour={hour} cell={cell} />}>
+                  <Box
+                    sx={{
+                      height: 28,
+                      borderRadius: 0.5,
+                      bgcolor: cell && range ? cellColor(heatmap.metric, cell.metrics[heatmap.metric], range) : 'action.hover',
+                    }}
+                  />
+                </Tooltip>
+              ))}
+            </React.Fragment>
+          ))}
+        </Box>
+        {range && (
+          <Box display="flex" alignItems="center" justifyContent="flex-end" gap={1} mt={2}>
+            <Typography variant="caption" color="text.secondary">
+              {formatMetricValue(getMetricDefinition(heatmap.metric).format, range.min)}
+            </Typography>
+            <Box
+              sx={{
+                width: 120,
+                height: 10,
+                borderRadius: 1,
+                background: `linear-gradient(to right, ${cellColor(heatmap.metric, range.min, range)}, ${cellColor(heatmap.metric, range.max, range)})`,
+              }}
+            />
+            <Typography variant="caption" color="text.secondary">
+              {formatMetricValue(getMetricDefinition(heatmap.metric).format, range.max)}
+            </Typography>
+          </Box>
+        )}
+      </Paper>
+    </Box>
+  );
+});
+
+export default CallHeatmap;
@@ -0,0 +1,258 @@
+'use client';
+
+import React, { useState } from 'react';
+import { observer } from 'mobx-react-lite';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  IconButton,
+  LinearProgress,
+  ListItemText,
+  ListSubheader,
+  Menu,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { Add, CompareArrows, DeleteOutline, PushPin } from '@mui/icons-material';
+import dayjs from 'dayjs';
+import { useStore } from '../stores/StoreProvider';
+import { getPreviousPeriod } from '../../lib/filters';
+import { METRIC_DEFINITIONS, MetricDefinition, formatMetricValue } from '../../lib/metrics';
+import { SIGNIFICANCE_LEVEL, Segment, SegmentMetricDifference } from '../../lib/segments';
+import { SavedViewFilters } from '../../lib/views';
+
+const formatDate = (date: string) => dayjs(date).format('DD/MM/YYYY');
+
+const formatDifference = (definition: MetricDefinition, difference: SegmentMetricDifference) => {
+  const sign = difference.absolute > 0 ? '+' : difference.absolute < 0 ? '-' : '';
+  const absolute = `${sign}${formatMetricValue(definition.format, Math.abs(difference.absolute))}`;
+  return difference.relative !== undefined
+    ? `${absolute} (${difference.relative > 0 ? '+' : ''}${difference.relative.toFixed(1)}%)`
+    : absolute;
+};
+
+// Green for an improvement on the baseline, red for a regression, grey when direction has no meaning
+const differenceColor = (definition: MetricDefinition, difference: SegmentMetricDifference) => {
+  if (difference.absolute === 0 || definition.higherIsBetter === undefined) return 'text.secondary';
+  return (difference.absolute > 0) === definition.higherIsBetter ? '#66bb6a' : '#f44336';
+};
+
+const DifferenceCell = ({ definition, difference }: { definition: MetricDefinition; difference: SegmentMetricDifference }) => {
+  const significance = difference.significance;
+  return (
+    <Box display="flex" alignItems="center" justifyContent="flex-end" gap={0.5}>
+      <Typography variant="caption" sx={{ color: differenceColor(definition, difference) }}>
+        {formatDifference(definition, difference)}
+      </Typography>
+      {significance && (
+        <Tooltip title={`Two-proportion z-test: z = ${significance.z.toFixed(2)}, p = ${significance.pValue.toFixed(3)}`}>
+          <Chip
+            label={significance.significant ? 'significant' : 'not significant'}
+            size="small"
+            variant="outlined"
+            color={significance.significant ? 'success' : 'default'}
+            sx={{ height: 18, fontSize: '0.65rem' }}
+          />
+        </Tooltip>
+      )}
+    </Box>
+  );
+};
+
+// Compare mode: KPIs of two or more filter sets side by side, each against the first
+const CompareDialog = observer(() => {
+  const store = useStore();
+  const compare = store.compare;
+  const [open, setOpen] = useState(false);
+  const [addAnchorEl, setAddAnchorEl] = useState<HTMLElement | null>(null);
+
+  const current = store.getSavedViewFilters();
+  const previousRange = current.dateRange ? getPreviousPeriod(current.dateRange) : undefined;
+
+  // The current filters with one dimension swapped for each value
+  const splitBy = (key: 'agents' | 'callTypes', values: string[]): Segment[] =>
+    values.map((value) => ({ name: value, filters: { ...current, [key]: [value] } }));
+
+  const add = (segments: Segment[]) => {
+    setAddAnchorEl(null);
+    compare.addSegments(segments);
+  };
+
+  const openCompare = () => {
+    // Start from the current filters against the previous period, the most common question
+    if (compare.segments.length === 0) {
+      compare.addSegments(previousRange
+        ? [
+          { name: 'Current period', filters: current },
+          { name: 'Previous period', filters: { ...current, dateRange: previousRange } },
+        ]
+        : [{ name: 'Current filters', filters: current }]);
+    } else {
+      compare.load();
+    }
+    setOpen(true);
+  };
+
+  const describeFilters = (filters: SavedViewFilters) => {
+    const parts = [filters.dateRange ? `${formatDate(filters.dateRange.start)} - ${formatDate(filters.dateRange.end)}` : 'All dates'];
+    if (filters.agents.length > 0) parts.push(filters.agents.join(', '));
+    if (filters.callTypes.length > 0) parts.push(filters.callTypes.join(', '));
+    if (filters.statuses.length > 0) parts.push(filters.statuses.join(', '));
+    if (filters.query) parts.push(filters.query);
+    return parts.join(' · ');
+  };
+
+  const results = compare.comparison?.segments || [];
+  const showResults = !compare.loading && results.length === compare.segments.length;
+  const agents = store.filters.agents.length > 1 ? store.filters.agents.slice() : store.availableAgents;
+
+  return (
+    <>
+      <Button
+        size="small"
+        startIcon={<CompareArrows />}
+        onClick={openCompare}
+        disabled={store.offline}
+        sx={{ ml: 1, color: '#90caf9' }}
+      >
+        Compare
+      </Button>
+      <Dialog open={open} onClose={() => setOpen(false)} maxWidth="lg" fullWidth>
+        <DialogTitle>Compare segments</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" mb={2}>
+            Every segment is compared with the first one. Rate differences are tested for significance at p &lt; {SIGNIFICANCE_LEVEL}.
+          </Typography>
+
+          {compare.segments.map((segment, index) => (
+            <Box key={index} display="flex" alignItems="center" gap={1} mb={1}>
+              <TextField
+                size="small"
+                value={segment.name}
+                onChange={(event) => compare.renameSegment(index, event.target.value)}
+                sx={{ width: 220 }}
+              />
+              <Typography variant="body2" color="text.secondary" sx={{ flexGrow: 1 }} noWrap>
+                {describeFilters(segment.filters)}
+              </Typography>
+              {index === 0 ? (
+                <Chip label="Baseline" size="small" color="primary" variant="outlined" />
+              ) : (
+                <Tooltip title="Compare the others with this segment">
+                  <IconButton size="small" onClick={() => compare.makeBaseline(index)}>
+                    <PushPin fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+              )}
+              <IconButton size="small" aria-label={`Remove ${segment.name}`} onClick={() => compare.removeSegment(index)}>
+                <DeleteOutline fontSize="small" />
+              </IconButton>
+            </Box>
+          ))}
+
+          <Button
+            size="small"
+            startIcon={<Add />}
+            onClick={(event) => setAddAnchorEl(event.currentTarget)}
+            disabled={!compare.canAddSegments}
+            sx={{ color: '#90caf9', mb: 2 }}
+          >
+            Add segment
+          </Button>
+          <Menu anchorEl={addAnchorEl} open={Boolean(addAnchorEl)} onClose={() => setAddAnchorEl(null)}>
+            <MenuItem onClick={() => add([{ name: 'Current filters', filters: current }])}>
+              <ListItemText primary="Current filters" secondary={describeFilters(current)} />
+            </MenuItem>
+            {previousRange && (
+              <MenuItem onClick={() => add([{ name: 'Previous period', filters: { ...current, dateRange: previousRange } }])}>
+                <ListItemText primary="Previous period" secondary="Current filters, the equally long period before" />
+              </MenuItem>
+            )}
+            <MenuItem onClick={() => add(splitBy('callTypes', store.availableCallTypes))}>
+              <ListItemText primary="One per call type" secondary={store.availableCallTypes.join(', ')} />
+            </MenuItem>
+            <MenuItem onClick={() => add(splitBy('agents', agents))}>
+              <ListItemText primary="One per agent" secondary={agents.join(', ')} />
+            </MenuItem>
+            {store.views.views.length > 0 && <Divider />}
+            {store.views.views.length > 0 && <ListSubheader>Saved views</ListSubheader>}
+            {store.views.views.map((view) => (
+              <MenuItem key={view.id} onClick={() => add([{ name: view.name, filters: view.filters }])}>
+                <ListItemText primary={view.name} />
+              </MenuItem>
+            ))}
+          </Menu>
+
+          {compare.loading && <LinearProgress sx={{ mb: 1 }} />}
+          {compare.error && <Alert severity="error" sx={{ mb: 2 }}>{compare.error}</Alert>}
+          {compare.segments.length < 2 && (
+            <Alert severity="info">Add at least two segments to compare.</Alert>
+          )}
+
+          {showResults && results.length >= 2 && (
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Metric</TableCell>
+                  {results.map((result, index) => (
+                    <TableCell key={index} align="right">
+                      {compare.segments[index].name}
+                      <Typography variant="caption" display="block" color="text.secondary">
+                        {result.dateRange ? `${formatDate(result.dateRange.start)} - ${formatDate(result.dateRange.end)}` : 'All dates'}
+                      </Typography>
+                    </TableCell>
+                  ))}
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {METRIC_DEFINITIONS.map((definition) => (
+                  <TableRow key={definition.key} hover>
+                    <TableCell>
+                      <Tooltip title={definition.description} placement="right">
+                        <span>{definition.label}</span>
+                      </Tooltip>
+                    </TableCell>
+                    {results.map((result, index) => (
+                      <TableCell key={index} align="right">
+                        <Typography variant="body2" fontWeight="medium">
+                          {formatMetricValue(definition.format, result.metrics[definition.key])}
+                        </Typography>
+                        {result.differences && (
+                          <DifferenceCell definition={definition} difference={result.differences[definition.key]} />
+                        )}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => compare.clear()} disabled={compare.segments.length === 0}>
+            Clear segments
+          </Button>
+          <Button onClick={() => setOpen(false)} variant="outlined">
+            Close
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+});
+
+export default CompareDialog;
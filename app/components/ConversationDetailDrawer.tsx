@@ -0,0 +1,246 @@
+'use client';
+
+import React from 'react';
+import { observer } from 'mobx-react-lite';
+import {
+  Drawer,
+  Box,
+  Typography,
+  IconButton,
+  Chip,
+  Divider,
+  Grid,
+  CircularProgress,
+  Alert,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+} from '@mui/material';
+import {
+  Close as CloseIcon,
+  CallMade,
+  CallReceived,
+  Person,
+  Schedule,
+  AttachMoney,
+} from '@mui/icons-material';
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+import timezone from 'dayjs/plugin/timezone';
+import { useStore } from '../stores/StoreProvider';
+import AgentHealthBadge from './AgentHealthBadge';
+import { MetricKey, getMetricDefinition } from '../../lib/metrics';
+import { ConversationRecord } from '../../lib/types';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+const statusColors: { [status: string]: string } = {
+  success: '#66bb6a',
+  transfer: '#ffa726',
+  dropped: '#ce93d8',
+  no_answer: '#ce93d8',
+  busy: '#f44336',
+};
+
+// Lower is better for every compared value (duration, cost, latency, interruptions)
+interface ComparisonRow {
+  label: string;
+  value: number | undefined;
+  metric: MetricKey;
+  format: (value: number) => string;
+}
+
+const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`;
+const formatMs = (value: number) => `${value.toFixed(0)}ms`;
+const formatCurrency = (value: number) => `$${value.toFixed(2)}`;
+
+const getComparisonRows = (conversation: ConversationRecord): ComparisonRow[] => {
+  const stats = conversation.callInfo.stats;
+  return [
+    { label: 'Duration', value: conversation.duration, metric: 'avgHandleTime', format: formatTime },
+    { label: 'Cost', value: conversation.cost, metric: 'avgCostPerCall', format: formatCurrency },
+    { label: 'LLM Latency', value: stats?.llmLatency, metric: 'avgLLMLatency', format: formatMs },
+    { label: 'TTS Latency', value: stats?.ttsLatency, metric: 'avgTTSLatency', format: formatMs },
+    {
+      label: 'Total Latency',
+      value: stats ? stats.llmLatency + stats.ttsLatency : undefined,
+      metric: 'avgTotalLatency',
+      format: formatMs,
+    },
+    { label: 'Interruptions', value: stats?.interruptions, metric: 'avgInterruptions', format: (value) => value.toFixed(2) },
+  ];
+};
+
+const InfoItem = ({ icon, label, value }: { icon: React.ReactNode; label: string; value: React.ReactNode }) => (
+  <Box display="flex" alignItems="center" mb={1.5}>
+    <Box sx={{ color: '#90caf9', mr: 1.5, display: 'flex' }}>{icon}</Box>
+    <Box>
+      <Typography variant="caption" color="text.secondary">{label}</Typography>
+      <Typography variant="body1" fontWeight="medium">{value}</Typography>
+    </Box>
+  </Box>
+);
+
+const ConversationDetailDrawer = observer(() => {
+  const store = useStore();
+  const explorer = store.explorer;
+  const detail = explorer.detail;
+
+  const renderContent = () => {
+    if (explorer.detailLoading) {
+      return (
+        <Box display="flex" justifyContent="center" py={8}>
+          <CircularProgress />
+        </Box>
+      );
+    }
+
+    if (explorer.detailError) {
+      return <Alert severity="error" sx={{ borderRadius: 2 }}>{explorer.detailError}</Alert>;
+    }
+
+    if (!detail) return null;
+
+    const { conversation, agentMetrics, period } = detail;
+    const { callInfo } = conversation;
+    const stats = callInfo.stats;
+
+    return (
+      <>
+        <Box display="flex" alignItems="center" mb={3}>
+          <Chip
+            label={conversation.status.replace('_', ' ')}
+            size="small"
+            sx={{
+              backgroundColor: `${statusColors[conversation.status]}20`,
+              color: statusColors[conversation.status],
+              border: `1px solid ${statusColors[conversation.status]}40`,
+              textTransform: 'capitalize',
+              mr: 1,
+            }}
+          />
+          <Chip label={callInfo.type} size="small" sx={{ textTransform: 'capitalize' }} />
+        </Box>
+
+        {/* Call Info */}
+        <Typography variant="subtitle1" fontWeight="bold" gutterBottom>Call Info</Typography>
+        <Grid container spacing={1}>
+          <Grid item xs={6}>
+            <InfoItem icon={<CallMade fontSize="small" />} label="Caller" value={callInfo.caller} />
+          </Grid>
+          <Grid item xs={6}>
+            <InfoItem icon={<CallReceived fontSize="small" />} label="Callee" value={callInfo.callee} />
+          </Grid>
+          <Grid item xs={6}>
+            <InfoItem icon={<Person fontSize="small" />} label="Agent" value={<>{conversation.agent}<AgentHealthBadge agent={conversation.agent} /></>} />
+          </Grid>
+          <Grid item xs={6}>
+            <InfoItem
+              icon={<Schedule fontSize="small" />}
+              label="Started"
+              value={dayjs(conversation.startTime).tz(store.timeZone).format('DD/MM/YYYY HH:mm:ss')}
+            />
+          </Grid>
+          <Grid item xs={6}>
+            <InfoItem icon={<Schedule fontSize="small" />} label="Duration" value={formatTime(conversation.duration)} />
+          </Grid>
+          <Grid item xs={6}>
+            <InfoItem icon={<AttachMoney fontSize="small" />} label="Cost" value={formatCurrency(conversation.cost)} />
+          </Grid>
+        </Grid>
+
+        <Divider sx={{ my: 3 }} />
+
+        {/* Call Stats */}
+        <Typography variant="subtitle1" fontWeight="bold" gutterBottom>Call Stats</Typography>
+        {stats ? (
+          <Grid container spacing={2}>
+            {[
+              { label: 'LLM Latency', value: formatMs(stats.llmLatency), color: '#29b6f6' },
+              { label: 'TTS Latency', value: formatMs(stats.ttsLatency), color: '#90caf9' },
+              { label: 'Total Latency', value: formatMs(stats.llmLatency + stats.ttsLatency), color: '#ce93d8' },
+              { label: 'Interruptions', value: String(stats.interruptions), color: '#ffa726' },
+            ].map((item) => (
+              <Grid item xs={6} key={item.label}>
+                <Box sx={{ p: 2, borderRadius: 2, border: `1px solid ${item.color}40`, backgroundColor: `${item.color}10` }}>
+                  <Typography variant="caption" color="text.secondary">{item.label}</Typography>
+                  <Typography variant="h6" fontWeight="bold" color={item.color}>{item.value}</Typography>
+                </Box>
+              </Grid>
+            ))}
+          </Grid>
+        ) : (
+          <Typography variant="body2" color="text.secondary">No stats were reported for this call.</Typography>
+        )}
+
+        <Divider sx={{ my: 3 }} />
+
+        {/* Agent comparison */}
+        <Typography variant="subtitle1" fontWeight="bold">
+          Compared with {conversation.agent}
+        </Typography>
+        <Typography variant="caption" color="text.secondary">
+          {period
+            ? `Agent averages from ${dayjs(period.start).format('DD/MM/YYYY')} to ${dayjs(period.end).format('DD/MM/YYYY')} (${agentMetrics.totalCalls} calls)`
+            : `Agent averages across all ${agentMetrics.totalCalls} calls`}
+        </Typography>
+        <Table size="small" sx={{ mt: 1 }}>
+          <TableHead>
+            <TableRow>
+              <TableCell>Measure</TableCell>
+              <TableCell align="right">This Call</TableCell>
+              <TableCell align="right">Agent Avg</TableCell>
+              <TableCell align="right">Difference</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {getComparisonRows(conversation).map((row) => {
+              const average = agentMetrics[row.metric];
+              const hasValue = typeof row.value === 'number';
+              const difference = hasValue && average > 0 ? (((row.value as number) - average) / average) * 100 : undefined;
+              return (
+                <TableRow key={row.label}>
+                  <TableCell>{row.label}</TableCell>
+                  <TableCell align="right">{hasValue ? row.format(row.value as number) : '-'}</TableCell>
+                  <TableCell align="right" title={getMetricDefinition(row.metric).label}>
+                    {row.format(average)}
+                  </TableCell>
+                  <TableCell
+                    align="right"
+                    sx={{ color: difference === undefined ? 'text.secondary' : difference > 0 ? '#f44336' : '#66bb6a' }}
+                  >
+                    {difference === undefined ? '-' : `${difference > 0 ? '+' : ''}${difference.toFixed(1)}%`}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </>
+    );
+  };
+
+  return (
+    <Drawer
+      anchor="right"
+      open={!!explorer.selectedId}
+      onClose={() => explorer.closeDetail()}
+      PaperProps={{ sx: { width: { xs: '100%', sm: 480 }, p: 3 } }}
+    >
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
+        <Typography variant="h5" fontWeight="bold">
+          {explorer.selectedId}
+        </Typography>
+        <IconButton onClick={() => explorer.closeDetail()}>
+          <CloseIcon />
+        </IconButton>
+      </Box>
+      {renderContent()}
+    </Drawer>
+  );
+});
+
+export default ConversationDetailDrawer;
@@ -0,0 +1,190 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { observer } from 'mobx-react-lite';
+import {
+  Box,
+  Typography,
+  TextField,
+  Chip,
+  Alert,
+  InputAdornment,
+} from '@mui/material';
+import { DataGrid, GridColDef, GridSortModel, GridPaginationModel } from '@mui/x-data-grid';
+import { Search, TableChart } from '@mui/icons-material';
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+import timezone from 'dayjs/plugin/timezone';
+import ConversationDetailDrawer from './ConversationDetailDrawer';
+import { useStore } from '../stores/StoreProvider';
+import { ConversationRecord } from '../../lib/types';
+import { ExplorerSortField } from '../../lib/explorer';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+const statusColors: { [status: string]: string } = {
+  success: '#66bb6a',
+  transfer: '#ffa726',
+  dropped: '#ce93d8',
+  no_answer: '#ce93d8',
+  busy: '#f44336',
+};
+
+// Start times are shown in the dashboard's time zone
+const getColumns = (timeZone: string): GridColDef<ConversationRecord>[] => [
+  { field: 'id', headerName: 'Conversation', flex: 1, minWidth: 120, sortable: false },
+  {
+    field: 'startTime',
+    headerName: 'Start Time',
+    flex: 1.2,
+    minWidth: 160,
+    valueFormatter: (params) => dayjs(params.value as number).tz(timeZone).format('DD/MM/YYYY HH:mm'),
+  },
+  { field: 'agent', headerName: 'Agent', flex: 0.8, minWidth: 100, sortable: false },
+  {
+    field: 'type',
+    headerName: 'Type',
+    flex: 0.8,
+    minWidth: 100,
+    sortable: false,
+    valueGetter: (params) => params.row.callInfo.type,
+  },
+  {
+    field: 'caller',
+    headerName: 'Caller',
+    flex: 1.1,
+    minWidth: 140,
+    sortable: false,
+    valueGetter: (params) => params.row.callInfo.caller,
+  },
+  {
+    field: 'callee',
+    headerName: 'Callee',
+    flex: 1.1,
+    minWidth: 140,
+    sortable: false,
+    valueGetter: (params) => params.row.callInfo.callee,
+  },
+  {
+    field: 'status',
+    headerName: 'Status',
+    flex: 0.9,
+    minWidth: 110,
+    sortable: false,
+    renderCell: (params) => (
+      <Chip
+        label={String(params.value).replace('_', ' ')}
+        size="small"
+        sx={{
+          backgroundColor: `${statusColors[params.value as string]}20`,
+          color: statusColors[params.value as string],
+          border: `1px solid ${statusColors[params.value as string]}40`,
+          textTransform: 'capitalize',
+        }}
+      />
+    ),
+  },
+  {
+    field: 'duration',
+    headerName: 'Duration',
+    flex: 0.8,
+    minWidth: 100,
+    valueFormatter: (params) => {
+      const seconds = params.value as number;
+      return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+    },
+  },
+  {
+    field: 'cost',
+    headerName: 'Cost',
+    flex: 0.7,
+    minWidth: 90,
+    valueFormatter: (params) => `$${(params.value as number).toFixed(2)}`,
+  },
+];
+
+const ConversationExplorer = observer(() => {
+  const store = useStore();
+  const explorer = store.explorer;
+  const timeZone = store.timeZone;
+  const columns = useMemo(() => getColumns(timeZone), [timeZone]);
+
+  const sortModel: GridSortModel = [{ field: explorer.sortField, sort: explorer.sortOrder }];
+
+  const handleSortModelChange = (model: GridSortModel) => {
+    const [sort] = model;
+    if (sort && sort.sort) {
+      explorer.setSort(sort.field as ExplorerSortField, sort.sort);
+    } else {
+      explorer.setSort('startTime', 'desc');
+    }
+  };
+
+  const handlePaginationModelChange = (model: GridPaginationModel) => {
+    explorer.setPagination(model.page, model.pageSize);
+  };
+
+  return (
+    <Box id="conversation-explorer">
+      <Box display="flex" alignItems="center" justifyContent="space-between" mb={2} flexWrap="wrap" gap={2}>
+        <Box display="flex" alignItems="center">
+          <TableChart sx={{ mr: 1, color: '#90caf9' }} />
+          <Typography variant="h5" fontWeight="bold">
+            Conversation Explorer
+          </Typography>
+          {explorer.drillDown && (
+            <Chip
+              label={explorer.drillDown.label}
+              onDelete={() => store.drillDown(undefined)}
+              size="small"
+              sx={{ ml: 2, backgroundColor: '#90caf920', color: '#90caf9', border: '1px solid #90caf940' }}
+            />
+          )}
+        </Box>
+        <TextField
+          size="small"
+          placeholder={store.auth.can('viewPhoneNumbers') ? 'Search number or conversation id' : 'Search conversation id'}
+          value={explorer.search}
+          onChange={(event) => explorer.setSearch(event.target.value)}
+          sx={{ minWidth: 300 }}
+          InputProps={{
+            startAdornment: (
+              <InputAdornment position="start">
+                <Search fontSize="small" />
+              </InputAdornment>
+            ),
+          }}
+        />
+      </Box>
+
+      {explorer.error && (
+        <Alert severity="error" sx={{ mb: 2, borderRadius: 2 }}>{explorer.error}</Alert>
+      )}
+
+      <Box sx={{ height: 520 }}>
+        <DataGrid
+          rows={explorer.result ? explorer.result.rows : []}
+          columns={columns}
+          rowCount={explorer.result ? explorer.result.total : 0}
+          loading={explorer.loading}
+          paginationMode="server"
+          sortingMode="server"
+          paginationModel={{ page: explorer.page, pageSize: explorer.pageSize }}
+          onPaginationModelChange={handlePaginationModelChange}
+          sortModel={sortModel}
+          onSortModelChange={handleSortModelChange}
+          pageSizeOptions={[10, 25, 50, 100]}
+          disableColumnFilter
+          disableRowSelectionOnClick
+          onRowClick={(params) => explorer.openDetail(String(params.id))}
+          sx={{ borderRadius: 2, borderColor: '#333', '& .MuiDataGrid-row': { cursor: 'pointer' } }}
+        />
+      </Box>
+
+      <ConversationDetailDrawer />
+    </Box>
+  );
+});
+
+export default ConversationExplorer;
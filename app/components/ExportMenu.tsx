@@ -0,0 +1,100 @@
+'use client';
+
+import React, { useState } from 'react';
+import { observer } from 'mobx-react-lite';
+import { Button, Divider, ListItemIcon, ListItemText, ListSubheader, Menu, MenuItem } from '@mui/material';
+import { Description, FileDownload, GridOn, Print } from '@mui/icons-material';
+import { useStore } from '../stores/StoreProvider';
+import { ExportDataset, ExportFormat } from '../../lib/export';
+
+interface ExportOption {
+  dataset: ExportDataset;
+  format: ExportFormat;
+  label: string;
+}
+
+const EXPORT_GROUPS: { title: string; options: ExportOption[] }[] = [
+  {
+    title: 'Conversations',
+    options: [
+      { dataset: 'conversations', format: 'csv', label: 'CSV' },
+      { dataset: 'conversations', format: 'xlsx', label: 'Excel (.xlsx)' },
+      { dataset: 'conversations', format: 'ndjson', label: 'NDJSON' },
+    ],
+  },
+  {
+    title: 'Agent Metrics',
+    options: [
+      { dataset: 'agents', format: 'csv', label: 'CSV' },
+      { dataset: 'agents', format: 'xlsx', label: 'Excel (.xlsx)' },
+    ],
+  },
+  {
+    title: 'KPI Summary',
+    options: [
+      { dataset: 'metrics', format: 'csv', label: 'CSV' },
+      { dataset: 'metrics', format: 'xlsx', label: 'Excel (.xlsx)' },
+    ],
+  },
+];
+
+// The server names the file through Content-Disposition
+const download = (url: string) => {
+  const a = document.createElement('a');
+  a.href = url;
+  a.click();
+};
+
+// Downloads of the filtered data and the printable report; both are rendered by the server
+const ExportMenu = observer(() => {
+  const store = useStore();
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+
+  const closeMenu = () => setAnchorEl(null);
+
+  const exportData = (option: ExportOption) => {
+    download(store.getExportUrl(option.dataset, option.format));
+    closeMenu();
+  };
+
+  const openReport = () => {
+    window.open(store.reportUrl, '_blank', 'noopener');
+    closeMenu();
+  };
+
+  return (
+    <>
+      <Button
+        size="small"
+        startIcon={<FileDownload />}
+        onClick={(event) => setAnchorEl(event.currentTarget)}
+        disabled={store.offline}
+        sx={{ ml: 1, color: '#90caf9' }}
+      >
+        Export
+      </Button>
+      <Menu anchorEl={anchorEl} open={Boolean(anchorEl)} onClose={closeMenu}>
+        {EXPORT_GROUPS.map((group) => [
+          <ListSubheader key={group.title}>{group.title}</ListSubheader>,
+          ...group.options.map((option) => (
+            <MenuItem key={`${option.dataset}-${option.format}`} onClick={() => exportData(option)} sx={{ minWidth: 240 }}>
+              <ListItemIcon>
+                {option.format === 'xlsx' ? <GridOn fontSize="small" /> : <Description fontSize="small" />}
+              </ListItemIcon>
+              <ListItemText primary={option.label} />
+            </MenuItem>
+          )),
+        ])}
+        <Divider />
+        <MenuItem onClick={openReport}>
+          <ListItemIcon>
+            <Print fontSize="small" />
+          </ListItemIcon>
+          <ListItemText primary="Printable report" secondary="Print or save as PDF" />
+        </MenuItem>
+      </Menu>
+    </>
+  );
+});
+
+export default ExportMenu;
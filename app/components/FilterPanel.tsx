@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   Box,
   TextField,
@@ -15,97 +15,110 @@ import {
   OutlinedInput,
   SelectChangeEvent,
   Paper,
+  Tooltip,
 } from '@mui/material';
 import { DatePicker } from '@mui/x-date-pickers/DatePicker';
 import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
 import { AdapterDayjs } from '@mui/x-date-pickers/AdapterDayjs';
 import dayjs, { Dayjs } from 'dayjs';
-import { FilterList, Clear, CalendarToday, Person, Phone, Schedule } from '@mui/icons-material';
+import utc from 'dayjs/plugin/utc';
+import timezone from 'dayjs/plugin/timezone';
+import { observer } from 'mobx-react-lite';
+import { FilterList, Clear, CalendarToday, Person, Phone, Schedule, AccessTime, Link as LinkIcon, FactCheck, Tune } from '@mui/icons-material';
 import { useStore } from '../stores/StoreProvider';
+import AgentHealthBadge from './AgentHealthBadge';
+import SavedViewsMenu from './SavedViewsMenu';
+import ExportMenu from './ExportMenu';
+import CompareDialog from './CompareDialog';
+import QueryInput from './QueryInput';
+import {
+  DURATION_BUCKETS,
+  DEFAULT_DURATION_THRESHOLDS,
+  DurationBucket,
+  DurationThresholds,
+  NUMERIC_FILTER_FIELDS,
+  NUMERIC_FILTER_LABELS,
+  NumericFilterField,
+  NumericRange,
+  NumericRanges,
+  TimeOfDayWindow,
+  formatDurationBucketLabel,
+} from '../../lib/filters';
+import { CALL_STATUSES, CallStatus } from '../../lib/types';
+import { COMMON_TIME_ZONES } from '../../lib/timezone';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
 
 interface Filters {
   dateRange?: { start: string; end: string };
   agents?: string[];
   callTypes?: string[];
-  timeRanges?: string[];
+  durationBuckets?: string[];
 }
 
 interface FilterPanelProps {
   onFiltersChange: (filters: Filters) => void;
   selectedAgents: string[];
   selectedCallTypes: string[];
-  selectedTimeRanges: string[];
+  selectedDurationBuckets: string[];
+  durationThresholds: DurationThresholds;
+  timeOfDay?: TimeOfDayWindow;
+  selectedStatuses: CallStatus[];
+  numericRanges: NumericRanges;
+  query: string;
   onAgentsChange: (agents: string[]) => void;
   onCallTypesChange: (callTypes: string[]) => void;
-  onTimeRangesChange: (timeRanges: string[]) => void;
+  onDurationBucketsChange: (durationBuckets: string[]) => void;
+  onDurationThresholdsChange: (thresholds: DurationThresholds) => void;
+  onTimeOfDayChange: (window?: TimeOfDayWindow) => void;
+  onStatusesChange: (statuses: CallStatus[]) => void;
+  onNumericRangeChange: (field: NumericFilterField, range?: NumericRange) => void;
+  onQueryChange: (query: string) => void;
   currentFilters?: Filters;
 }
 
-const timeRangeOptions = [
-  'short',   // < 2 minutes
-  'medium',  // 2-5 minutes
-  'long',    // > 5 minutes
-];
+const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
 
-const timeRangeLabels: { [key: string]: string } = {
-  'short': 'Short Calls (< 2 min)',
-  'medium': 'Medium Calls (2-5 min)',
-  'long': 'Long Calls (> 5 min)',
+const formatStatusLabel = (status: string) => {
+  const label = status.replace('_', ' ');
+  return label.charAt(0).toUpperCase() + label.slice(1);
 };
 
-export default function FilterPanel({ onFiltersChange, selectedAgents, selectedCallTypes, selectedTimeRanges, onAgentsChange, onCallTypesChange, onTimeRangesChange, currentFilters }: FilterPanelProps) {
+const FilterPanel = observer(({ onFiltersChange, selectedAgents, selectedCallTypes, selectedDurationBuckets, durationThresholds, timeOfDay, selectedStatuses, numericRanges, query, onAgentsChange, onCallTypesChange, onDurationBucketsChange, onDurationThresholdsChange, onTimeOfDayChange, onStatusesChange, onNumericRangeChange, onQueryChange, currentFilters }: FilterPanelProps) => {
   const store = useStore();
   const [startDate, setStartDate] = useState<Dayjs | null>(null);
   const [endDate, setEndDate] = useState<Dayjs | null>(null);
-  
-  const hasInitialized = useRef(false);
+  const [linkCopied, setLinkCopied] = useState(false);
 
   // Get available options from store
   const availableAgents = store.availableAgents;
   const availableCallTypes = store.availableCallTypes;
 
-  // Calculate date range from conversations
-  const dateRange = React.useMemo(() => {
-    if (store.conversations.length === 0) return null;
-    
-    const timestamps = store.conversations.map(conv => conv.startTime);
-    const minTime = Math.min(...timestamps);
-    const maxTime = Math.max(...timestamps);
-    
-    return {
-      min: dayjs(minTime).format('YYYY-MM-DD'),
-      max: dayjs(maxTime).format('YYYY-MM-DD'),
-    };
-  }, [store.conversations]);
+  // Full date range of the dataset as reported by the API
+  const dateRange = store.filterOptions.dateRange;
+
+  // The pickers work in the dashboard's time zone, so "today" and the chosen days match the data
+  const timeZone = store.timeZone;
+  const toPickerDate = (date: string) => dayjs.tz(date, timeZone);
 
   // Sync date pickers with current filters from parent (always keep them in sync)
   useEffect(() => {
     if (currentFilters?.dateRange) {
-      const start = dayjs(currentFilters.dateRange.start);
-      const end = dayjs(currentFilters.dateRange.end);
+      const start = dayjs.tz(currentFilters.dateRange.start, timeZone);
+      const end = dayjs.tz(currentFilters.dateRange.end, timeZone);
       setStartDate(start);
       setEndDate(end);
     }
-  }, [currentFilters?.dateRange]);
+  }, [currentFilters?.dateRange, timeZone]);
 
-  // Initialize dates and send initial filters when date range is available
-  useEffect(() => {
-    if (dateRange && !hasInitialized.current && !currentFilters?.dateRange && store.conversations.length > 0) {
-      hasInitialized.current = true;
-      
-      const start = dayjs(dateRange.min);
-      const end = dayjs(dateRange.max);
-      
-      // Send initial filters with full date range
-      const initialFilters: Filters = {
-        dateRange: {
-          start: start.format('YYYY-MM-DD'),
-          end: end.format('YYYY-MM-DD'),
-        }
-      };
-      onFiltersChange(initialFilters);
-    }
-  }, [dateRange, currentFilters?.dateRange, store.conversations.length]);
+  // The address bar always holds the current filters (see Dashboard), so sharing is copying it
+  const copyLink = () => {
+    navigator.clipboard?.writeText(window.location.href).then(() => {
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    });
+  };
 
   const handleAgentChange = (event: SelectChangeEvent<typeof selectedAgents>) => {
     const value = event.target.value;
@@ -129,8 +142,8 @@ export default function FilterPanel({ onFiltersChange, selectedAgents, selectedC
         filters.callTypes = selectedCallTypes;
       }
       
-      if (selectedTimeRanges.length > 0) {
-        filters.timeRanges = selectedTimeRanges;
+      if (selectedDurationBuckets.length > 0) {
+        filters.durationBuckets = selectedDurationBuckets;
       }
       
       onFiltersChange(filters);
@@ -159,20 +172,20 @@ export default function FilterPanel({ onFiltersChange, selectedAgents, selectedC
         filters.callTypes = newCallTypes;
       }
       
-      if (selectedTimeRanges.length > 0) {
-        filters.timeRanges = selectedTimeRanges;
+      if (selectedDurationBuckets.length > 0) {
+        filters.durationBuckets = selectedDurationBuckets;
       }
       
       onFiltersChange(filters);
     }
   };
 
-  const handleTimeRangeChange = (event: SelectChangeEvent<typeof selectedTimeRanges>) => {
+  const handleDurationBucketChange = (event: SelectChangeEvent<typeof selectedDurationBuckets>) => {
     const value = event.target.value;
-    const newTimeRanges = typeof value === 'string' ? value.split(',') : value;
-    onTimeRangesChange(newTimeRanges);
+    const newDurationBuckets = typeof value === 'string' ? value.split(',') : value;
+    onDurationBucketsChange(newDurationBuckets);
     
-    // Build filters with the new time ranges value
+    // Build filters with the new duration buckets value
     if (startDate && endDate) {
       const filters: Filters = {
         dateRange: {
@@ -189,8 +202,8 @@ export default function FilterPanel({ onFiltersChange, selectedAgents, selectedC
         filters.callTypes = selectedCallTypes;
       }
       
-      if (newTimeRanges.length > 0) {
-        filters.timeRanges = newTimeRanges;
+      if (newDurationBuckets.length > 0) {
+        filters.durationBuckets = newDurationBuckets;
       }
       
       onFiltersChange(filters);
@@ -217,8 +230,8 @@ export default function FilterPanel({ onFiltersChange, selectedAgents, selectedC
         filters.callTypes = selectedCallTypes;
       }
       
-      if (selectedTimeRanges.length > 0) {
-        filters.timeRanges = selectedTimeRanges;
+      if (selectedDurationBuckets.length > 0) {
+        filters.durationBuckets = selectedDurationBuckets;
       }
       
       onFiltersChange(filters);
@@ -228,14 +241,19 @@ export default function FilterPanel({ onFiltersChange, selectedAgents, selectedC
   const clearAllFilters = () => {
     // Reset to full date range
     if (dateRange) {
-      const start = dayjs(dateRange.min);
-      const end = dayjs(dateRange.max);
+      const start = toPickerDate(dateRange.min);
+      const end = toPickerDate(dateRange.max);
       setStartDate(start);
       setEndDate(end);
       
       onAgentsChange([]);
       onCallTypesChange([]);
-      onTimeRangesChange([]);
+      onDurationBucketsChange([]);
+      onDurationThresholdsChange(DEFAULT_DURATION_THRESHOLDS);
+      onTimeOfDayChange(undefined);
+      onStatusesChange([]);
+      NUMERIC_FILTER_FIELDS.forEach((field) => onNumericRangeChange(field, undefined));
+      onQueryChange('');
       
       const filters: Filters = {
         dateRange: {
@@ -248,7 +266,45 @@ export default function FilterPanel({ onFiltersChange, selectedAgents, selectedC
     }
   };
 
-  const hasActiveFilters = selectedAgents.length > 0 || selectedCallTypes.length > 0 || selectedTimeRanges.length > 0;
+  // Thresholds are edited in minutes but stored in seconds
+  const handleThresholdChange = (key: keyof DurationThresholds, minutes: string) => {
+    const seconds = Math.round(Number(minutes) * 60);
+    if (isNaN(seconds) || seconds < 0) return;
+    const next = { ...durationThresholds, [key]: seconds };
+    if (next.shortMax <= next.longMin) {
+      onDurationThresholdsChange(next);
+    }
+  };
+
+  const handleTimeOfDayChange = (changes: Partial<TimeOfDayWindow>) => {
+    const next = {
+      start: timeOfDay?.start || '09:00',
+      end: timeOfDay?.end || '17:00',
+      timeZone: timeOfDay?.timeZone || timeZone,
+      ...changes,
+    };
+    onTimeOfDayChange(next);
+  };
+
+  // The common zones, plus the browser's and the dashboard's own when they are not among them
+  const zoneOptions = [timeZone, browserTimeZone].reduce(
+    (options, zone) => (options.indexOf(zone) === -1 ? [zone, ...options] : options),
+    COMMON_TIME_ZONES
+  );
+
+  // Blank bounds are open; a min above the max is ignored until the other bound is changed
+  const handleRangeChange = (field: NumericFilterField, bound: keyof NumericRange, input: string) => {
+    const value = input.trim() === '' ? undefined : Number(input);
+    if (value !== undefined && isNaN(value)) return;
+    const next = { ...numericRanges[field], [bound]: value };
+    if (next.min !== undefined && next.max !== undefined && next.min > next.max) return;
+    onNumericRangeChange(field, next);
+  };
+
+  const activeRangeCount = Object.keys(numericRanges).length;
+
+  const hasActiveFilters = selectedAgents.length > 0 || selectedCallTypes.length > 0 || selectedDurationBuckets.length > 0 || !!timeOfDay
+    || selectedStatuses.length > 0 || activeRangeCount > 0 || query !== '';
 
   return (
     <Box>
@@ -257,6 +313,21 @@ export default function FilterPanel({ onFiltersChange, selectedAgents, selectedC
         <Typography variant="h6" fontWeight="bold">
           Filters
         </Typography>
+        <Box ml="auto">
+          <SavedViewsMenu />
+        </Box>
+        <Tooltip title={linkCopied ? 'Link copied' : 'Copy a link to this view'}>
+          <Button
+            size="small"
+            startIcon={<LinkIcon />}
+            onClick={copyLink}
+            sx={{ ml: 1, color: '#90caf9' }}
+          >
+            Share
+          </Button>
+        </Tooltip>
+        <CompareDialog />
+        <ExportMenu />
         {hasActiveFilters && (
           <Button
             variant="outlined"
@@ -264,7 +335,7 @@ export default function FilterPanel({ onFiltersChange, selectedAgents, selectedC
             startIcon={<Clear />}
             onClick={clearAllFilters}
             sx={{ 
-              ml: 'auto',
+              ml: 1,
               borderColor: '#ce93d8',
               color: '#ce93d8',
               '&:hover': {
@@ -279,6 +350,15 @@ export default function FilterPanel({ onFiltersChange, selectedAgents, selectedC
       </Box>
 
       <Grid container spacing={3}>
+        {/* Query language */}
+        <Grid item xs={12}>
+          <QueryInput
+            query={query}
+            onQueryChange={onQueryChange}
+            valueOptions={{ agent: availableAgents }}
+          />
+        </Grid>
+
         {/* Date Range */}
         <Grid item xs={12} md={6}>
           <Box>
@@ -294,8 +374,9 @@ export default function FilterPanel({ onFiltersChange, selectedAgents, selectedC
                   label="Start Date"
                   value={startDate}
                   onChange={(newValue) => handleDateChange(newValue, endDate)}
-                  minDate={dateRange ? dayjs(dateRange.min) : undefined}
-                  maxDate={dateRange ? dayjs(dateRange.max) : undefined}
+                  timezone={timeZone}
+                  minDate={dateRange ? toPickerDate(dateRange.min) : undefined}
+                  maxDate={dateRange ? toPickerDate(dateRange.max) : undefined}
                   slotProps={{
                     textField: {
                       fullWidth: true,
@@ -309,8 +390,9 @@ export default function FilterPanel({ onFiltersChange, selectedAgents, selectedC
                   label="End Date"
                   value={endDate}
                   onChange={(newValue) => handleDateChange(startDate, newValue)}
-                  minDate={startDate || (dateRange ? dayjs(dateRange.min) : undefined)}
-                  maxDate={dateRange ? dayjs(dateRange.max) : undefined}
+                  timezone={timeZone}
+                  minDate={startDate || (dateRange ? toPickerDate(dateRange.min) : undefined)}
+                  maxDate={dateRange ? toPickerDate(dateRange.max) : undefined}
                   slotProps={{
                     textField: {
                       fullWidth: true,
@@ -373,6 +455,7 @@ export default function FilterPanel({ onFiltersChange, selectedAgents, selectedC
                 {availableAgents.map((agent) => (
                   <MenuItem key={agent} value={agent}>
                     {agent}
+                    <AgentHealthBadge agent={agent} />
                   </MenuItem>
                 ))}
               </Select>
@@ -445,9 +528,9 @@ export default function FilterPanel({ onFiltersChange, selectedAgents, selectedC
               <Typography variant="subtitle1" fontWeight="medium">
                 Call Duration
               </Typography>
-              {selectedTimeRanges.length > 0 && (
+              {selectedDurationBuckets.length > 0 && (
                 <Chip 
-                  label={selectedTimeRanges.length} 
+                  label={selectedDurationBuckets.length} 
                   size="small" 
                   sx={{ 
                     ml: 1, 
@@ -464,15 +547,15 @@ export default function FilterPanel({ onFiltersChange, selectedAgents, selectedC
               <InputLabel>Select Duration Ranges</InputLabel>
               <Select
                 multiple
-                value={selectedTimeRanges}
-                onChange={handleTimeRangeChange}
+                value={selectedDurationBuckets}
+                onChange={handleDurationBucketChange}
                 input={<OutlinedInput label="Select Duration Ranges" />}
                 renderValue={(selected) => (
                   <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
                     {selected.map((value) => (
                       <Chip 
                         key={value} 
-                        label={timeRangeLabels[value]} 
+                        label={formatDurationBucketLabel(value as DurationBucket, durationThresholds)} 
                         size="small"
                         sx={{ 
                           backgroundColor: '#ffa72620',
@@ -484,16 +567,211 @@ export default function FilterPanel({ onFiltersChange, selectedAgents, selectedC
                   </Box>
                 )}
               >
-                {timeRangeOptions.map((range) => (
-                  <MenuItem key={range} value={range}>
-                    {timeRangeLabels[range]}
+                {DURATION_BUCKETS.map((bucket) => (
+                  <MenuItem key={bucket} value={bucket}>
+                    {formatDurationBucketLabel(bucket, durationThresholds)}
                   </MenuItem>
                 ))}
               </Select>
             </FormControl>
+            <Grid container spacing={2} mt={0}>
+              <Grid item xs={6}>
+                <TextField
+                  label="Short below (min)"
+                  type="number"
+                  size="small"
+                  fullWidth
+                  value={durationThresholds.shortMax / 60}
+                  onChange={(event) => handleThresholdChange('shortMax', event.target.value)}
+                  inputProps={{ min: 0, step: 0.5 }}
+                />
+              </Grid>
+              <Grid item xs={6}>
+                <TextField
+                  label="Long from (min)"
+                  type="number"
+                  size="small"
+                  fullWidth
+                  value={durationThresholds.longMin / 60}
+                  onChange={(event) => handleThresholdChange('longMin', event.target.value)}
+                  inputProps={{ min: 0, step: 0.5 }}
+                />
+              </Grid>
+            </Grid>
+          </Box>
+        </Grid>
+
+        {/* Time of Day */}
+        <Grid item xs={12} md={6}>
+          <Box>
+            <Box display="flex" alignItems="center" mb={2}>
+              <AccessTime sx={{ mr: 1, color: '#ce93d8', fontSize: 20 }} />
+              <Typography variant="subtitle1" fontWeight="medium">
+                Time of Day
+              </Typography>
+              {timeOfDay && (
+                <Button
+                  size="small"
+                  onClick={() => onTimeOfDayChange(undefined)}
+                  sx={{ ml: 'auto', color: '#ce93d8' }}
+                >
+                  Any time
+                </Button>
+              )}
+            </Box>
+            <Grid container spacing={2}>
+              <Grid item xs={4}>
+                <TextField
+                  label="From"
+                  type="time"
+                  size="small"
+                  fullWidth
+                  value={timeOfDay?.start || ''}
+                  onChange={(event) => handleTimeOfDayChange({ start: event.target.value })}
+                  InputLabelProps={{ shrink: true }}
+                />
+              </Grid>
+              <Grid item xs={4}>
+                <TextField
+                  label="To"
+                  type="time"
+                  size="small"
+                  fullWidth
+                  value={timeOfDay?.end || ''}
+                  onChange={(event) => handleTimeOfDayChange({ end: event.target.value })}
+                  InputLabelProps={{ shrink: true }}
+                />
+              </Grid>
+              <Grid item xs={4}>
+                <FormControl fullWidth size="small">
+                  <InputLabel>Time Zone</InputLabel>
+                  <Select
+                    value={timeOfDay?.timeZone || timeZone}
+                    onChange={(event) => handleTimeOfDayChange({ timeZone: event.target.value })}
+                    input={<OutlinedInput label="Time Zone" />}
+                  >
+                    {zoneOptions.map((zone) => (
+                      <MenuItem key={zone} value={zone}>
+                        {zone}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Grid>
+            </Grid>
+          </Box>
+        </Grid>
+
+        {/* Call Status */}
+        <Grid item xs={12} md={6}>
+          <Box>
+            <Box display="flex" alignItems="center" mb={2}>
+              <FactCheck sx={{ mr: 1, color: '#ef9a9a', fontSize: 20 }} />
+              <Typography variant="subtitle1" fontWeight="medium">
+                Call Status
+              </Typography>
+              {selectedStatuses.length > 0 && (
+                <Chip 
+                  label={selectedStatuses.length} 
+                  size="small" 
+                  sx={{ 
+                    ml: 1, 
+                    backgroundColor: '#ef9a9a', 
+                    color: 'white',
+                    minWidth: '24px',
+                    height: '20px',
+                    fontSize: '0.75rem'
+                  }} 
+                />
+              )}
+            </Box>
+            <FormControl fullWidth size="small">
+              <InputLabel>Select Statuses</InputLabel>
+              <Select
+                multiple
+                value={selectedStatuses}
+                onChange={(event) => {
+                  const value = event.target.value;
+                  onStatusesChange((typeof value === 'string' ? value.split(',') : value) as CallStatus[]);
+                }}
+                input={<OutlinedInput label="Select Statuses" />}
+                renderValue={(selected) => (
+                  <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                    {selected.map((value) => (
+                      <Chip 
+                        key={value} 
+                        label={formatStatusLabel(value)} 
+                        size="small"
+                        sx={{ 
+                          backgroundColor: '#ef9a9a20',
+                          color: '#ef9a9a',
+                          border: '1px solid #ef9a9a40'
+                        }}
+                      />
+                    ))}
+                  </Box>
+                )}
+              >
+                {CALL_STATUSES.map((status) => (
+                  <MenuItem key={status} value={status}>
+                    {formatStatusLabel(status)}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Box>
+        </Grid>
+
+        {/* Cost, latency and interruption ranges */}
+        <Grid item xs={12}>
+          <Box>
+            <Box display="flex" alignItems="center" mb={2}>
+              <Tune sx={{ mr: 1, color: '#29b6f6', fontSize: 20 }} />
+              <Typography variant="subtitle1" fontWeight="medium">
+                Cost & Quality
+              </Typography>
+              {activeRangeCount > 0 && (
+                <Button
+                  size="small"
+                  onClick={() => NUMERIC_FILTER_FIELDS.forEach((field) => onNumericRangeChange(field, undefined))}
+                  sx={{ ml: 'auto', color: '#29b6f6' }}
+                >
+                  Any value
+                </Button>
+              )}
+            </Box>
+            <Grid container spacing={2}>
+              {NUMERIC_FILTER_FIELDS.map((field) => (
+                <Grid item xs={12} sm={6} md={3} key={field}>
+                  <Typography variant="body2" color="text.secondary" mb={1}>
+                    {NUMERIC_FILTER_LABELS[field]}
+                  </Typography>
+                  <Box display="flex" gap={1}>
+                    <TextField
+                      label="Min"
+                      type="number"
+                      size="small"
+                      value={numericRanges[field]?.min ?? ''}
+                      onChange={(event) => handleRangeChange(field, 'min', event.target.value)}
+                      inputProps={{ min: 0 }}
+                    />
+                    <TextField
+                      label="Max"
+                      type="number"
+                      size="small"
+                      value={numericRanges[field]?.max ?? ''}
+                      onChange={(event) => handleRangeChange(field, 'max', event.target.value)}
+                      inputProps={{ min: 0 }}
+                    />
+                  </Box>
+                </Grid>
+              ))}
+            </Grid>
           </Box>
         </Grid>
       </Grid>
     </Box>
   );
-} 
\ No newline at end of file
+});
+
+export default FilterPanel;
@@ -0,0 +1,210 @@
+'use client';
+
+import React, { useState } from 'react';
+import { observer } from 'mobx-react-lite';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  LinearProgress,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { ArrowDownward, ArrowUpward, Remove, Tune } from '@mui/icons-material';
+import dayjs from 'dayjs';
+import { useStore } from '../stores/StoreProvider';
+import AgentHealthBadge from './AgentHealthBadge';
+import { DrillDownRequest } from '../stores/ExplorerStore';
+import { formatMetricValue, getMetricDefinition } from '../../lib/metrics';
+import { LeaderboardEntry, SCORE_METRICS, ScoreWeights, validateScoreWeights } from '../../lib/leaderboard';
+
+const formatDate = (date: string) => dayjs(date).format('DD/MM/YYYY');
+
+const RankChange = ({ entry }: { entry: LeaderboardEntry }) => {
+  if (entry.rank === undefined) return null;
+  if (entry.rankChange === undefined) {
+    return <Typography variant="caption" color="text.secondary">new</Typography>;
+  }
+  if (entry.rankChange === 0) {
+    return <Remove fontSize="small" sx={{ color: 'text.secondary' }} />;
+  }
+  const up = entry.rankChange > 0;
+  return (
+    <Tooltip title={`Ranked #${entry.previousRank} in the previous period`}>
+      <Box display="inline-flex" alignItems="center" sx={{ color: up ? '#66bb6a' : '#f44336' }}>
+        {up ? <ArrowUpward fontSize="small" /> : <ArrowDownward fontSize="small" />}
+        <Typography variant="body2">{Math.abs(entry.rankChange)}</Typography>
+      </Box>
+    </Tooltip>
+  );
+};
+
+// Admin form for the weights; each one is shown with its share of the composite
+const WeightsDialog = observer(({ open, onClose }: { open: boolean; onClose: () => void }) => {
+  const store = useStore();
+  const leaderboard = store.leaderboard;
+  const [weights, setWeights] = useState<ScoreWeights>(leaderboard.weights);
+
+  const total = SCORE_METRICS.reduce((sum, metric) => sum + (weights[metric] || 0), 0);
+  const invalid = validateScoreWeights(weights);
+
+  const save = async () => {
+    if (await leaderboard.saveWeights(weights)) {
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="xs"
+      fullWidth
+      TransitionProps={{ onEnter: () => { leaderboard.clearError(); setWeights(leaderboard.weights); } }}
+    >
+      <DialogTitle>Score weights</DialogTitle>
+      <DialogContent>
+        {leaderboard.error && (
+          <Alert severity="error" sx={{ mb: 2 }}>{leaderboard.error}</Alert>
+        )}
+        {SCORE_METRICS.map((metric) => (
+          <TextField
+            key={metric}
+            label={getMetricDefinition(metric).label}
+            type="number"
+            size="small"
+            fullWidth
+            margin="dense"
+            value={Number.isNaN(weights[metric]) ? '' : weights[metric]}
+            onChange={(event) => setWeights({ ...weights, [metric]: event.target.value === '' ? NaN : Number(event.target.value) })}
+            inputProps={{ min: 0 }}
+            helperText={total > 0 && weights[metric] >= 0 ? `${Math.round((weights[metric] / total) * 100)}% of the score` : ' '}
+          />
+        ))}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={save} disabled={invalid !== undefined}>
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+});
+
+interface LeaderboardTabProps {
+  // Called with the agent of a clicked row
+  onDrillDown?: (drillDown: DrillDownRequest) => void;
+}
+
+// Agents ranked by the weighted composite score, with their movement since the previous period
+const LeaderboardTab = observer(({ onDrillDown }: LeaderboardTabProps) => {
+  const store = useStore();
+  const { leaderboard, loading, error } = store.leaderboard;
+  const [weightsOpen, setWeightsOpen] = useState(false);
+
+  const comparisonPeriod = leaderboard?.comparisonPeriod;
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Box display="flex" alignItems="center" mb={2}>
+        <Box>
+          <Typography variant="h6">Agent Leaderboard</Typography>
+          <Typography variant="body2" color="text.secondary">
+            Each KPI is scored from 0 (worst agent) to 100 (best agent), then blended by weight.
+            {leaderboard && ` Agents with fewer than ${leaderboard.minCalls} calls are not ranked.`}
+            {comparisonPeriod && ` Rank changes are against ${formatDate(comparisonPeriod.start)} - ${formatDate(comparisonPeriod.end)}.`}
+          </Typography>
+        </Box>
+        {store.auth.can('manageSettings') && (
+          <Button
+            size="small"
+            startIcon={<Tune />}
+            onClick={() => setWeightsOpen(true)}
+            disabled={store.offline}
+            sx={{ ml: 'auto', color: '#90caf9' }}
+          >
+            Weights
+          </Button>
+        )}
+      </Box>
+
+      {loading && <LinearProgress sx={{ mb: 1 }} />}
+      {error && !weightsOpen && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+      {leaderboard && (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Rank</TableCell>
+              <TableCell>Agent</TableCell>
+              <TableCell>Change</TableCell>
+              <TableCell sx={{ minWidth: 160 }}>Score</TableCell>
+              {SCORE_METRICS.map((metric) => (
+                <TableCell key={metric} align="right">
+                  {getMetricDefinition(metric).label}
+                  <Typography variant="caption" display="block" color="text.secondary">
+                    weight {leaderboard.weights[metric]}
+                  </Typography>
+                </TableCell>
+              ))}
+              <TableCell align="right">Calls</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {leaderboard.entries.map((entry) => (
+              <TableRow
+                key={entry.agent}
+                hover={!!onDrillDown}
+                onClick={onDrillDown ? () => onDrillDown({ label: entry.agent.replace('agent_', 'Agent '), agents: [entry.agent] }) : undefined}
+                sx={{ cursor: onDrillDown ? 'pointer' : undefined, opacity: entry.rank === undefined ? 0.6 : 1 }}
+              >
+                <TableCell>{entry.rank !== undefined ? `#${entry.rank}` : '—'}</TableCell>
+                <TableCell>
+                  <Box display="flex" alignItems="center">
+                    {entry.agent.replace('agent_', 'Agent ')}
+                    <AgentHealthBadge agent={entry.agent} />
+                  </Box>
+                </TableCell>
+                <TableCell><RankChange entry={entry} /></TableCell>
+                <TableCell>
+                  {entry.score !== undefined ? (
+                    <Box display="flex" alignItems="center" gap={1}>
+                      <LinearProgress variant="determinate" value={entry.score} sx={{ flexGrow: 1, height: 8, borderRadius: 4 }} />
+                      <Typography variant="body2" fontWeight="bold">{entry.score.toFixed(1)}</Typography>
+                    </Box>
+                  ) : (
+                    <Typography variant="caption" color="text.secondary">Too few calls</Typography>
+                  )}
+                </TableCell>
+                {SCORE_METRICS.map((metric) => (
+                  <TableCell key={metric} align="right">
+                    <Tooltip title={entry.components ? `Scores ${entry.components[metric]} of 100` : ''}>
+                      <span>{formatMetricValue(getMetricDefinition(metric).format, entry.metrics[metric])}</span>
+                    </Tooltip>
+                  </TableCell>
+                ))}
+                <TableCell align="right">{entry.metrics.totalCalls}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <WeightsDialog open={weightsOpen} onClose={() => setWeightsOpen(false)} />
+    </Paper>
+  );
+});
+
+export default LeaderboardTab;
@@ -0,0 +1,95 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Autocomplete, Box, TextField, Typography } from '@mui/material';
+import { formatQueryError, getQuerySuggestions, parseQuery, QuerySuggestion, QueryValueOptions } from '../../lib/query';
+
+interface QueryInputProps {
+  // Last valid expression applied to the dashboard
+  query: string;
+  onQueryChange: (query: string) => void;
+  // Completions for free-text fields such as agent
+  valueOptions?: QueryValueOptions;
+}
+
+const EXAMPLE_QUERY = 'status:dropped agent:agent_4 duration>300 stats.interruptions>=3 type:outbound';
+
+// Free-form query box. Expressions are applied as soon as they parse; while the
+// text has errors the dashboard keeps the last valid query and the error is shown.
+const QueryInput = ({ query, onQueryChange, valueOptions }: QueryInputProps) => {
+  const [draft, setDraft] = useState(query);
+  const [cursor, setCursor] = useState(query.length);
+  const inputRef = useRef<HTMLInputElement | null>(null);
+
+  // Follow changes made elsewhere (saved views, Clear All, shared links)
+  useEffect(() => {
+    setDraft((current) => (current.trim() === query ? current : query));
+  }, [query]);
+
+  const errors = useMemo(() => parseQuery(draft).errors, [draft]);
+  const suggestions = useMemo(
+    () => getQuerySuggestions(draft, cursor, valueOptions),
+    [draft, cursor, valueOptions]
+  );
+
+  const updateDraft = (text: string) => {
+    setDraft(text);
+    setCursor(inputRef.current?.selectionStart ?? text.length);
+    if (parseQuery(text).errors.length === 0 && text.trim() !== query) {
+      onQueryChange(text);
+    }
+  };
+
+  const acceptSuggestion = (suggestion: QuerySuggestion) => {
+    const text = draft.slice(0, suggestion.replaceStart) + suggestion.insertText + draft.slice(suggestion.replaceEnd);
+    const caret = suggestion.replaceStart + suggestion.insertText.length;
+    updateDraft(text);
+    setCursor(caret);
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(caret, caret));
+  };
+
+  return (
+    <Autocomplete<QuerySuggestion, false, false, true>
+      freeSolo
+      options={suggestions}
+      filterOptions={(options) => options}
+      getOptionLabel={(option) => (typeof option === 'string' ? option : option.label)}
+      value={null}
+      inputValue={draft}
+      onInputChange={(_, value, reason) => {
+        if (reason === 'input') updateDraft(value);
+      }}
+      onChange={(_, option) => {
+        if (option && typeof option !== 'string') acceptSuggestion(option);
+      }}
+      renderOption={(props, option) => (
+        <li {...props} key={`${option.label}-${option.replaceStart}`}>
+          <Box display="flex" justifyContent="space-between" width="100%" gap={2}>
+            <Typography variant="body2" fontFamily="monospace">{option.label}</Typography>
+            {option.detail && (
+              <Typography variant="body2" color="text.secondary">{option.detail}</Typography>
+            )}
+          </Box>
+        </li>
+      )}
+      renderInput={(params) => (
+        <TextField
+          {...params}
+          inputRef={inputRef}
+          size="small"
+          label="Query"
+          placeholder={EXAMPLE_QUERY}
+          error={errors.length > 0}
+          helperText={errors.length > 0
+            ? formatQueryError(errors[0])
+            : 'Fields: id, agent, status, type, caller, callee, startTime, duration, cost, stats.*; operators : = != > >= < <=, prefix - to negate'}
+          onKeyUp={(event) => setCursor((event.target as HTMLInputElement).selectionStart ?? draft.length)}
+          onClick={(event) => setCursor((event.target as HTMLInputElement).selectionStart ?? draft.length)}
+          InputProps={{ ...params.InputProps, sx: { fontFamily: 'monospace' } }}
+        />
+      )}
+    />
+  );
+};
+
+export default QueryInput;
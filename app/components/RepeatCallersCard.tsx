@@ -0,0 +1,117 @@
+'use client';
+
+import React from 'react';
+import { observer } from 'mobx-react-lite';
+import {
+  Card,
+  CardContent,
+  Box,
+  Typography,
+  Select,
+  MenuItem,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemText,
+  Chip,
+} from '@mui/material';
+import { PhoneCallback } from '@mui/icons-material';
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+import timezone from 'dayjs/plugin/timezone';
+import { useStore } from '../stores/StoreProvider';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+const REPEAT_WINDOW_OPTIONS = [
+  { hours: 24, label: '24 hours' },
+  { hours: 72, label: '3 days' },
+  { hours: 168, label: '7 days' },
+  { hours: 720, label: '30 days' },
+];
+
+// Number of callers listed on the card; the rest are reachable through the explorer
+const VISIBLE_CALLERS = 5;
+
+interface RepeatCallersCardProps {
+  // Called with a customer number to show their calls in the explorer; the list is not clickable without it
+  onSelectNumber?: (number: string) => void;
+}
+
+const RepeatCallersCard = observer(({ onSelectNumber }: RepeatCallersCardProps) => {
+  const store = useStore();
+  const callers = store.repeatCallers;
+  const windowHours = store.filters.repeatWindowHours;
+  const windowOptions = REPEAT_WINDOW_OPTIONS.some((option) => option.hours === windowHours)
+    ? REPEAT_WINDOW_OPTIONS
+    : REPEAT_WINDOW_OPTIONS.concat({ hours: windowHours, label: `${windowHours} hours` });
+
+  return (
+    <Card sx={{
+      height: '100%',
+      background: 'linear-gradient(135deg, rgba(206, 147, 216, 0.1) 0%, rgba(30, 30, 30, 0.8) 100%)',
+      border: '1px solid #ce93d8',
+      borderRadius: 2,
+    }}>
+      <CardContent sx={{ p: 3 }}>
+        <Box display="flex" alignItems="center" justifyContent="space-between" mb={1}>
+          <Box display="flex" alignItems="center">
+            <PhoneCallback sx={{ color: '#ce93d8', mr: 1 }} />
+            <Typography variant="h6" fontWeight="bold">Repeat Callers</Typography>
+          </Box>
+          <Typography variant="h6" fontWeight="bold" color="#ce93d8">
+            {store.metrics.repeatContactRate.toFixed(1)}%
+          </Typography>
+        </Box>
+
+        <Box display="flex" alignItems="center" mb={1}>
+          <Typography variant="body2" color="text.secondary" sx={{ mr: 1 }}>
+            Calling back within
+          </Typography>
+          <Select
+            size="small"
+            variant="standard"
+            value={windowHours}
+            onChange={(event) => store.setRepeatWindowHours(Number(event.target.value))}
+          >
+            {windowOptions.map((option) => (
+              <MenuItem key={option.hours} value={option.hours}>{option.label}</MenuItem>
+            ))}
+          </Select>
+        </Box>
+
+        {callers.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No customer called back within this window.
+          </Typography>
+        ) : (
+          <List dense disablePadding>
+            {callers.slice(0, VISIBLE_CALLERS).map((caller) => {
+              const content = (
+                <>
+                  <ListItemText
+                    primary={caller.number}
+                    secondary={`${caller.agents.join(', ')} · last ${dayjs(caller.lastCall).tz(store.timeZone).format('DD/MM/YYYY')}`}
+                  />
+                  <Chip label={`${caller.calls} calls`} size="small" sx={{ color: '#ce93d8', border: '1px solid #ce93d840' }} />
+                </>
+              );
+              return onSelectNumber ? (
+                <ListItemButton key={caller.number} onClick={() => onSelectNumber(caller.number)} sx={{ borderRadius: 1, px: 1 }}>
+                  {content}
+                </ListItemButton>
+              ) : (
+                <ListItem key={caller.number} sx={{ px: 1 }}>
+                  {content}
+                </ListItem>
+              );
+            })}
+          </List>
+        )}
+      </CardContent>
+    </Card>
+  );
+});
+
+export default RepeatCallersCard;
@@ -0,0 +1,181 @@
+'use client';
+
+import React, { useState } from 'react';
+import { observer } from 'mobx-react-lite';
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  FormControl,
+  IconButton,
+  InputLabel,
+  ListItemIcon,
+  ListItemText,
+  Menu,
+  MenuItem,
+  OutlinedInput,
+  Select,
+  TextField,
+} from '@mui/material';
+import { BookmarkBorder, Bookmarks, DeleteOutline, Save } from '@mui/icons-material';
+import dayjs from 'dayjs';
+import { useStore } from '../stores/StoreProvider';
+import { RELATIVE_DATE_RANGES, RELATIVE_DATE_RANGE_LABELS, RelativeDateRange } from '../../lib/filters';
+import { MAX_VIEW_NAME_LENGTH, SavedView } from '../../lib/views';
+
+// 'fixed' keeps the selected dates; anything else is stored as a relative range
+type DateRangeMode = 'fixed' | RelativeDateRange;
+
+const formatDate = (date: string) => dayjs(date).format('DD/MM/YYYY');
+
+const describeView = (view: SavedView) => {
+  const { relativeDateRange, dateRange, agents, callTypes } = view.filters;
+  const parts = [
+    relativeDateRange
+      ? RELATIVE_DATE_RANGE_LABELS[relativeDateRange]
+      : dateRange ? `${formatDate(dateRange.start)} - ${formatDate(dateRange.end)}` : 'All dates',
+  ];
+  if (agents.length > 0) parts.push(agents.join(', '));
+  if (callTypes.length > 0) parts.push(callTypes.join(', '));
+  return parts.join(' · ');
+};
+
+const SavedViewsMenu = observer(() => {
+  const store = useStore();
+  const views = store.views;
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [dateRangeMode, setDateRangeMode] = useState<DateRangeMode>('fixed');
+
+  const closeMenu = () => setAnchorEl(null);
+
+  const applyView = (view: SavedView) => {
+    store.applySavedView(view);
+    closeMenu();
+  };
+
+  const openSaveDialog = () => {
+    closeMenu();
+    views.clearError();
+    setName('');
+    setDateRangeMode('fixed');
+    setDialogOpen(true);
+  };
+
+  // Saving under an existing name replaces that view's filters
+  const saveView = async () => {
+    const input = {
+      name: name.trim(),
+      filters: store.getSavedViewFilters(dateRangeMode === 'fixed' ? undefined : dateRangeMode),
+    };
+    const existing = views.views.find((view) => view.name === input.name);
+    const saved = existing ? await views.update(existing.id, input) : await views.create(input);
+    if (saved) {
+      setDialogOpen(false);
+    }
+  };
+
+  const selectedRange = store.filters.dateRange;
+  const canManage = store.auth.can('manageViews');
+
+  return (
+    <>
+      <Button
+        size="small"
+        startIcon={<Bookmarks />}
+        onClick={(event) => setAnchorEl(event.currentTarget)}
+        disabled={store.offline}
+        sx={{ color: '#90caf9' }}
+      >
+        Views
+      </Button>
+      <Menu anchorEl={anchorEl} open={Boolean(anchorEl)} onClose={closeMenu}>
+        {views.views.length === 0 && (
+          <MenuItem disabled>
+            <ListItemText primary="No saved views yet" />
+          </MenuItem>
+        )}
+        {views.views.map((view) => (
+          <MenuItem key={view.id} onClick={() => applyView(view)} sx={{ minWidth: 320 }}>
+            <ListItemIcon>
+              <BookmarkBorder fontSize="small" />
+            </ListItemIcon>
+            <ListItemText primary={view.name} secondary={describeView(view)} />
+            {canManage && (
+              <IconButton
+                size="small"
+                edge="end"
+                aria-label={`Delete ${view.name}`}
+                onClick={(event) => {
+                  event.stopPropagation();
+                  views.remove(view.id);
+                }}
+              >
+                <DeleteOutline fontSize="small" />
+              </IconButton>
+            )}
+          </MenuItem>
+        ))}
+        {canManage && <Divider />}
+        {canManage && (
+          <MenuItem onClick={openSaveDialog}>
+            <ListItemIcon>
+              <Save fontSize="small" />
+            </ListItemIcon>
+            <ListItemText primary="Save current filters..." />
+          </MenuItem>
+        )}
+      </Menu>
+
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>Save view</DialogTitle>
+        <DialogContent>
+          {views.error && (
+            <Alert severity="error" sx={{ mb: 2 }}>{views.error}</Alert>
+          )}
+          <TextField
+            autoFocus
+            label="Name"
+            fullWidth
+            size="small"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            inputProps={{ maxLength: MAX_VIEW_NAME_LENGTH }}
+            helperText={views.views.some((view) => view.name === name.trim()) ? 'Replaces the saved view with this name' : ' '}
+            sx={{ mt: 1 }}
+          />
+          <FormControl fullWidth size="small" sx={{ mt: 1 }}>
+            <InputLabel>Date Range</InputLabel>
+            <Select
+              value={dateRangeMode}
+              onChange={(event) => setDateRangeMode(event.target.value as DateRangeMode)}
+              input={<OutlinedInput label="Date Range" />}
+            >
+              <MenuItem value="fixed">
+                {selectedRange ? `${formatDate(selectedRange.start)} - ${formatDate(selectedRange.end)}` : 'All dates'}
+              </MenuItem>
+              {RELATIVE_DATE_RANGES.map((range) => (
+                <MenuItem key={range} value={range}>
+                  {RELATIVE_DATE_RANGE_LABELS[range]}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)}>Cancel</Button>
+          <Button variant="contained" onClick={saveView} disabled={name.trim() === ''}>
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+});
+
+export default SavedViewsMenu;
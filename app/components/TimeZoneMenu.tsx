@@ -0,0 +1,86 @@
+'use client';
+
+import React, { useState } from 'react';
+import { observer } from 'mobx-react-lite';
+import {
+  Button,
+  Divider,
+  ListItemIcon,
+  ListItemText,
+  ListSubheader,
+  Menu,
+  MenuItem,
+} from '@mui/material';
+import { Check, Public } from '@mui/icons-material';
+import { useStore } from '../stores/StoreProvider';
+import { COMMON_TIME_ZONES } from '../../lib/timezone';
+
+const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// The browser's zone first when it is not one of the common ones
+const zoneOptions = COMMON_TIME_ZONES.indexOf(browserTimeZone) === -1
+  ? [browserTimeZone, ...COMMON_TIME_ZONES]
+  : COMMON_TIME_ZONES;
+
+// Picks the zone dates are shown and filtered in: the user's own, or the organization
+// default, which admins can change for everyone
+const TimeZoneMenu = observer(() => {
+  const store = useStore();
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const userTimeZone = store.auth.user?.timeZone;
+  const organizationTimeZone = store.settings.timeZone;
+
+  const closeMenu = () => setAnchorEl(null);
+
+  const chooseUserTimeZone = async (timeZone?: string) => {
+    closeMenu();
+    if (await store.auth.setTimeZone(timeZone)) {
+      store.applyTimeZone();
+    } else {
+      store.setError(`Failed to change your time zone: ${store.auth.error}`);
+    }
+  };
+
+  const chooseOrganizationTimeZone = async (timeZone: string) => {
+    closeMenu();
+    if (await store.settings.setTimeZone(timeZone)) {
+      store.applyTimeZone();
+    } else {
+      store.setError(store.settings.error || 'Failed to save settings');
+    }
+  };
+
+  const renderOption = (zone: string, selected: boolean, onClick: () => void) => (
+    <MenuItem key={zone} onClick={onClick} dense>
+      <ListItemIcon>{selected && <Check fontSize="small" />}</ListItemIcon>
+      <ListItemText primary={zone} />
+    </MenuItem>
+  );
+
+  return (
+    <>
+      <Button
+        size="small"
+        startIcon={<Public />}
+        onClick={(event) => setAnchorEl(event.currentTarget)}
+        disabled={store.offline}
+        title="Day boundaries, hourly charts and times use this time zone"
+        sx={{ color: '#90caf9', textTransform: 'none' }}
+      >
+        {store.timeZone}
+      </Button>
+      <Menu anchorEl={anchorEl} open={Boolean(anchorEl)} onClose={closeMenu}>
+        <ListSubheader>Your time zone</ListSubheader>
+        {renderOption(`Organization default (${organizationTimeZone})`, !userTimeZone, () => chooseUserTimeZone(undefined))}
+        {zoneOptions.map((zone) => renderOption(zone, zone === userTimeZone, () => chooseUserTimeZone(zone)))}
+        {store.auth.can('manageSettings') && <Divider />}
+        {store.auth.can('manageSettings') && <ListSubheader>Organization default</ListSubheader>}
+        {store.auth.can('manageSettings') && zoneOptions.map((zone) =>
+          renderOption(zone, zone === organizationTimeZone, () => chooseOrganizationTimeZone(zone))
+        )}
+      </Menu>
+    </>
+  );
+});
+
+export default TimeZoneMenu;
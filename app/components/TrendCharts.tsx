@@ -0,0 +1,195 @@
+'use client';
+
+import React from 'react';
+import { observer } from 'mobx-react-lite';
+import {
+  Box,
+  Grid,
+  Paper,
+  Typography,
+  ToggleButton,
+  ToggleButtonGroup,
+  Alert,
+  LinearProgress,
+} from '@mui/material';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip as RechartsTooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceDot,
+} from 'recharts';
+import { ShowChart } from '@mui/icons-material';
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+import timezone from 'dayjs/plugin/timezone';
+import { useStore } from '../stores/StoreProvider';
+import { MetricKey, getMetricDefinition } from '../../lib/metrics';
+import { TimeBucket } from '../../lib/timeseries';
+import { Anomaly } from '../../lib/anomalies';
+import { toZonedDateString } from '../../lib/timezone';
+import { alertSeverityColors } from './AgentHealthBadge';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+interface TrendChart {
+  title: string;
+  unit: string;
+  lines: { metric: MetricKey; color: string }[];
+}
+
+const TREND_CHARTS: TrendChart[] = [
+  {
+    title: 'Success Rate',
+    unit: '%',
+    lines: [{ metric: 'successRate', color: '#66bb6a' }],
+  },
+  {
+    title: 'Cost',
+    unit: '$',
+    lines: [
+      { metric: 'avgCostPerCall', color: '#90caf9' },
+      { metric: 'avgCostPerSuccessfulCall', color: '#ce93d8' },
+    ],
+  },
+  {
+    title: 'Handle Time',
+    unit: 's',
+    lines: [{ metric: 'avgHandleTime', color: '#ffa726' }],
+  },
+  {
+    title: 'Latency',
+    unit: 'ms',
+    lines: [
+      { metric: 'avgLLMLatency', color: '#29b6f6' },
+      { metric: 'avgTTSLatency', color: '#90caf9' },
+      { metric: 'avgTotalLatency', color: '#ce93d8' },
+    ],
+  },
+];
+
+// Buckets are aligned to the dashboard's time zone, so label them in that zone too
+const formatBucket = (start: number, bucket: TimeBucket, timeZone: string) => {
+  switch (bucket) {
+    case 'hour': return dayjs(start).tz(timeZone).format('DD/MM HH:00');
+    case 'day': return dayjs(start).tz(timeZone).format('DD/MM');
+    case 'week': return `Wk ${dayjs(start).tz(timeZone).format('DD/MM')}`;
+  }
+};
+
+const TrendCharts = observer(() => {
+  const store = useStore();
+  const trends = store.trends;
+  const data = trends.chartData;
+
+  // Anomalies in the KPIs of all filtered calls, only meaningful on the daily view
+  const anomaliesAt = (start: number, metrics: MetricKey[]): Anomaly[] => {
+    if (trends.bucket !== 'day') return [];
+    return store.anomalies
+      .overallOn(toZonedDateString(start, store.timeZone))
+      .filter((anomaly) => metrics.indexOf(anomaly.metric) !== -1);
+  };
+
+  const CustomTooltip = ({ active, payload, label }: any) => {
+    if (active && payload && payload.length) {
+      const anomalies = anomaliesAt(label, payload.map((entry: any) => entry.dataKey));
+      return (
+        <Paper sx={{ p: 2, bgcolor: 'background.paper', border: '1px solid #ccc' }}>
+          <Typography variant="body2" fontWeight="bold">{formatBucket(label, trends.bucket, store.timeZone)}</Typography>
+          {payload.map((entry: any, index: number) => (
+            <Typography key={index} variant="body2" sx={{ color: entry.color }}>
+              {`${entry.name}: ${typeof entry.value === 'number' ? entry.value.toFixed(2) : entry.value}`}
+            </Typography>
+          ))}
+          <Typography variant="caption" color="text.secondary">
+            {payload[0].payload.totalCalls} calls
+          </Typography>
+          {anomalies.map((anomaly) => (
+            <Typography key={anomaly.id} variant="body2" sx={{ color: alertSeverityColors[anomaly.severity] }}>
+              {anomaly.message}
+            </Typography>
+          ))}
+        </Paper>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <Box>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
+        <Box display="flex" alignItems="center">
+          <ShowChart sx={{ mr: 1, color: '#90caf9' }} />
+          <Typography variant="h5" fontWeight="bold">
+            Trends
+          </Typography>
+        </Box>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={trends.bucket}
+          onChange={(_, value: TimeBucket | null) => value && trends.setBucket(value)}
+        >
+          <ToggleButton value="hour">Hourly</ToggleButton>
+          <ToggleButton value="day">Daily</ToggleButton>
+          <ToggleButton value="week">Weekly</ToggleButton>
+        </ToggleButtonGroup>
+      </Box>
+
+      {trends.loading && <LinearProgress sx={{ mb: 2, borderRadius: 1 }} />}
+      {trends.error && (
+        <Alert severity="error" sx={{ mb: 2, borderRadius: 2 }}>{trends.error}</Alert>
+      )}
+
+      <Grid container spacing={3}>
+        {TREND_CHARTS.map((chart) => (
+          <Grid item xs={12} md={6} key={chart.title}>
+            <Paper sx={{ p: 3, height: 340 }}>
+              <Typography variant="h6" gutterBottom>
+                {chart.title} ({chart.unit})
+              </Typography>
+              <ResponsiveContainer width="100%" height="85%">
+                <LineChart data={data}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="start" tickFormatter={(value) => formatBucket(value, trends.bucket, store.timeZone)} minTickGap={20} />
+                  <YAxis />
+                  <RechartsTooltip content={<CustomTooltip />} />
+                  {chart.lines.length > 1 && <Legend />}
+                  {chart.lines.map((line) => (
+                    <Line
+                      key={line.metric}
+                      type="monotone"
+                      dataKey={line.metric}
+                      name={getMetricDefinition(line.metric).label}
+                      stroke={line.color}
+                      strokeWidth={2}
+                      dot={data.length <= 40}
+                    />
+                  ))}
+                  {data.map((point) => anomaliesAt(point.start, chart.lines.map((line) => line.metric)).map((anomaly) => (
+                    <ReferenceDot
+                      key={anomaly.id}
+                      x={point.start}
+                      y={anomaly.value}
+                      r={6}
+                      fill="none"
+                      stroke={alertSeverityColors[anomaly.severity]}
+                      strokeWidth={2}
+                    />
+                  )))}
+                </LineChart>
+              </ResponsiveContainer>
+            </Paper>
+          </Grid>
+        ))}
+      </Grid>
+    </Box>
+  );
+});
+
+export default TrendCharts;
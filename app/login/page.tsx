@@ -0,0 +1,92 @@
+'use client';
+
+import React, { useState } from 'react';
+import { observer } from 'mobx-react-lite';
+import { useRouter } from 'next/navigation';
+import {
+  Container,
+  Paper,
+  Box,
+  Typography,
+  TextField,
+  Button,
+  Alert,
+} from '@mui/material';
+import { Dashboard as DashboardIcon } from '@mui/icons-material';
+import { useStore } from '../stores/StoreProvider';
+
+const LoginPage = observer(() => {
+  const store = useStore();
+  const router = useRouter();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const signIn = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSubmitting(true);
+    const signedIn = await store.auth.login(username.trim(), password);
+    setSubmitting(false);
+    if (signedIn) {
+      router.replace('/');
+    }
+  };
+
+  return (
+    <Container maxWidth="xs" sx={{ py: 12 }}>
+      <Paper sx={{ p: 4, borderRadius: 2, boxShadow: '0 2px 12px rgba(0,0,0,0.3)' }}>
+        <Box display="flex" alignItems="center" mb={3}>
+          <Box sx={{
+            background: 'linear-gradient(135deg, #90caf9 0%, #ce93d8 100%)',
+            borderRadius: '50%',
+            p: 1,
+            mr: 2,
+          }}>
+            <DashboardIcon sx={{ fontSize: 28, color: 'white' }} />
+          </Box>
+          <Typography variant="h5" fontWeight="bold">
+            Sign in to Hooman Labs
+          </Typography>
+        </Box>
+
+        {store.auth.error && (
+          <Alert severity="error" sx={{ mb: 2 }}>{store.auth.error}</Alert>
+        )}
+
+        <form onSubmit={signIn}>
+          <TextField
+            label="Username"
+            value={username}
+            onChange={(event) => setUsername(event.target.value)}
+            autoComplete="username"
+            autoFocus
+            fullWidth
+            required
+            margin="normal"
+          />
+          <TextField
+            label="Password"
+            type="password"
+            value={password}
+            onChange={(event) => setPassword(event.target.value)}
+            autoComplete="current-password"
+            fullWidth
+            required
+            margin="normal"
+          />
+          <Button
+            type="submit"
+            variant="contained"
+            fullWidth
+            disabled={submitting || username.trim() === '' || password === ''}
+            sx={{ mt: 2 }}
+          >
+            Sign in
+          </Button>
+        </form>
+      </Paper>
+    </Container>
+  );
+});
+
+export default LoginPage;
@@ -2,6 +2,9 @@
 
 import React, { useEffect, useCallback } from 'react';
 import { observer } from 'mobx-react-lite';
+import { reaction } from 'mobx';
+import { useRouter } from 'next/navigation';
+import dayjs from 'dayjs';
 import {
   Container,
   Typography,
@@ -16,6 +19,7 @@ import {
   CircularProgress,
   Alert,
   LinearProgress,
+  Tooltip,
 } from '@mui/material';
 import {
   Dashboard as DashboardIcon,
@@ -38,28 +42,91 @@ import {
   MonetizationOn,
   Assessment,
   Analytics,
-  SignalCellularAlt
+  SignalCellularAlt,
+  ArrowUpward,
+  ArrowDownward,
+  Remove,
+  FiberManualRecord,
+  Logout,
+  AccountCircle,
 } from '@mui/icons-material';
 import FilterPanel from './components/FilterPanel';
 import AgentChartsModal from './components/AgentChartsModal';
+import ConversationExplorer from './components/ConversationExplorer';
+import TrendCharts from './components/TrendCharts';
+import CallHeatmap from './components/CallHeatmap';
+import AgentAlertsBanner from './components/AgentAlertsBanner';
+import AnomaliesBanner from './components/AnomaliesBanner';
+import RepeatCallersCard from './components/RepeatCallersCard';
+import TimeZoneMenu from './components/TimeZoneMenu';
 import { useStore } from './stores/StoreProvider';
+import { DrillDownRequest } from './stores/ExplorerStore';
+import { DurationThresholds, NumericFilterField, NumericRange, TimeOfDayWindow } from '../lib/filters';
+import { CallStatus } from '../lib/types';
+import {
+  MetricKey,
+  Metrics,
+  LatencySource,
+  LATENCY_PERCENTILES,
+  getMetricDefinition,
+  getLatencyPercentileKey,
+  calculateMetricDelta,
+} from '../lib/metrics';
+import { LiveStatus } from '../lib/stream';
+import { ROLE_LABELS } from '../lib/auth';
+
+const liveStatusLabels: Record<LiveStatus, string> = {
+  connecting: 'Connecting',
+  live: 'Live',
+  disconnected: 'Disconnected',
+};
+
+const liveStatusColors: Record<LiveStatus, string> = {
+  connecting: '#ffa726',
+  live: '#66bb6a',
+  disconnected: '#9e9e9e',
+};
 
 interface Filters {
   dateRange?: { start: string; end: string };
   agents?: string[];
   callTypes?: string[];
-  timeRanges?: string[];
+  durationBuckets?: string[];
 }
 
 const Dashboard = observer(() => {
   const store = useStore();
-  const [agentModalOpen, setAgentModalOpen] = React.useState(false);
+  const router = useRouter();
 
-  // Load conversations on mount
+  // Load filter options and server-side aggregates on mount, starting from the view in the link
   useEffect(() => {
-    store.loadConversations();
+    store.initialize(window.location.search);
+  }, [store]);
+
+  // Without a session (or once it expires) the dashboard is replaced by the login page
+  useEffect(() => reaction(
+    () => store.auth.status,
+    (status) => {
+      if (status === 'anonymous') {
+        store.disconnectLive();
+        router.replace('/login');
+      }
+    },
+    { fireImmediately: true }
+  ), [store, router]);
+
+  const logout = useCallback(() => {
+    store.auth.logout();
   }, [store]);
 
+  // Mirror filters and the open chart tab into the address bar so the page can be shared or reloaded
+  useEffect(() => reaction(
+    () => store.shareableQuery,
+    (query) => {
+      window.history.replaceState(null, '', query ? `?${query}` : window.location.pathname);
+    }
+  ), [store]);
+
   const handleFiltersChange = useCallback((newFilters: Filters) => {
     // Update store filters based on new filters
     if (newFilters.dateRange) {
@@ -76,8 +143,8 @@ const Dashboard = observer(() => {
       store.setCallTypes(newFilters.callTypes);
     }
     
-    if (newFilters.timeRanges) {
-      store.setTimeRanges(newFilters.timeRanges);
+    if (newFilters.durationBuckets) {
+      store.setDurationBuckets(newFilters.durationBuckets);
     }
   }, [store]);
 
@@ -89,10 +156,48 @@ const Dashboard = observer(() => {
     store.setCallTypes(callTypes);
   }, [store]);
 
-  const handleTimeRangesChange = useCallback((timeRanges: string[]) => {
-    store.setTimeRanges(timeRanges);
+  const handleDurationBucketsChange = useCallback((durationBuckets: string[]) => {
+    store.setDurationBuckets(durationBuckets);
+  }, [store]);
+
+  const handleDurationThresholdsChange = useCallback((thresholds: DurationThresholds) => {
+    store.setDurationThresholds(thresholds);
+  }, [store]);
+
+  const handleTimeOfDayChange = useCallback((window?: TimeOfDayWindow) => {
+    store.setTimeOfDay(window);
+  }, [store]);
+
+  const handleStatusesChange = useCallback((statuses: CallStatus[]) => {
+    store.setStatuses(statuses);
+  }, [store]);
+
+  const handleQueryChange = useCallback((query: string) => {
+    store.setQuery(query);
   }, [store]);
 
+  const handleNumericRangeChange = useCallback((field: NumericFilterField, range?: NumericRange) => {
+    store.setNumericRange(field, range);
+  }, [store]);
+
+  // Show the conversations behind a KPI card or chart element in the explorer
+  const handleDrillDown = useCallback((drillDown: DrillDownRequest) => {
+    store.drillDown(drillDown);
+    document.getElementById('conversation-explorer')?.scrollIntoView({ behavior: 'smooth' });
+  }, [store]);
+
+  // Show every call with a customer number in the explorer
+  const searchNumber = useCallback((number: string) => {
+    store.drillDown(undefined);
+    store.explorer.setSearch(number);
+    document.getElementById('conversation-explorer')?.scrollIntoView({ behavior: 'smooth' });
+  }, [store]);
+
+  const drillIntoMetric = (key: MetricKey) => {
+    const definition = getMetricDefinition(key);
+    handleDrillDown({ label: definition.label, statuses: definition.statuses });
+  };
+
   const formatCurrency = (value: number) => `$${value.toFixed(2)}`;
   const formatPercentage = (value: number) => `${value.toFixed(1)}%`;
   const formatTime = (seconds: number) => {
@@ -109,6 +214,8 @@ const Dashboard = observer(() => {
     format = 'number',
     showProgress = false,
     progressValue,
+    metricKey,
+    onClick,
     children,
   }: {
     title: string;
@@ -118,6 +225,9 @@ const Dashboard = observer(() => {
     format?: 'number' | 'currency' | 'percentage' | 'time' | 'ms' | 'custom' | 'integer';
     showProgress?: boolean;
     progressValue?: number;
+    // Registered metric shown by the card; enables the period-over-period delta
+    metricKey?: MetricKey;
+    onClick?: () => void;
     children?: React.ReactNode;
   }) => {
     const formatValue = (val: number | string) => {
@@ -140,6 +250,34 @@ const Dashboard = observer(() => {
       }
     };
 
+    // Change against the previous equivalent period, colored by whether it is an improvement
+    const renderDelta = () => {
+      const previous = metricKey && store.comparisonMetrics ? store.comparisonMetrics[metricKey] : undefined;
+      if (!metricKey || previous === undefined || typeof value !== 'number') return null;
+
+      const definition = getMetricDefinition(metricKey);
+      const delta = calculateMetricDelta(metricKey, value, previous);
+      const direction = Math.sign(delta.absolute);
+      const improved = definition.higherIsBetter === undefined ? undefined : (direction > 0) === definition.higherIsBetter;
+      const deltaColor = direction === 0 || improved === undefined ? 'text.secondary' : improved ? '#66bb6a' : '#f44336';
+      const DeltaIcon = direction > 0 ? ArrowUpward : direction < 0 ? ArrowDownward : Remove;
+      const sign = delta.absolute > 0 ? '+' : '';
+      const label = format === 'percentage'
+        ? `${sign}${delta.absolute.toFixed(1)} pts`
+        : delta.relative !== undefined ? `${sign}${delta.relative.toFixed(1)}%` : `${sign}${delta.absolute}`;
+
+      return (
+        <Tooltip title={`Previous period: ${formatValue(previous)}`}>
+          <Box display="flex" alignItems="center" sx={{ color: deltaColor }}>
+            <DeltaIcon sx={{ fontSize: 16, mr: 0.5 }} />
+            <Typography variant="body2" sx={{ color: deltaColor }}>
+              {label} vs previous period
+            </Typography>
+          </Box>
+        </Tooltip>
+      );
+    };
+
     const getProgressColor = () => {
       if (format === 'percentage') {
         if (typeof value === 'number') {
@@ -167,8 +305,10 @@ const Dashboard = observer(() => {
 
     return (
       <Card 
+        onClick={onClick}
         sx={{ 
           height: '100%',
+          cursor: onClick ? 'pointer' : 'default',
           background: `linear-gradient(135deg, ${cardColors.bg} 0%, rgba(30, 30, 30, 0.8) 100%)`,
           border: `1px solid ${cardColors.border}`,
           borderRadius: 2,
@@ -202,6 +342,8 @@ const Dashboard = observer(() => {
           <Typography variant="h6" color="text.secondary" gutterBottom>
             {title}
           </Typography>
+
+          {renderDelta()}
           
           {showProgress && typeof progressValue === 'number' && (
             <Box mt={2}>
@@ -255,7 +397,7 @@ const Dashboard = observer(() => {
         
         <Grid container spacing={2}>
           <Grid item xs={6}>
-            <Box textAlign="center">
+            <Box textAlign="center" onClick={() => drillIntoMetric('successRate')} sx={{ cursor: 'pointer' }}>
               <Box display="flex" alignItems="center" justifyContent="center" mb={1}>
                 <CheckCircle sx={{ color: '#66bb6a', mr: 1, fontSize: 20 }} />
                 <Typography variant="body2" color="text.secondary">Success</Typography>
@@ -267,7 +409,7 @@ const Dashboard = observer(() => {
           </Grid>
           
           <Grid item xs={6}>
-            <Box textAlign="center">
+            <Box textAlign="center" onClick={() => drillIntoMetric('failureRate')} sx={{ cursor: 'pointer' }}>
               <Box display="flex" alignItems="center" justifyContent="center" mb={1}>
                 <Error sx={{ color: '#f44336', mr: 1, fontSize: 20 }} />
                 <Typography variant="body2" color="text.secondary">Failure</Typography>
@@ -279,7 +421,7 @@ const Dashboard = observer(() => {
           </Grid>
           
           <Grid item xs={6}>
-            <Box textAlign="center">
+            <Box textAlign="center" onClick={() => drillIntoMetric('transferRate')} sx={{ cursor: 'pointer' }}>
               <Box display="flex" alignItems="center" justifyContent="center" mb={1}>
                 <SwapHoriz sx={{ color: '#ffa726', mr: 1, fontSize: 20 }} />
                 <Typography variant="body2" color="text.secondary">Transfer</Typography>
@@ -291,7 +433,7 @@ const Dashboard = observer(() => {
           </Grid>
           
           <Grid item xs={6}>
-            <Box textAlign="center">
+            <Box textAlign="center" onClick={() => drillIntoMetric('abandonmentRate')} sx={{ cursor: 'pointer' }}>
               <Box display="flex" alignItems="center" justifyContent="center" mb={1}>
                 <Cancel sx={{ color: '#ce93d8', mr: 1, fontSize: 20 }} />
                 <Typography variant="body2" color="text.secondary">Abandon</Typography>
@@ -306,7 +448,18 @@ const Dashboard = observer(() => {
     </Card>
   );
 
-  const LatencyMetricsCard = ({ metrics }: { metrics: any }) => (
+  // Tail latencies under each average, since averages hide slow calls
+  const LatencyPercentiles = ({ metrics, source }: { metrics: Metrics; source: LatencySource }) => (
+    <Box display="flex" justifyContent="space-between" pl={3}>
+      {LATENCY_PERCENTILES.map((p) => (
+        <Typography key={p} variant="caption" color="text.secondary">
+          p{p} <Box component="span" fontWeight="bold" color="text.primary">{metrics[getLatencyPercentileKey(source, p)].toFixed(0)}ms</Box>
+        </Typography>
+      ))}
+    </Box>
+  );
+
+  const LatencyMetricsCard = ({ metrics }: { metrics: Metrics }) => (
     <Card sx={{ 
       height: '100%',
       background: 'linear-gradient(135deg, rgba(41, 182, 246, 0.1) 0%, rgba(30, 30, 30, 0.8) 100%)',
@@ -343,6 +496,7 @@ const Dashboard = observer(() => {
                 {metrics.avgLLMLatency.toFixed(0)}ms
               </Typography>
             </Box>
+            <LatencyPercentiles metrics={metrics} source="llm" />
           </Grid>
           
           <Grid item xs={12}>
@@ -355,6 +509,7 @@ const Dashboard = observer(() => {
                 {metrics.avgTTSLatency.toFixed(0)}ms
               </Typography>
             </Box>
+            <LatencyPercentiles metrics={metrics} source="tts" />
           </Grid>
           
           <Grid item xs={12}>
@@ -368,14 +523,15 @@ const Dashboard = observer(() => {
                 {metrics.avgTotalLatency.toFixed(0)}ms
               </Typography>
             </Box>
+            <LatencyPercentiles metrics={metrics} source="total" />
           </Grid>
         </Grid>
       </CardContent>
     </Card>
   );
 
-  // Loading state
-  if (store.loading) {
+  // Loading state, also shown while redirecting to the login page
+  if (store.loading || store.auth.status === 'anonymous') {
     return (
       <Container maxWidth="lg" sx={{ py: 4 }}>
         <Box display="flex" justifyContent="center" alignItems="center" minHeight="50vh">
@@ -385,8 +541,8 @@ const Dashboard = observer(() => {
     );
   }
 
-  // Error state
-  if (store.error) {
+  // Error state; once the dashboard has loaded, errors are shown above it instead
+  if (store.error && !store.hasData) {
     return (
       <Container maxWidth="lg" sx={{ py: 4 }}>
         <Alert severity="error" sx={{ borderRadius: 2 }}>{store.error}</Alert>
@@ -395,7 +551,7 @@ const Dashboard = observer(() => {
   }
 
   // No data state
-  if (store.conversations.length === 0) {
+  if (!store.hasData) {
     return (
       <Container maxWidth="lg" sx={{ py: 4 }}>
         <Alert severity="warning" sx={{ borderRadius: 2 }}>No data available</Alert>
@@ -413,7 +569,7 @@ const Dashboard = observer(() => {
     } : undefined,
     agents: store.filters.agents.slice(),
     callTypes: store.filters.callTypes.slice(),
-    timeRanges: store.filters.timeRanges.slice(),
+    durationBuckets: store.filters.durationBuckets.slice(),
   };
 
   return (
@@ -445,45 +601,108 @@ const Dashboard = observer(() => {
               Real-time performance insights and metrics
             </Typography>
           </Box>
+          <Box ml="auto" display="flex" alignItems="center" gap={1}>
+            {store.auth.user && (
+              <Chip
+                icon={<AccountCircle />}
+                label={`${store.auth.user.name} · ${ROLE_LABELS[store.auth.user.role]}`}
+                size="small"
+              />
+            )}
+            <Chip
+              icon={<FiberManualRecord sx={{ fontSize: 12 }} />}
+              label={liveStatusLabels[store.liveStatus]}
+              size="small"
+              title="New calls are pushed to the dashboard while live"
+              sx={{
+                color: liveStatusColors[store.liveStatus],
+                border: `1px solid ${liveStatusColors[store.liveStatus]}40`,
+                backgroundColor: `${liveStatusColors[store.liveStatus]}20`,
+                '& .MuiChip-icon': { color: liveStatusColors[store.liveStatus] },
+              }}
+            />
+            {store.auth.user && <TimeZoneMenu />}
+            {store.auth.user && (
+              <Button size="small" startIcon={<Logout />} onClick={logout} sx={{ color: '#90caf9' }}>
+                Logout
+              </Button>
+            )}
+          </Box>
         </Box>
       </Box>
 
+      {store.offline && (
+        <Alert severity="warning" sx={{ mb: 3, borderRadius: 2 }}>
+          The analytics API is unreachable. Metrics are being computed in the browser from the last downloaded conversations.
+        </Alert>
+      )}
+
+      {store.error && (
+        <Alert severity="error" onClose={() => store.clearError()} sx={{ mb: 3, borderRadius: 2 }}>
+          {store.error}
+        </Alert>
+      )}
+
+      <AgentAlertsBanner onDrillDown={handleDrillDown} />
+      <AnomaliesBanner onDrillDown={handleDrillDown} />
+
       {/* Filters */}
       <Paper sx={{ p: 3, mb: 4, borderRadius: 2, boxShadow: '0 2px 12px rgba(0,0,0,0.3)' }}>
         <FilterPanel 
           onFiltersChange={handleFiltersChange}
           selectedAgents={store.filters.agents.slice()}
           selectedCallTypes={store.filters.callTypes.slice()}
-          selectedTimeRanges={store.filters.timeRanges.slice()}
+          selectedDurationBuckets={store.filters.durationBuckets.slice()}
+          durationThresholds={{ ...store.filters.durationThresholds }}
+          timeOfDay={store.filters.timeOfDay ? { ...store.filters.timeOfDay } : undefined}
+          selectedStatuses={store.filters.statuses.slice()}
+          numericRanges={store.numericRanges}
+          query={store.filters.query}
           onAgentsChange={handleAgentsChange}
           onCallTypesChange={handleCallTypesChange}
-          onTimeRangesChange={handleTimeRangesChange}
+          onDurationBucketsChange={handleDurationBucketsChange}
+          onDurationThresholdsChange={handleDurationThresholdsChange}
+          onTimeOfDayChange={handleTimeOfDayChange}
+          onStatusesChange={handleStatusesChange}
+          onNumericRangeChange={handleNumericRangeChange}
+          onQueryChange={handleQueryChange}
           currentFilters={currentFilters}
         />
       </Paper>
 
+      {store.refreshing && <LinearProgress sx={{ mb: 2, borderRadius: 1 }} />}
+
       {/* Summary Cards */}
       <Box mb={4}>
         <Typography variant="h5" gutterBottom fontWeight="bold">
           Overview
         </Typography>
+        {store.comparisonPeriod && (
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Changes are compared with {dayjs(store.comparisonPeriod.start).format('DD/MM/YYYY')} - {dayjs(store.comparisonPeriod.end).format('DD/MM/YYYY')}
+          </Typography>
+        )}
         <Grid container spacing={3}>
           <Grid item xs={12} sm={6}>
             <MetricCard
               title="Total Calls"
+              metricKey="totalCalls"
               value={metrics.totalCalls}
               icon={<Phone />}
               color="primary"
               format="integer"
+              onClick={() => handleDrillDown({ label: 'All calls' })}
             />
           </Grid>
           <Grid item xs={12} sm={6}>
             <MetricCard
               title="Total Cost"
+              metricKey="totalCost"
               value={metrics.totalCost}
               icon={<AttachMoney />}
               format="currency"
               color="secondary"
+              onClick={() => handleDrillDown({ label: 'All calls' })}
             />
           </Grid>
         </Grid>
@@ -500,7 +719,7 @@ const Dashboard = observer(() => {
           <Button
             variant="contained"
             startIcon={<People />}
-            onClick={() => setAgentModalOpen(true)}
+            onClick={() => store.setAgentChartsTab('overview')}
             sx={{ 
               px: 3,
               background: 'linear-gradient(135deg, #90caf9 0%, #ce93d8 100%)',
@@ -519,28 +738,34 @@ const Dashboard = observer(() => {
           <Grid item xs={12} sm={6} md={4}>
             <MetricCard
               title="Avg Cost per Call"
+              metricKey="avgCostPerCall"
               value={metrics.avgCostPerCall}
               icon={<AttachMoney />}
               format="currency"
               color="primary"
+              onClick={() => drillIntoMetric('avgCostPerCall')}
             />
           </Grid>
           <Grid item xs={12} sm={6} md={4}>
             <MetricCard
               title="Avg Cost per Minute"
+              metricKey="avgCostPerMin"
               value={metrics.avgCostPerMin}
               icon={<Timer />}
               format="currency"
               color="primary"
+              onClick={() => drillIntoMetric('avgCostPerMin')}
             />
           </Grid>
           <Grid item xs={12} sm={6} md={4}>
             <MetricCard
               title="Avg Cost per Successful Call"
+              metricKey="avgCostPerSuccessfulCall"
               value={metrics.avgCostPerSuccessfulCall}
               icon={<MonetizationOn />}
               format="currency"
               color="success"
+              onClick={() => drillIntoMetric('avgCostPerSuccessfulCall')}
             />
           </Grid>
 
@@ -558,20 +783,24 @@ const Dashboard = observer(() => {
           <Grid item xs={12} sm={6} md={4}>
             <MetricCard
               title="First Call Resolution Rate"
+              metricKey="firstCallResolutionRate"
               value={metrics.firstCallResolutionRate}
               icon={<TrendingUp />}
               format="percentage"
               color="success"
               showProgress={true}
               progressValue={metrics.firstCallResolutionRate}
+              onClick={() => drillIntoMetric('firstCallResolutionRate')}
             />
           </Grid>
           <Grid item xs={12} sm={6} md={4}>
             <MetricCard
               title="Avg Interruptions per Call"
+              metricKey="avgInterruptions"
               value={metrics.avgInterruptions}
               icon={<Mic />}
               color="warning"
+              onClick={() => drillIntoMetric('avgInterruptions')}
             />
           </Grid>
 
@@ -579,20 +808,55 @@ const Dashboard = observer(() => {
           <Grid item xs={12} sm={6} md={4}>
             <MetricCard
               title="Avg Handle Time"
+              metricKey="avgHandleTime"
               value={metrics.avgHandleTime}
               icon={<AccessTime />}
               format="time"
               color="primary"
+              onClick={() => drillIntoMetric('avgHandleTime')}
             />
           </Grid>
+
+          {/* Repeat Contacts */}
+          <Grid item xs={12} sm={6} md={4}>
+            {/* Masked numbers can't be searched, so viewers get a plain list */}
+            <RepeatCallersCard onSelectNumber={store.auth.can('viewPhoneNumbers') ? searchNumber : undefined} />
+          </Grid>
         </Grid>
       </Box>
 
+      <Divider sx={{ my: 4 }} />
+
+      {/* Trends */}
+      <Box mb={4}>
+        <TrendCharts />
+      </Box>
+
+      <Divider sx={{ my: 4 }} />
+
+      {/* Weekday × Hour Heatmap */}
+      <Box mb={4}>
+        <CallHeatmap />
+      </Box>
+
+      <Divider sx={{ my: 4 }} />
+
+      {/* Conversation Explorer */}
+      <Box mb={4}>
+        <ConversationExplorer />
+      </Box>
+
       {/* Agent Metrics Modal */}
       <AgentChartsModal
-        open={agentModalOpen}
-        onClose={() => setAgentModalOpen(false)}
+        open={store.agentChartsTab !== undefined}
+        tab={store.agentChartsTab || 'overview'}
+        onTabChange={(tab) => store.setAgentChartsTab(tab)}
+        onClose={() => store.setAgentChartsTab(undefined)}
         filters={currentFilters}
+        onDrillDown={(drillDown) => {
+          store.setAgentChartsTab(undefined);
+          handleDrillDown(drillDown);
+        }}
       />
     </Container>
   );
@@ -0,0 +1,79 @@
+import { types, flow, Instance } from 'mobx-state-tree';
+import axios from 'axios';
+import { AgentAlert, AlertRule, DEFAULT_ALERT_RULES, evaluateAlertRules } from '../../lib/alerts';
+import { API_BASE_URL, getDashboard } from './storeUtils';
+
+export const AlertsStore = types
+  .model('AlertsStore', {
+    rules: types.optional(types.frozen<AlertRule[]>(), DEFAULT_ALERT_RULES),
+    alerts: types.optional(types.frozen<AgentAlert[]>(), []),
+    loading: types.optional(types.boolean, false),
+    error: types.maybe(types.string),
+  })
+  .volatile(() => ({
+    request: null as AbortController | null,
+  }))
+  .actions((self) => ({
+    // Evaluate the health rules for the current filters, cancelling any request still in flight
+    load: flow(function* () {
+      self.request?.abort();
+      const controller = new AbortController();
+      self.request = controller;
+      const dashboard = getDashboard(self);
+
+      try {
+        self.loading = true;
+        self.error = undefined;
+
+        if (dashboard.offline) {
+          // Keep using the last rules the server sent
+          self.alerts = evaluateAlertRules(
+            dashboard.filteredConversations,
+            self.rules,
+            dashboard.repeatContactIndex
+          );
+          return;
+        }
+
+        const response = yield axios.get(`${API_BASE_URL}/alerts`, {
+          params: dashboard.filterParams,
+          signal: controller.signal,
+        });
+        self.rules = response.data.rules;
+        self.alerts = response.data.alerts;
+      } catch (error) {
+        if (axios.isCancel(error)) return;
+        self.error = `Failed to load alerts: ${(error as Error).message}`;
+      } finally {
+        if (self.request === controller) {
+          self.request = null;
+          self.loading = false;
+        }
+      }
+    }),
+  }))
+  .views((self) => ({
+    // Agents with at least one breached rule, in alphabetical order
+    get flaggedAgents(): string[] {
+      const agents: string[] = [];
+      self.alerts.forEach(alert => {
+        if (agents.indexOf(alert.agent) === -1) {
+          agents.push(alert.agent);
+        }
+      });
+      return agents.sort();
+    },
+
+    alertsForAgent(agent: string): AgentAlert[] {
+      return self.alerts.filter(alert => alert.agent === agent);
+    },
+
+    // Most severe level among the agent's alerts, for badge colours
+    severityForAgent(agent: string) {
+      const alerts = self.alerts.filter(alert => alert.agent === agent);
+      if (alerts.length === 0) return undefined;
+      return alerts.some(alert => alert.severity === 'critical') ? 'critical' : 'warning';
+    },
+  }));
+
+export type IAlertsStore = Instance<typeof AlertsStore>;
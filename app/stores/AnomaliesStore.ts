@@ -0,0 +1,79 @@
+import { types, flow, Instance } from 'mobx-state-tree';
+import axios from 'axios';
+import { ConversationRecord } from '../../lib/types';
+import { calculateTimeSeries } from '../../lib/timeseries';
+import { Anomaly, AnomalyOptions, DEFAULT_ANOMALY_OPTIONS, detectAnomalies } from '../../lib/anomalies';
+import { API_BASE_URL, getDashboard } from './storeUtils';
+
+const distinct = (values: string[]) => values.filter((value, index) => values.indexOf(value) === index).sort();
+
+export const AnomaliesStore = types
+  .model('AnomaliesStore', {
+    options: types.optional(types.frozen<AnomalyOptions>(), DEFAULT_ANOMALY_OPTIONS),
+    anomalies: types.optional(types.frozen<Anomaly[]>(), []),
+    loading: types.optional(types.boolean, false),
+    error: types.maybe(types.string),
+  })
+  .volatile(() => ({
+    request: null as AbortController | null,
+  }))
+  .actions((self) => ({
+    // Detect anomalies for the current filters, cancelling any request still in flight
+    load: flow(function* () {
+      self.request?.abort();
+      const controller = new AbortController();
+      self.request = controller;
+      const dashboard = getDashboard(self);
+
+      try {
+        self.loading = true;
+        self.error = undefined;
+
+        if (dashboard.offline) {
+          // Only the filtered calls are at hand, so the first days of the range have no baseline
+          const conversations = dashboard.filteredConversations;
+          const source = ({ agent, callType }: { agent?: string; callType?: string }) => calculateTimeSeries(
+            conversations.filter((call: ConversationRecord) =>
+              (!agent || call.agent === agent) && (!callType || call.callInfo.type === callType)),
+            'day',
+            dashboard.repeatContactIndex,
+            dashboard.timeZone
+          );
+          self.anomalies = detectAnomalies(source, {
+            agents: distinct(conversations.map(call => call.agent)),
+            callTypes: distinct(conversations.map(call => call.callInfo.type)),
+            timeZone: dashboard.timeZone,
+          }, self.options);
+          return;
+        }
+
+        const response = yield axios.get(`${API_BASE_URL}/anomalies`, {
+          params: dashboard.filterParams,
+          signal: controller.signal,
+        });
+        self.options = response.data.options;
+        self.anomalies = response.data.anomalies;
+      } catch (error) {
+        if (axios.isCancel(error)) return;
+        self.error = `Failed to detect anomalies: ${(error as Error).message}`;
+      } finally {
+        if (self.request === controller) {
+          self.request = null;
+          self.loading = false;
+        }
+      }
+    }),
+  }))
+  .views((self) => ({
+    // Changes for the worse, and volume swings, which have no better direction
+    get concerning(): Anomaly[] {
+      return self.anomalies.filter(anomaly => anomaly.regression !== false);
+    },
+
+    // Anomalies in the KPIs of all filtered calls on a day, for marking trend charts
+    overallOn(date: string): Anomaly[] {
+      return self.anomalies.filter(anomaly => anomaly.date === date && anomaly.agent === undefined);
+    },
+  }));
+
+export type IAnomaliesStore = Instance<typeof AnomaliesStore>;
@@ -0,0 +1,113 @@
+import { types, flow, Instance } from 'mobx-state-tree';
+import axios from 'axios';
+import { AuthUser, Permission, getAllowedAgents, hasPermission } from '../../lib/auth';
+import { API_BASE_URL, isUnauthorized } from './storeUtils';
+
+// 'unknown' until /api/auth/me has answered
+export type AuthStatus = 'unknown' | 'authenticated' | 'anonymous';
+
+export const AUTH_STATUSES: AuthStatus[] = ['unknown', 'authenticated', 'anonymous'];
+
+const errorMessage = (error: unknown) =>
+  (axios.isAxiosError(error) && error.response?.data?.error) || (error as Error).message;
+
+// The signed-in user. Any 401 from the API ends the session, so the dashboard falls back to the login page.
+export const AuthStore = types
+  .model('AuthStore', {
+    user: types.maybe(types.frozen<AuthUser>()),
+    status: types.optional(types.enumeration<AuthStatus>('AuthStatus', AUTH_STATUSES), 'unknown'),
+    error: types.maybe(types.string),
+  })
+  .volatile(() => ({
+    interceptor: null as number | null,
+  }))
+  .views((self) => ({
+    can(permission: Permission): boolean {
+      return self.user !== undefined && hasPermission(self.user.role, permission);
+    },
+
+    // Agents a supervisor is limited to; undefined for everyone else
+    get allowedAgents(): string[] | undefined {
+      return self.user ? getAllowedAgents(self.user) : undefined;
+    },
+  }))
+  .actions((self) => ({
+    setUser(user?: AuthUser) {
+      self.user = user;
+      self.status = user ? 'authenticated' : 'anonymous';
+    },
+
+    // Called for 401 responses while signed in
+    expire() {
+      if (self.status !== 'authenticated') return;
+      self.user = undefined;
+      self.status = 'anonymous';
+      self.error = 'Your session has expired. Please sign in again.';
+    },
+  }))
+  .actions((self) => ({
+    afterCreate() {
+      self.interceptor = axios.interceptors.response.use(undefined, (error) => {
+        // A failed login is reported by login() itself
+        if (isUnauthorized(error) && !String(error.config?.url).endsWith('/auth/login')) {
+          self.expire();
+        }
+        return Promise.reject(error);
+      });
+    },
+
+    beforeDestroy() {
+      if (self.interceptor !== null) {
+        axios.interceptors.response.eject(self.interceptor);
+      }
+    },
+
+    // An unreachable API leaves the status unknown, so the dashboard can still go offline
+    check: flow(function* () {
+      try {
+        const response = yield axios.get(`${API_BASE_URL}/auth/me`);
+        self.setUser(response.data);
+      } catch (error) {
+        if (isUnauthorized(error)) {
+          self.setUser(undefined);
+        }
+      }
+    }),
+
+    // Resolves to true once signed in; otherwise error says why
+    login: flow(function* (username: string, password: string) {
+      try {
+        self.error = undefined;
+        const response = yield axios.post(`${API_BASE_URL}/auth/login`, { username, password });
+        self.setUser(response.data.user);
+        return true;
+      } catch (error) {
+        self.error = errorMessage(error);
+        return false;
+      }
+    }),
+
+    // Your own time zone, or undefined to follow the organization's; resolves to true once saved
+    setTimeZone: flow(function* (timeZone?: string) {
+      try {
+        self.error = undefined;
+        const response = yield axios.patch(`${API_BASE_URL}/auth/me`, { timeZone: timeZone || null });
+        self.setUser(response.data);
+        return true;
+      } catch (error) {
+        self.error = errorMessage(error);
+        return false;
+      }
+    }),
+
+    logout: flow(function* () {
+      try {
+        yield axios.post(`${API_BASE_URL}/auth/logout`);
+      } finally {
+        self.error = undefined;
+        self.setUser(undefined);
+      }
+    }),
+  }));
+
+export type IAuthStore = Instance<typeof AuthStore>;
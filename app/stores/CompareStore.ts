@@ -0,0 +1,89 @@
+import { types, flow, Instance } from 'mobx-state-tree';
+import axios from 'axios';
+import { MAX_SEGMENTS, MIN_SEGMENTS, Segment, SegmentComparison } from '../../lib/segments';
+import { API_BASE_URL, getDashboard } from './storeUtils';
+
+const errorMessage = (error: unknown) =>
+  (axios.isAxiosError(error) && error.response?.data?.error) || (error as Error).message;
+
+// Segments being compared and their KPIs. The comparison is recalculated by the
+// server whenever the segments change; there is no offline fallback.
+export const CompareStore = types
+  .model('CompareStore', {
+    segments: types.optional(types.frozen<Segment[]>(), []),
+    comparison: types.maybe(types.frozen<SegmentComparison>()),
+    loading: types.optional(types.boolean, false),
+    error: types.maybe(types.string),
+  })
+  .volatile(() => ({
+    request: null as AbortController | null,
+  }))
+  .views((self) => ({
+    get canAddSegments(): boolean {
+      return self.segments.length < MAX_SEGMENTS;
+    },
+  }))
+  .actions((self) => ({
+    load: flow(function* () {
+      self.request?.abort();
+      if (self.segments.length < MIN_SEGMENTS) {
+        self.comparison = undefined;
+        return;
+      }
+      const controller = new AbortController();
+      self.request = controller;
+      const dashboard = getDashboard(self);
+
+      try {
+        self.loading = true;
+        self.error = undefined;
+        const response = yield axios.post(
+          `${API_BASE_URL}/compare`,
+          // Segments renamed to nothing are sent under their position
+          { segments: self.segments.map((segment, index) => ({ ...segment, name: segment.name.trim() || `Segment ${index + 1}` })) },
+          { params: { timeZone: dashboard.timeZone }, signal: controller.signal }
+        );
+        self.comparison = response.data;
+      } catch (error) {
+        if (axios.isCancel(error)) return;
+        self.error = `Failed to compare segments: ${errorMessage(error)}`;
+      } finally {
+        if (self.request === controller) {
+          self.request = null;
+          self.loading = false;
+        }
+      }
+    }),
+  }))
+  .actions((self) => ({
+    // Appends as many of the segments as fit under MAX_SEGMENTS
+    addSegments(segments: Segment[]) {
+      self.segments = self.segments.concat(segments).slice(0, MAX_SEGMENTS);
+      self.load();
+    },
+
+    removeSegment(index: number) {
+      self.segments = self.segments.filter((_, i) => i !== index);
+      self.load();
+    },
+
+    // Moves a segment to the front, so the others are compared with it
+    makeBaseline(index: number) {
+      const segment = self.segments[index];
+      self.segments = [segment].concat(self.segments.filter((_, i) => i !== index));
+      self.load();
+    },
+
+    renameSegment(index: number, name: string) {
+      self.segments = self.segments.map((segment, i) => (i === index ? { ...segment, name } : segment));
+    },
+
+    clear() {
+      self.request?.abort();
+      self.segments = [];
+      self.comparison = undefined;
+      self.error = undefined;
+    },
+  }));
+
+export type ICompareStore = Instance<typeof CompareStore>;
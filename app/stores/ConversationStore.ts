@@ -1,5 +1,62 @@
-import { types, Instance, flow, getSnapshot } from 'mobx-state-tree';
+import { types, Instance, flow, getSnapshot, cast } from 'mobx-state-tree';
 import axios from 'axios';
+import { CALL_STATUSES, CALL_TYPES, CallStatus, CallType } from '../../lib/types';
+import {
+  DEFAULT_DURATION_THRESHOLDS,
+  DateRange,
+  DurationThresholds,
+  NUMERIC_FILTER_FIELDS,
+  NumericFilterField,
+  NumericRange,
+  NumericRanges,
+  RelativeDateRange,
+  TimeOfDayWindow,
+  matchesDurationBuckets,
+  matchesNumericRanges,
+  matchesTimeOfDay,
+  getPreviousPeriod,
+} from '../../lib/filters';
+import { ExplorerStore, DrillDownRequest } from './ExplorerStore';
+import { TrendsStore } from './TrendsStore';
+import { HeatmapStore } from './HeatmapStore';
+import { AlertsStore } from './AlertsStore';
+import { AnomaliesStore } from './AnomaliesStore';
+import { ViewsStore } from './ViewsStore';
+import { LeaderboardStore } from './LeaderboardStore';
+import { CompareStore } from './CompareStore';
+import { AuthStore } from './AuthStore';
+import { SettingsStore } from './SettingsStore';
+import { API_BASE_URL, isNetworkError, isUnauthorized } from './storeUtils';
+import { ExportDataset, ExportFormat } from '../../lib/export';
+import {
+  DEFAULT_REPEAT_WINDOW_HOURS,
+  RepeatCaller,
+  RepeatContactIndex,
+  buildRepeatContactIndex,
+  findRepeatCallers,
+} from '../../lib/repeatContacts';
+import { LIVE_STATUSES, LiveStatus, StreamConversationsEvent, StreamReadyEvent } from '../../lib/stream';
+import {
+  AGENT_CHARTS_TABS,
+  AgentChartsTab,
+  parseDashboardState,
+  serializeDashboardState,
+} from '../../lib/dashboardUrl';
+import { SavedView, SavedViewFilters, getSavedViewDateRange } from '../../lib/views';
+import { compileQuery } from '../../lib/query';
+import { getDayEnd, getDayStart, toZonedDateString } from '../../lib/timezone';
+import {
+  calculateMetrics,
+  calculateAgentMetrics,
+  calculateLatencyDistribution,
+  Metrics,
+  AgentMetrics,
+  LatencyDistribution,
+  MetricsSummary,
+} from '../../lib/metrics';
+
+const errorMessage = (error: unknown) =>
+  (axios.isAxiosError(error) && error.response?.data?.error) || (error as Error).message;
 
 // Call Info Stats Model
 const CallStats = types.model('CallStats', {
@@ -12,7 +69,7 @@ const CallStats = types.model('CallStats', {
 const CallInfo = types.model('CallInfo', {
   caller: types.string,
   callee: types.string,
-  type: types.enumeration(['inbound', 'outbound']),
+  type: types.enumeration<CallType>('CallType', CALL_TYPES),
   stats: types.maybe(CallStats),
 });
 
@@ -23,10 +80,16 @@ const Conversation = types.model('Conversation', {
   startTime: types.number,
   duration: types.number,
   cost: types.number,
-  status: types.enumeration(['success', 'dropped', 'transfer', 'busy', 'no_answer']),
+  status: types.enumeration<CallStatus>('CallStatus', CALL_STATUSES),
   callInfo: CallInfo,
 });
 
+// Inclusive bounds for one numeric filter; either side may be open
+const NumericRangeModel = types.model('NumericRange', {
+  min: types.maybe(types.number),
+  max: types.maybe(types.number),
+});
+
 // Filters Model
 const Filters = types.model('Filters', {
   dateRange: types.maybe(types.model({
@@ -35,87 +98,554 @@ const Filters = types.model('Filters', {
   })),
   agents: types.optional(types.array(types.string), []),
   callTypes: types.optional(types.array(types.string), []),
-  timeRanges: types.optional(types.array(types.string), []),
+  statuses: types.optional(types.array(types.enumeration<CallStatus>('CallStatus', CALL_STATUSES)), []),
+  // Call length buckets ('short' / 'medium' / 'long') classified by durationThresholds
+  durationBuckets: types.optional(types.array(types.string), []),
+  durationThresholds: types.optional(types.model('DurationThresholds', {
+    shortMax: types.number,
+    longMin: types.number,
+  }), DEFAULT_DURATION_THRESHOLDS),
+  // Wall-clock start time window ("HH:mm") evaluated in timeOfDay.timeZone
+  timeOfDay: types.maybe(types.model('TimeOfDayWindow', {
+    start: types.string,
+    end: types.string,
+    timeZone: types.string,
+  })),
+  // Bounds on cost, latency and interruptions; calls without stats fail latency and interruption bounds
+  ranges: types.optional(types.model('NumericRanges', {
+    cost: types.maybe(NumericRangeModel),
+    llmLatency: types.maybe(NumericRangeModel),
+    ttsLatency: types.maybe(NumericRangeModel),
+    interruptions: types.maybe(NumericRangeModel),
+  }), {}),
+  // Query language expression (see lib/query); only valid expressions are stored
+  query: types.optional(types.string, ''),
+  // How soon a customer may get back in touch before their earlier call stops counting as resolved
+  repeatWindowHours: types.optional(types.number, DEFAULT_REPEAT_WINDOW_HOURS),
+});
+
+// Filter options advertised by the API (or derived locally when offline)
+const FilterOptions = types.model('FilterOptions', {
+  agents: types.optional(types.array(types.string), []),
+  callTypes: types.optional(types.array(types.string), []),
+  dateRange: types.maybe(types.model({
+    min: types.string,
+    max: types.string,
+  })),
 });
 
+// Wait this long after the last filter change before asking the server for new data
+const REFRESH_DEBOUNCE_MS = 300;
+
+// Pushed calls reload the dashboard's panels at most this often, however fast they arrive
+const LIVE_RELOAD_INTERVAL_MS = 2000;
+
 // Root Store
 const ConversationStore = types
   .model('ConversationStore', {
     conversations: types.array(Conversation),
     filters: types.optional(Filters, {}),
+    filterOptions: types.optional(FilterOptions, {}),
+    summary: types.maybe(types.frozen<MetricsSummary>()),
+    explorer: types.optional(ExplorerStore, {}),
+    trends: types.optional(TrendsStore, {}),
+    heatmap: types.optional(HeatmapStore, {}),
+    alerts: types.optional(AlertsStore, {}),
+    anomalies: types.optional(AnomaliesStore, {}),
+    views: types.optional(ViewsStore, {}),
+    leaderboard: types.optional(LeaderboardStore, {}),
+    compare: types.optional(CompareStore, {}),
+    auth: types.optional(AuthStore, {}),
+    settings: types.optional(SettingsStore, {}),
     loading: types.optional(types.boolean, false),
+    refreshing: types.optional(types.boolean, false),
+    // True when the API is unreachable and metrics are computed from conversations in the browser
+    offline: types.optional(types.boolean, false),
     error: types.maybe(types.string),
+    // State of the /api/stream connection that pushes newly ingested calls
+    liveStatus: types.optional(types.enumeration<LiveStatus>('LiveStatus', LIVE_STATUSES), 'disconnected'),
+    // Open tab of the agent analytics modal; the modal is closed when unset
+    agentChartsTab: types.maybe(types.enumeration<AgentChartsTab>('AgentChartsTab', AGENT_CHARTS_TABS)),
   })
+  .volatile(() => ({
+    summaryRequest: null as AbortController | null,
+    eventSource: null as EventSource | null,
+    refreshTimer: null as ReturnType<typeof setTimeout> | null,
+    liveReloadTimer: null as ReturnType<typeof setTimeout> | null,
+  }))
+  .views((self) => ({
+    // Zone that day boundaries, hour buckets and displayed times use: the user's own, else the organization's
+    get timeZone(): string {
+      return self.auth.user?.timeZone || self.settings.timeZone;
+    },
+
+    // Bounded numeric filters only, as plain objects
+    get numericRanges(): NumericRanges {
+      const ranges: NumericRanges = {};
+      NUMERIC_FILTER_FIELDS.forEach(field => {
+        const range = self.filters.ranges[field];
+        if (range && (range.min !== undefined || range.max !== undefined)) {
+          ranges[field] = { min: range.min, max: range.max };
+        }
+      });
+      return ranges;
+    },
+  }))
+  .views((self) => ({
+    // Current filters as query params understood by the server's filterData
+    get filterParams(): Record<string, unknown> {
+      const snapshot = getSnapshot(self.filters);
+      return {
+        dateRange: snapshot.dateRange,
+        agents: snapshot.agents,
+        callTypes: snapshot.callTypes,
+        statuses: snapshot.statuses,
+        durationBuckets: snapshot.durationBuckets,
+        durationThresholds: snapshot.durationBuckets.length > 0 ? snapshot.durationThresholds : undefined,
+        timeOfDay: snapshot.timeOfDay,
+        ranges: self.numericRanges,
+        query: snapshot.query || undefined,
+        repeatWindowHours: snapshot.repeatWindowHours,
+        timeZone: self.timeZone,
+      };
+    },
+
+    // Download link for a server-side export of the filtered data
+    getExportUrl(dataset: ExportDataset, format: ExportFormat): string {
+      return axios.getUri({ url: `${API_BASE_URL}/export`, params: { ...this.filterParams, dataset, format } });
+    },
+
+    // Printable HTML report of the dashboard for the current filters
+    get reportUrl(): string {
+      return axios.getUri({ url: `${API_BASE_URL}/report`, params: this.filterParams });
+    },
+
+    // Filters and open chart tab as a query string, so the current view can be shared as a link
+    get shareableQuery(): string {
+      const snapshot = getSnapshot(self.filters);
+      return serializeDashboardState({
+        dateRange: snapshot.dateRange,
+        agents: snapshot.agents,
+        callTypes: snapshot.callTypes,
+        statuses: snapshot.statuses,
+        durationBuckets: snapshot.durationBuckets,
+        durationThresholds: snapshot.durationThresholds,
+        timeOfDay: snapshot.timeOfDay,
+        ranges: self.numericRanges,
+        query: snapshot.query,
+        repeatWindowHours: snapshot.repeatWindowHours,
+        agentChartsTab: self.agentChartsTab,
+      });
+    },
+
+    // Current filters as a saved view preset; a relative range replaces the selected dates
+    getSavedViewFilters(relativeDateRange?: RelativeDateRange): SavedViewFilters {
+      const snapshot = getSnapshot(self.filters);
+      return {
+        dateRange: relativeDateRange ? undefined : snapshot.dateRange,
+        relativeDateRange,
+        agents: snapshot.agents.slice(),
+        callTypes: snapshot.callTypes.slice(),
+        statuses: snapshot.statuses.slice(),
+        durationBuckets: snapshot.durationBuckets.slice(),
+        durationThresholds: { ...snapshot.durationThresholds },
+        timeOfDay: snapshot.timeOfDay,
+        ranges: self.numericRanges,
+        query: snapshot.query,
+        repeatWindowHours: snapshot.repeatWindowHours,
+      };
+    },
+  }))
   .actions((self) => ({
-    // Load conversations from API
+    // Load conversations from API (only used by the offline fallback)
     loadConversations: flow(function* () {
       try {
         self.loading = true;
         self.error = undefined;
-        const response = yield axios.get('http://localhost:3001/api/conversations');
+        const response = yield axios.get(`${API_BASE_URL}/raw-data`);
         self.conversations.clear();
         response.data.forEach((conv: any) => {
           self.conversations.push(conv);
         });
       } catch (error) {
-        self.error = `Failed to load conversations: ${error.message}`;
+        self.error = `Failed to load conversations: ${(error as Error).message}`;
       } finally {
         self.loading = false;
       }
     }),
 
-    // Filter actions
-    setDateRange(start?: string, end?: string) {
-      if (start && end) {
-        self.filters.dateRange = { start, end };
-      } else {
-        self.filters.dateRange = undefined;
-      }
+    // Derive filter options from locally loaded conversations
+    deriveFilterOptions() {
+      const agents = new Set(self.conversations.map(conv => conv.agent));
+      const callTypes = new Set(self.conversations.map(conv => conv.callInfo.type));
+      const timestamps = self.conversations.map(conv => conv.startTime);
+      self.filterOptions = cast({
+        agents: Array.from(agents).sort(),
+        callTypes: Array.from(callTypes).sort(),
+        dateRange: timestamps.length > 0 ? {
+          min: toZonedDateString(Math.min(...timestamps), self.timeZone),
+          max: toZonedDateString(Math.max(...timestamps), self.timeZone),
+        } : undefined,
+      });
     },
+  }))
+  .actions((self) => ({
+    // Switch to client-side aggregation over the full conversation list
+    enterOfflineMode: flow(function* () {
+      self.offline = true;
+      if (self.conversations.length === 0) {
+        yield self.loadConversations();
+      }
+      if (self.filterOptions.agents.length === 0) {
+        self.deriveFilterOptions();
+      }
+    }),
+  }))
+  .actions((self) => ({
+    loadFilterOptions: flow(function* () {
+      try {
+        const [agents, callTypes, dateRange] = yield Promise.all([
+          axios.get(`${API_BASE_URL}/agents`),
+          axios.get(`${API_BASE_URL}/call-types`),
+          axios.get(`${API_BASE_URL}/date-range`, { params: { timeZone: self.timeZone } }),
+        ]);
+        self.filterOptions = cast({
+          agents: agents.data,
+          callTypes: callTypes.data,
+          dateRange: dateRange.data,
+        });
+      } catch (error) {
+        // Signed out rather than offline
+        if (isUnauthorized(error)) return;
+        // Only an unreachable API falls back to the browser; errors the server reports are shown
+        if (!isNetworkError(error)) {
+          self.error = `Failed to load filter options: ${errorMessage(error)}`;
+          return;
+        }
+        yield self.enterOfflineMode();
+      }
+    }),
 
-    setAgents(agents: string[]) {
-      self.filters.agents.replace(agents);
-    },
+    // Fetch filtered aggregates from the server, cancelling any request still in flight
+    loadSummary: flow(function* () {
+      self.summaryRequest?.abort();
+      const controller = new AbortController();
+      self.summaryRequest = controller;
 
-    setCallTypes(callTypes: string[]) {
-      self.filters.callTypes.replace(callTypes);
+      try {
+        self.refreshing = true;
+        const response = yield axios.get(`${API_BASE_URL}/summary`, {
+          params: { ...self.filterParams, compare: 'previous' },
+          signal: controller.signal,
+        });
+        self.summary = response.data;
+        self.offline = false;
+      } catch (error) {
+        if (axios.isCancel(error) || isUnauthorized(error)) return;
+        if (!isNetworkError(error)) {
+          self.error = `Failed to load summary: ${errorMessage(error)}`;
+          return;
+        }
+        yield self.enterOfflineMode();
+      } finally {
+        if (self.summaryRequest === controller) {
+          self.summaryRequest = null;
+          self.refreshing = false;
+        }
+      }
+    }),
+  }))
+  .actions((self) => ({
+    // Reload the panels that query the server for the current filters, besides the summary
+    reloadPanels() {
+      if (self.liveReloadTimer) {
+        clearTimeout(self.liveReloadTimer);
+        self.liveReloadTimer = null;
+      }
+      self.explorer.reload();
+      self.trends.load();
+      self.heatmap.load();
+      self.alerts.load();
+      self.anomalies.load();
+      if (self.agentChartsTab === 'leaderboard') {
+        self.leaderboard.load();
+      }
+    },
+  }))
+  .actions((self) => ({
+    setLiveStatus(status: LiveStatus) {
+      self.liveStatus = status;
     },
 
-    setTimeRanges(timeRanges: string[]) {
-      self.filters.timeRanges.replace(timeRanges);
+    applyLiveSummary(summary: MetricsSummary) {
+      self.summary = summary;
     },
 
-    clearFilters() {
-      self.filters.dateRange = undefined;
-      self.filters.agents.clear();
-      self.filters.callTypes.clear();
-      self.filters.timeRanges.clear();
+    // Apply pushed calls without downloading the dataset again
+    applyLiveUpdate(update: StreamConversationsEvent) {
+      self.summary = update.summary;
+
+      // New agents, call types or dates can arrive with any ingested call
+      const agents = self.filterOptions.agents.slice();
+      const callTypes = self.filterOptions.callTypes.slice();
+      let dateRange = self.filterOptions.dateRange ? getSnapshot(self.filterOptions.dateRange) : undefined;
+      update.records.forEach(record => {
+        if (agents.indexOf(record.agent) === -1) agents.push(record.agent);
+        if (callTypes.indexOf(record.callInfo.type) === -1) callTypes.push(record.callInfo.type);
+        const date = toZonedDateString(record.startTime, self.timeZone);
+        dateRange = dateRange
+          ? { min: date < dateRange.min ? date : dateRange.min, max: date > dateRange.max ? date : dateRange.max }
+          : { min: date, max: date };
+      });
+      self.filterOptions = cast({ agents: agents.sort(), callTypes: callTypes.sort(), dateRange });
+
+      // Keep the offline copy current if it has been downloaded
+      if (self.conversations.length > 0) {
+        update.records.forEach(record => {
+          self.conversations.push(record);
+        });
+      }
+
+      // The summary arrives with every push; the other panels reload once per burst
+      if (update.records.length > 0 && !self.liveReloadTimer) {
+        self.liveReloadTimer = setTimeout(() => self.reloadPanels(), LIVE_RELOAD_INTERVAL_MS);
+      }
+    },
+  }))
+  .actions((self) => ({
+    // Subscribe to pushed updates for the current filters, replacing any previous subscription
+    connectLive() {
+      self.eventSource?.close();
+      if (typeof EventSource === 'undefined') return;
+
+      const url = axios.getUri({
+        url: `${API_BASE_URL}/stream`,
+        params: { ...self.filterParams, compare: 'previous' },
+      });
+      const eventSource = new EventSource(url, { withCredentials: true });
+      self.eventSource = eventSource;
+      self.liveStatus = 'connecting';
+
+      // EventSource reconnects by itself; the ready event then brings the summary up to date
+      eventSource.onopen = () => self.setLiveStatus('live');
+      eventSource.onerror = () => self.setLiveStatus('disconnected');
+      eventSource.addEventListener('ready', (event) => {
+        const ready: StreamReadyEvent = JSON.parse((event as MessageEvent).data);
+        self.applyLiveSummary(ready.summary);
+      });
+      eventSource.addEventListener('conversations', (event) => {
+        self.applyLiveUpdate(JSON.parse((event as MessageEvent).data));
+      });
     },
 
-    setError(error: string) {
-      self.error = error;
+    disconnectLive() {
+      self.eventSource?.close();
+      self.eventSource = null;
+      self.liveStatus = 'disconnected';
     },
+  }))
+  .actions((self) => ({
+    // Reload everything that depends on the current filters
+    refresh: flow(function* () {
+      yield self.loadSummary();
+      if (self.offline) {
+        self.disconnectLive();
+      } else {
+        self.connectLive();
+      }
+      self.reloadPanels();
+    }),
 
-    clearError() {
-      self.error = undefined;
+    // Open the explorer on the conversations behind a KPI card or chart element
+    drillDown(drillDown?: DrillDownRequest) {
+      self.explorer.setDrillDown(drillDown);
     },
   }))
-  .views((self) => ({
-    // Filtered conversations based on current filters
-    get filteredConversations() {
-      let filtered = self.conversations.slice();
-
-      // Date range filter
-      if (self.filters.dateRange) {
-        const startTime = new Date(self.filters.dateRange.start).getTime();
-        // Set end time to end of day (23:59:59.999) to include all conversations on the end date
-        const endDate = new Date(self.filters.dateRange.end);
-        endDate.setHours(23, 59, 59, 999);
-        const endTime = endDate.getTime();
-        filtered = filtered.filter(conv => 
-          conv.startTime >= startTime && conv.startTime <= endTime
-        );
+  .actions((self) => {
+    // Debounce refreshes so rapid filter changes only hit the server once
+    const scheduleRefresh = () => {
+      if (self.refreshTimer) {
+        clearTimeout(self.refreshTimer);
       }
+      self.refreshTimer = setTimeout(() => self.refresh(), REFRESH_DEBOUNCE_MS);
+    };
+
+    // Links and saved views may name agents outside a supervisor's assignment, which the API rejects
+    const toAllowedAgents = (agents: string[]) => {
+      const allowed = self.auth.allowedAgents;
+      return allowed ? agents.filter(agent => allowed.indexOf(agent) !== -1) : agents;
+    };
+
+    return {
+      // Restore the view from a shared link before the first load; without a date
+      // range in the link the dashboard starts on the full range of the dataset.
+      // Stops at the session check when nobody is signed in.
+      initialize: flow(function* (search: string = '') {
+        self.loading = true;
+        self.error = undefined;
+        yield self.auth.check();
+        if (self.auth.status === 'anonymous') {
+          self.loading = false;
+          return;
+        }
+        yield self.settings.load();
+        const state = parseDashboardState(search);
+        self.filters = cast({
+          dateRange: state.dateRange,
+          agents: toAllowedAgents(state.agents),
+          callTypes: state.callTypes,
+          statuses: state.statuses,
+          durationBuckets: state.durationBuckets,
+          durationThresholds: state.durationThresholds,
+          timeOfDay: state.timeOfDay,
+          ranges: state.ranges,
+          query: state.query,
+          repeatWindowHours: state.repeatWindowHours,
+        });
+        self.agentChartsTab = state.agentChartsTab;
+        yield self.loadFilterOptions();
+        if (!self.offline) {
+          self.views.load();
+        }
+        const dataRange = self.filterOptions.dateRange;
+        if (!self.filters.dateRange && dataRange) {
+          self.filters.dateRange = { start: dataRange.min, end: dataRange.max };
+        }
+        yield self.refresh();
+        self.loading = false;
+      }),
+
+      // Replace every filter with a saved preset, resolving relative dates against today.
+      // Views saved before status and range filters existed have neither.
+      applySavedView(view: SavedView) {
+        const filters = view.filters;
+        self.filters = cast({
+          dateRange: getSavedViewDateRange(filters, Date.now(), self.timeZone),
+          agents: toAllowedAgents(filters.agents),
+          callTypes: filters.callTypes,
+          statuses: filters.statuses || [],
+          durationBuckets: filters.durationBuckets,
+          durationThresholds: filters.durationThresholds,
+          timeOfDay: filters.timeOfDay,
+          ranges: filters.ranges || {},
+          query: filters.query || '',
+          repeatWindowHours: filters.repeatWindowHours,
+        });
+        scheduleRefresh();
+      },
+
+      // The dataset's first and last day move with the zone, so the filter options are reloaded too
+      applyTimeZone: flow(function* () {
+        if (self.offline) {
+          self.deriveFilterOptions();
+        } else {
+          yield self.loadFilterOptions();
+        }
+        scheduleRefresh();
+      }),
+
+      setAgentChartsTab(tab?: AgentChartsTab) {
+        self.agentChartsTab = tab;
+        if (tab === 'leaderboard') {
+          self.leaderboard.load();
+        }
+      },
+
+      // Filter actions
+      setDateRange(start?: string, end?: string) {
+        if (start && end) {
+          self.filters.dateRange = { start, end };
+        } else {
+          self.filters.dateRange = undefined;
+        }
+        scheduleRefresh();
+      },
+
+      setAgents(agents: string[]) {
+        self.filters.agents.replace(agents);
+        scheduleRefresh();
+      },
+
+      setCallTypes(callTypes: string[]) {
+        self.filters.callTypes.replace(callTypes);
+        scheduleRefresh();
+      },
+
+      setStatuses(statuses: CallStatus[]) {
+        self.filters.statuses.replace(statuses);
+        scheduleRefresh();
+      },
+
+      setNumericRange(field: NumericFilterField, range?: NumericRange) {
+        self.filters.ranges[field] = range && (range.min !== undefined || range.max !== undefined)
+          ? cast(range)
+          : undefined;
+        scheduleRefresh();
+      },
+
+      setQuery(query: string) {
+        self.filters.query = query.trim();
+        scheduleRefresh();
+      },
+
+      setDurationBuckets(durationBuckets: string[]) {
+        self.filters.durationBuckets.replace(durationBuckets);
+        scheduleRefresh();
+      },
+
+      setDurationThresholds(thresholds: DurationThresholds) {
+        self.filters.durationThresholds = cast(thresholds);
+        scheduleRefresh();
+      },
+
+      setTimeOfDay(window?: TimeOfDayWindow) {
+        self.filters.timeOfDay = window ? cast(window) : undefined;
+        scheduleRefresh();
+      },
+
+      setRepeatWindowHours(hours: number) {
+        self.filters.repeatWindowHours = hours;
+        scheduleRefresh();
+      },
+
+      // The repeat window is a metric setting rather than a filter, so it is kept
+      clearFilters() {
+        self.filters.dateRange = undefined;
+        self.filters.agents.clear();
+        self.filters.callTypes.clear();
+        self.filters.statuses.clear();
+        self.filters.durationBuckets.clear();
+        self.filters.durationThresholds = cast(DEFAULT_DURATION_THRESHOLDS);
+        self.filters.timeOfDay = undefined;
+        self.filters.ranges = cast({});
+        self.filters.query = '';
+        scheduleRefresh();
+      },
+
+      setError(error: string) {
+        self.error = error;
+      },
+
+      clearError() {
+        self.error = undefined;
+      },
+    };
+  })
+  .views((self) => {
+    // Conversations whose start time falls within the date range (offline fallback)
+    const inDateRange = (range?: DateRange) => {
+      if (!range) return self.conversations.slice();
+      // Whole days in the dashboard's time zone, including every call on the end date
+      const startTime = getDayStart(range.start, self.timeZone);
+      const endTime = getDayEnd(range.end, self.timeZone);
+      return self.conversations.filter(conv => 
+        conv.startTime >= startTime && conv.startTime <= endTime
+      );
+    };
+
+    // Every filter except the date range (offline fallback)
+    const applyFilters = (conversations: IConversation[]) => {
+      let filtered = conversations;
 
       // Agent filter
       if (self.filters.agents.length > 0) {
@@ -131,175 +661,131 @@ const ConversationStore = types
         );
       }
 
-      // Time range filter (based on duration)
-      if (self.filters.timeRanges.length > 0) {
-        filtered = filtered.filter(conv => {
-          const duration = conv.duration;
-          return self.filters.timeRanges.some(range => {
-            switch (range) {
-              case 'short': return duration < 120; // < 2 minutes
-              case 'medium': return duration >= 120 && duration < 300; // 2-5 minutes
-              case 'long': return duration >= 300; // > 5 minutes
-              default: return true;
-            }
-          });
-        });
+      // Call status filter
+      if (self.filters.statuses.length > 0) {
+        filtered = filtered.filter(conv =>
+          self.filters.statuses.includes(conv.status)
+        );
       }
 
-      return filtered;
-    },
-
-    // Metric 1: Average Cost per Call
-    get avgCostPerCall() {
-      const filtered = this.filteredConversations;
-      if (filtered.length === 0) return 0;
-      const totalCost = filtered.reduce((sum, conv) => sum + conv.cost, 0);
-      return totalCost / filtered.length;
-    },
-
-    // Metric 2: Average Cost per Minute
-    get avgCostPerMin() {
-      const filtered = this.filteredConversations;
-      if (filtered.length === 0) return 0;
-      const totalCost = filtered.reduce((sum, conv) => sum + conv.cost, 0);
-      const totalMinutes = filtered.reduce((sum, conv) => sum + (conv.duration / 60), 0);
-      return totalMinutes > 0 ? totalCost / totalMinutes : 0;
-    },
-
-    // Metric 3: Success Rate
-    get successRate() {
-      const filtered = this.filteredConversations;
-      if (filtered.length === 0) return 0;
-      const successCount = filtered.filter(conv => conv.status === 'success').length;
-      return (successCount / filtered.length) * 100;
-    },
-
-    // Metric 4: Failure Rate (dropped + no_answer)
-    get failureRate() {
-      const filtered = this.filteredConversations;
-      if (filtered.length === 0) return 0;
-      const failureCount = filtered.filter(conv => 
-        conv.status === 'dropped' || conv.status === 'no_answer'
-      ).length;
-      return (failureCount / filtered.length) * 100;
-    },
-
-    // Metric 5: Transfer Rate
-    get transferRate() {
-      const filtered = this.filteredConversations;
-      if (filtered.length === 0) return 0;
-      const transferCount = filtered.filter(conv => conv.status === 'transfer').length;
-      return (transferCount / filtered.length) * 100;
-    },
-
-    // Metric 6: Abandonment Rate (busy + no_answer)
-    get abandonmentRate() {
-      const filtered = this.filteredConversations;
-      if (filtered.length === 0) return 0;
-      const abandonmentCount = filtered.filter(conv => 
-        conv.status === 'busy' || conv.status === 'no_answer'
-      ).length;
-      return (abandonmentCount / filtered.length) * 100;
-    },
-
-    // Metric 7: Average Interruptions per Call
-    get avgInterruptions() {
-      const filtered = this.filteredConversations.filter(conv => conv.callInfo.stats);
-      if (filtered.length === 0) return 0;
-      const totalInterruptions = filtered.reduce((sum, conv) => 
-        sum + (conv.callInfo.stats?.interruptions || 0), 0
-      );
-      return totalInterruptions / filtered.length;
-    },
-
-    // Additional metrics for completeness
-    get avgLLMLatency() {
-      const filtered = this.filteredConversations.filter(conv => conv.callInfo.stats);
-      if (filtered.length === 0) return 0;
-      const totalLatency = filtered.reduce((sum, conv) => 
-        sum + (conv.callInfo.stats?.llmLatency || 0), 0
-      );
-      return totalLatency / filtered.length;
-    },
-
-    get avgTTSLatency() {
-      const filtered = this.filteredConversations.filter(conv => conv.callInfo.stats);
-      if (filtered.length === 0) return 0;
-      const totalLatency = filtered.reduce((sum, conv) => 
-        sum + (conv.callInfo.stats?.ttsLatency || 0), 0
-      );
-      return totalLatency / filtered.length;
-    },
-
-    get avgTotalLatency() {
-      const filtered = this.filteredConversations.filter(conv => conv.callInfo.stats);
-      if (filtered.length === 0) return 0;
-      const totalLatency = filtered.reduce((sum, conv) => 
-        sum + ((conv.callInfo.stats?.llmLatency || 0) + (conv.callInfo.stats?.ttsLatency || 0)), 0
-      );
-      return totalLatency / filtered.length;
-    },
-
-    get firstCallResolutionRate() {
-      // Assuming success status means first call resolution
-      return this.successRate;
-    },
-
-    get avgCostPerSuccessfulCall() {
-      const successfulCalls = this.filteredConversations.filter(conv => conv.status === 'success');
-      if (successfulCalls.length === 0) return 0;
-      const totalCost = successfulCalls.reduce((sum, conv) => sum + conv.cost, 0);
-      return totalCost / successfulCalls.length;
-    },
-
-    get avgHandleTime() {
-      const filtered = this.filteredConversations;
-      if (filtered.length === 0) return 0;
-      const totalDuration = filtered.reduce((sum, conv) => sum + conv.duration, 0);
-      return totalDuration / filtered.length;
-    },
-
-    get totalCalls() {
-      return this.filteredConversations.length;
-    },
+      // Duration bucket filter
+      if (self.filters.durationBuckets.length > 0) {
+        const buckets = self.filters.durationBuckets.slice();
+        const thresholds = getSnapshot(self.filters.durationThresholds);
+        filtered = filtered.filter(conv => matchesDurationBuckets(conv, buckets, thresholds));
+      }
 
-    get totalCost() {
-      return this.filteredConversations.reduce((sum, conv) => sum + conv.cost, 0);
-    },
+      // Time-of-day window filter
+      const timeOfDay = self.filters.timeOfDay;
+      if (timeOfDay) {
+        filtered = filtered.filter(conv => matchesTimeOfDay(conv, timeOfDay));
+      }
 
-    // Get all unique agents
-    get availableAgents() {
-      const agents = new Set(self.conversations.map(conv => conv.agent));
-      return Array.from(agents).sort();
-    },
+      // Cost, latency and interruption ranges
+      const ranges = self.numericRanges;
+      if (Object.keys(ranges).length > 0) {
+        filtered = filtered.filter(conv => matchesNumericRanges(conv, ranges));
+      }
 
-    // Get all unique call types
-    get availableCallTypes() {
-      const types = new Set(self.conversations.map(conv => conv.callInfo.type));
-      return Array.from(types);
-    },
+      // Query language expression
+      const matchesQuery = self.filters.query ? compileQuery(self.filters.query, self.timeZone) : undefined;
+      if (matchesQuery) {
+        filtered = filtered.filter(conv => matchesQuery(conv));
+      }
 
-    // Get metrics object for compatibility with existing UI
-    get metrics() {
-      return {
-        avgCostPerCall: this.avgCostPerCall,
-        avgCostPerMin: this.avgCostPerMin,
-        successRate: this.successRate,
-        failureRate: this.failureRate,
-        transferRate: this.transferRate,
-        abandonmentRate: this.abandonmentRate,
-        avgInterruptions: this.avgInterruptions,
-        avgLLMLatency: this.avgLLMLatency,
-        avgTTSLatency: this.avgTTSLatency,
-        avgTotalLatency: this.avgTotalLatency,
-        firstCallResolutionRate: this.firstCallResolutionRate,
-        avgCostPerSuccessfulCall: this.avgCostPerSuccessfulCall,
-        avgHandleTime: this.avgHandleTime,
-        totalCalls: this.totalCalls,
-        totalCost: this.totalCost,
-      };
-    },
-  }));
+      return filtered;
+    };
+
+    return {
+      // Conversations within the selected date range only (offline fallback)
+      get periodConversations() {
+        return inDateRange(self.filters.dateRange);
+      },
+
+      get filteredConversations() {
+        return applyFilters(this.periodConversations);
+      },
+
+      // Repeat contacts across every local call, so callbacks outside the filters still count (offline fallback)
+      get repeatContactIndex(): RepeatContactIndex {
+        return buildRepeatContactIndex(self.conversations, self.filters.repeatWindowHours);
+      },
+
+      // The previous period of equal length, used for period-over-period deltas
+      get comparisonPeriod(): DateRange | undefined {
+        if (!self.offline && self.summary) {
+          return self.summary.comparison?.period;
+        }
+        return self.filters.dateRange ? getPreviousPeriod(self.filters.dateRange) : undefined;
+      },
+
+      // Calls matching every filter in the comparison period (offline fallback)
+      get comparisonConversations(): IConversation[] | undefined {
+        const period = self.filters.dateRange ? getPreviousPeriod(self.filters.dateRange) : undefined;
+        return period ? applyFilters(inDateRange(period)) : undefined;
+      },
+
+      get comparisonMetrics(): Metrics | undefined {
+        if (!self.offline && self.summary) {
+          return self.summary.comparison?.metrics;
+        }
+        const conversations = this.comparisonConversations;
+        return conversations ? calculateMetrics(conversations, this.repeatContactIndex) : undefined;
+      },
+
+      // Server aggregates when online; the shared metrics engine over local data when offline
+      get metrics(): Metrics {
+        if (!self.offline && self.summary) {
+          return self.summary.metrics;
+        }
+        return calculateMetrics(this.filteredConversations, this.repeatContactIndex);
+      },
+
+      // Per-agent KPIs for the agent analytics modal
+      get agentMetrics(): AgentMetrics {
+        if (!self.offline && self.summary) {
+          return self.summary.agentMetrics;
+        }
+        return calculateAgentMetrics(this.filteredConversations, this.repeatContactIndex);
+      },
+
+      // LLM, TTS and total latency histograms for the latency charts
+      get latencyDistribution(): LatencyDistribution {
+        if (!self.offline && self.summary) {
+          return self.summary.latencyDistribution;
+        }
+        return calculateLatencyDistribution(this.filteredConversations);
+      },
+
+      // Customers who called back within the repeat window, most repeats first
+      get repeatCallers(): RepeatCaller[] {
+        if (!self.offline && self.summary) {
+          return self.summary.repeatCallers;
+        }
+        return findRepeatCallers(this.filteredConversations, this.repeatContactIndex);
+      },
+
+      get totalCalls() {
+        return this.metrics.totalCalls;
+      },
+
+      get totalCost() {
+        return this.metrics.totalCost;
+      },
+
+      get availableAgents() {
+        return self.filterOptions.agents.slice();
+      },
+
+      get availableCallTypes() {
+        return self.filterOptions.callTypes.slice();
+      },
+
+      get hasData() {
+        return self.filterOptions.dateRange !== undefined;
+      },
+    };
+  });
 
 // Type exports
 export type IConversationStore = Instance<typeof ConversationStore>;
@@ -0,0 +1,198 @@
+import { types, flow, Instance } from 'mobx-state-tree';
+import axios from 'axios';
+import { CALL_STATUSES, CallStatus, ConversationPage } from '../../lib/types';
+import {
+  DEFAULT_PAGE_SIZE,
+  EXPLORER_SORT_FIELDS,
+  ExplorerSortField,
+  SortOrder,
+  queryConversations,
+} from '../../lib/explorer';
+import { calculateMetrics, ConversationDetail } from '../../lib/metrics';
+import { API_BASE_URL, getDashboard } from './storeUtils';
+
+// Wait this long after the last keystroke before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Extra constraints applied on top of the dashboard filters when a KPI card or chart is clicked
+const DrillDown = types.model('DrillDown', {
+  label: types.string,
+  agents: types.optional(types.array(types.string), []),
+  statuses: types.optional(types.array(types.enumeration<CallStatus>('CallStatus', CALL_STATUSES)), []),
+});
+
+export interface DrillDownRequest {
+  label: string;
+  agents?: string[];
+  statuses?: CallStatus[];
+}
+
+export const ExplorerStore = types
+  .model('ExplorerStore', {
+    page: types.optional(types.number, 0),
+    pageSize: types.optional(types.number, DEFAULT_PAGE_SIZE),
+    sortField: types.optional(types.enumeration<ExplorerSortField>('ExplorerSortField', EXPLORER_SORT_FIELDS), 'startTime'),
+    sortOrder: types.optional(types.enumeration<SortOrder>('SortOrder', ['asc', 'desc']), 'desc'),
+    search: types.optional(types.string, ''),
+    drillDown: types.maybe(DrillDown),
+    result: types.maybe(types.frozen<ConversationPage>()),
+    loading: types.optional(types.boolean, false),
+    error: types.maybe(types.string),
+    // Conversation opened in the detail drawer
+    selectedId: types.maybe(types.string),
+    detail: types.maybe(types.frozen<ConversationDetail>()),
+    detailLoading: types.optional(types.boolean, false),
+    detailError: types.maybe(types.string),
+  })
+  .volatile(() => ({
+    request: null as AbortController | null,
+    detailRequest: null as AbortController | null,
+    searchTimer: null as ReturnType<typeof setTimeout> | null,
+  }))
+  .actions((self) => ({
+    // Fetch the current page, cancelling any request still in flight
+    load: flow(function* () {
+      self.request?.abort();
+      const controller = new AbortController();
+      self.request = controller;
+      const dashboard = getDashboard(self);
+      const query = {
+        page: self.page,
+        pageSize: self.pageSize,
+        sortField: self.sortField,
+        sortOrder: self.sortOrder,
+        search: self.search || undefined,
+      };
+
+      try {
+        self.loading = true;
+        self.error = undefined;
+
+        if (dashboard.offline) {
+          const drillAgents: string[] = self.drillDown ? self.drillDown.agents.slice() : [];
+          const drillStatuses: string[] = self.drillDown ? self.drillDown.statuses.slice() : [];
+          const rows = dashboard.filteredConversations.filter(conv =>
+            (drillAgents.length === 0 || drillAgents.includes(conv.agent)) &&
+            (drillStatuses.length === 0 || drillStatuses.includes(conv.status))
+          );
+          self.result = queryConversations(rows, query);
+          return;
+        }
+
+        const params: Record<string, unknown> = { ...dashboard.filterParams, ...query };
+        if (self.drillDown?.agents.length) {
+          params.agents = self.drillDown.agents.slice();
+        }
+        if (self.drillDown?.statuses.length) {
+          params.statuses = self.drillDown.statuses.slice();
+        }
+
+        const response = yield axios.get(`${API_BASE_URL}/conversations`, {
+          params,
+          signal: controller.signal,
+        });
+        self.result = response.data;
+      } catch (error) {
+        if (axios.isCancel(error)) return;
+        self.error = `Failed to load conversations: ${(error as Error).message}`;
+      } finally {
+        if (self.request === controller) {
+          self.request = null;
+          self.loading = false;
+        }
+      }
+    }),
+  }))
+  .actions((self) => ({
+    // Load a single conversation and its agent's averages for the selected period
+    openDetail: flow(function* (id: string) {
+      self.detailRequest?.abort();
+      const controller = new AbortController();
+      self.detailRequest = controller;
+      const dashboard = getDashboard(self);
+      self.selectedId = id;
+      self.detail = undefined;
+
+      try {
+        self.detailLoading = true;
+        self.detailError = undefined;
+
+        if (dashboard.offline) {
+          const conversation = dashboard.periodConversations.find(conv => conv.id === id)
+            || dashboard.filteredConversations.find(conv => conv.id === id);
+          if (!conversation) {
+            self.detailError = `Conversation ${id} is not available offline`;
+            return;
+          }
+          const agentCalls = dashboard.periodConversations.filter(conv => conv.agent === conversation.agent);
+          self.detail = {
+            conversation,
+            agentMetrics: calculateMetrics(agentCalls, dashboard.repeatContactIndex),
+            period: dashboard.filterParams.dateRange as ConversationDetail['period'],
+          };
+          return;
+        }
+
+        const response = yield axios.get(`${API_BASE_URL}/conversations/${encodeURIComponent(id)}`, {
+          params: {
+            dateRange: dashboard.filterParams.dateRange,
+            repeatWindowHours: dashboard.filterParams.repeatWindowHours,
+          },
+          signal: controller.signal,
+        });
+        self.detail = response.data;
+      } catch (error) {
+        if (axios.isCancel(error)) return;
+        self.detailError = `Failed to load conversation: ${(error as Error).message}`;
+      } finally {
+        if (self.detailRequest === controller) {
+          self.detailRequest = null;
+          self.detailLoading = false;
+        }
+      }
+    }),
+
+    closeDetail() {
+      self.detailRequest?.abort();
+      self.selectedId = undefined;
+      self.detail = undefined;
+      self.detailError = undefined;
+    },
+
+    // Back to the first page whenever the matching set of rows changes
+    reload() {
+      self.page = 0;
+      self.load();
+    },
+  }))
+  .actions((self) => ({
+    setPagination(page: number, pageSize: number) {
+      self.page = pageSize === self.pageSize ? page : 0;
+      self.pageSize = pageSize;
+      self.load();
+    },
+
+    setSort(sortField: ExplorerSortField, sortOrder: SortOrder) {
+      self.sortField = sortField;
+      self.sortOrder = sortOrder;
+      self.page = 0;
+      self.load();
+    },
+
+    setSearch(search: string) {
+      self.search = search;
+      if (self.searchTimer) {
+        clearTimeout(self.searchTimer);
+      }
+      self.searchTimer = setTimeout(() => self.reload(), SEARCH_DEBOUNCE_MS);
+    },
+
+    setDrillDown(drillDown?: DrillDownRequest) {
+      self.drillDown = drillDown ? DrillDown.create(drillDown) : undefined;
+      self.page = 0;
+      self.load();
+    },
+  }));
+
+export type IExplorerStore = Instance<typeof ExplorerStore>;
+export type IDrillDown = Instance<typeof DrillDown>;
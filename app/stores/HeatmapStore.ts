@@ -0,0 +1,78 @@
+import { types, flow, Instance } from 'mobx-state-tree';
+import axios from 'axios';
+import { MetricKey } from '../../lib/metrics';
+import { HEATMAP_METRICS, Heatmap, HeatmapCell, calculateHeatmap } from '../../lib/heatmap';
+import { API_BASE_URL, getDashboard } from './storeUtils';
+
+export const HeatmapStore = types
+  .model('HeatmapStore', {
+    metric: types.optional(types.enumeration<MetricKey>('HeatmapMetric', HEATMAP_METRICS), 'totalCalls'),
+    heatmap: types.maybe(types.frozen<Heatmap>()),
+    loading: types.optional(types.boolean, false),
+    error: types.maybe(types.string),
+  })
+  .volatile(() => ({
+    request: null as AbortController | null,
+  }))
+  .actions((self) => ({
+    // Fetch KPIs per weekday and hour for the current filters, cancelling any request still in flight
+    load: flow(function* () {
+      self.request?.abort();
+      const controller = new AbortController();
+      self.request = controller;
+      const dashboard = getDashboard(self);
+
+      try {
+        self.loading = true;
+        self.error = undefined;
+
+        if (dashboard.offline) {
+          self.heatmap = calculateHeatmap(dashboard.filteredConversations, dashboard.repeatContactIndex, dashboard.timeZone);
+          return;
+        }
+
+        const response = yield axios.get(`${API_BASE_URL}/metrics/heatmap`, {
+          params: dashboard.filterParams,
+          signal: controller.signal,
+        });
+        self.heatmap = response.data;
+      } catch (error) {
+        if (axios.isCancel(error)) return;
+        self.error = `Failed to load heatmap: ${(error as Error).message}`;
+      } finally {
+        if (self.request === controller) {
+          self.request = null;
+          self.loading = false;
+        }
+      }
+    }),
+
+    // Only changes the colouring; every metric is already loaded
+    setMetric(metric: MetricKey) {
+      self.metric = metric;
+    },
+  }))
+  .views((self) => ({
+    // Cells indexed by weekday, then hour; undefined where there were no calls
+    get grid(): (HeatmapCell | undefined)[][] {
+      const grid: (HeatmapCell | undefined)[][] = [];
+      for (let weekday = 0; weekday < 7; weekday++) {
+        grid.push(new Array(24).fill(undefined));
+      }
+      if (self.heatmap) {
+        self.heatmap.cells.forEach(cell => {
+          grid[cell.weekday][cell.hour] = cell;
+        });
+      }
+      return grid;
+    },
+
+    // Lowest and highest value of the selected metric, for the colour scale
+    get range(): { min: number; max: number } | undefined {
+      if (!self.heatmap || self.heatmap.cells.length === 0) return undefined;
+      const values = self.heatmap.cells.map(cell => cell.metrics[self.metric]);
+      return { min: Math.min.apply(null, values), max: Math.max.apply(null, values) };
+    },
+  }));
+
+export type IHeatmapStore = Instance<typeof HeatmapStore>;
@@ -0,0 +1,81 @@
+import { types, flow, Instance } from 'mobx-state-tree';
+import axios from 'axios';
+import { calculateAgentMetrics } from '../../lib/metrics';
+import { DEFAULT_SCORE_WEIGHTS, Leaderboard, ScoreWeights, buildLeaderboard } from '../../lib/leaderboard';
+import { API_BASE_URL, getDashboard } from './storeUtils';
+
+const errorMessage = (error: unknown) =>
+  (axios.isAxiosError(error) && error.response?.data?.error) || (error as Error).message;
+
+// Agents ranked by composite score. Only loaded while the leaderboard tab is open.
+export const LeaderboardStore = types
+  .model('LeaderboardStore', {
+    weights: types.optional(types.frozen<ScoreWeights>(), DEFAULT_SCORE_WEIGHTS),
+    leaderboard: types.maybe(types.frozen<Leaderboard>()),
+    loading: types.optional(types.boolean, false),
+    error: types.maybe(types.string),
+  })
+  .volatile(() => ({
+    request: null as AbortController | null,
+  }))
+  .actions((self) => ({
+    // Rank agents for the current filters, cancelling any request still in flight
+    load: flow(function* () {
+      self.request?.abort();
+      const controller = new AbortController();
+      self.request = controller;
+      const dashboard = getDashboard(self);
+
+      try {
+        self.loading = true;
+        self.error = undefined;
+
+        if (dashboard.offline) {
+          // Keep using the last weights the server sent
+          const previous = dashboard.comparisonConversations;
+          self.leaderboard = buildLeaderboard(
+            calculateAgentMetrics(dashboard.filteredConversations, dashboard.repeatContactIndex),
+            previous && calculateAgentMetrics(previous, dashboard.repeatContactIndex),
+            self.weights
+          );
+          return;
+        }
+
+        const response = yield axios.get(`${API_BASE_URL}/leaderboard`, {
+          params: dashboard.filterParams,
+          signal: controller.signal,
+        });
+        self.leaderboard = response.data;
+        self.weights = response.data.weights;
+      } catch (error) {
+        if (axios.isCancel(error)) return;
+        self.error = `Failed to load leaderboard: ${errorMessage(error)}`;
+      } finally {
+        if (self.request === controller) {
+          self.request = null;
+          self.loading = false;
+        }
+      }
+    }),
+  }))
+  .actions((self) => ({
+    // Resolves to true once saved and the ranking is recalculated; otherwise error says why
+    saveWeights: flow(function* (weights: ScoreWeights) {
+      try {
+        self.error = undefined;
+        const response = yield axios.put(`${API_BASE_URL}/leaderboard/weights`, weights);
+        self.weights = response.data;
+      } catch (error) {
+        self.error = `Failed to save weights: ${errorMessage(error)}`;
+        return false;
+      }
+      yield self.load();
+      return true;
+    }),
+
+    clearError() {
+      self.error = undefined;
+    },
+  }));
+
+export type ILeaderboardStore = Instance<typeof LeaderboardStore>;
@@ -0,0 +1,45 @@
+import { types, flow, Instance } from 'mobx-state-tree';
+import axios from 'axios';
+import { DEFAULT_TIME_ZONE } from '../../lib/timezone';
+import { API_BASE_URL } from './storeUtils';
+
+const errorMessage = (error: unknown) =>
+  (axios.isAxiosError(error) && error.response?.data?.error) || (error as Error).message;
+
+// Organization settings kept by the server. The time zone is the default for every user
+// who has not chosen their own; offline the dashboard stays on UTC.
+export const SettingsStore = types
+  .model('SettingsStore', {
+    timeZone: types.optional(types.string, DEFAULT_TIME_ZONE),
+    error: types.maybe(types.string),
+  })
+  .actions((self) => ({
+    // Keeps the defaults when the API is unreachable
+    load: flow(function* () {
+      try {
+        const response = yield axios.get(`${API_BASE_URL}/settings`);
+        self.timeZone = response.data.timeZone;
+      } catch (error) {
+        // The root store notices and goes offline on its next request
+      }
+    }),
+
+    // Resolves to true once saved; otherwise error says why
+    setTimeZone: flow(function* (timeZone: string) {
+      try {
+        self.error = undefined;
+        const response = yield axios.put(`${API_BASE_URL}/settings`, { timeZone });
+        self.timeZone = response.data.timeZone;
+        return true;
+      } catch (error) {
+        self.error = `Failed to save settings: ${errorMessage(error)}`;
+        return false;
+      }
+    }),
+
+    clearError() {
+      self.error = undefined;
+    },
+  }));
+
+export type ISettingsStore = Instance<typeof SettingsStore>;
@@ -0,0 +1,68 @@
+import { types, flow, Instance } from 'mobx-state-tree';
+import axios from 'axios';
+import { TIME_BUCKETS, TimeBucket, TimeSeries, calculateTimeSeries } from '../../lib/timeseries';
+import { API_BASE_URL, getDashboard } from './storeUtils';
+
+export const TrendsStore = types
+  .model('TrendsStore', {
+    bucket: types.optional(types.enumeration<TimeBucket>('TimeBucket', TIME_BUCKETS), 'day'),
+    series: types.maybe(types.frozen<TimeSeries>()),
+    loading: types.optional(types.boolean, false),
+    error: types.maybe(types.string),
+  })
+  .volatile(() => ({
+    request: null as AbortController | null,
+  }))
+  .actions((self) => ({
+    // Fetch KPIs per bucket for the current filters, cancelling any request still in flight
+    load: flow(function* () {
+      self.request?.abort();
+      const controller = new AbortController();
+      self.request = controller;
+      const dashboard = getDashboard(self);
+
+      try {
+        self.loading = true;
+        self.error = undefined;
+
+        if (dashboard.offline) {
+          self.series = calculateTimeSeries(
+            dashboard.filteredConversations,
+            self.bucket,
+            dashboard.repeatContactIndex,
+            dashboard.timeZone
+          );
+          return;
+        }
+
+        const response = yield axios.get(`${API_BASE_URL}/metrics/timeseries`, {
+          params: { ...dashboard.filterParams, bucket: self.bucket },
+          signal: controller.signal,
+        });
+        self.series = response.data;
+      } catch (error) {
+        if (axios.isCancel(error)) return;
+        self.error = `Failed to load trends: ${(error as Error).message}`;
+      } finally {
+        if (self.request === controller) {
+          self.request = null;
+          self.loading = false;
+        }
+      }
+    }),
+  }))
+  .actions((self) => ({
+    setBucket(bucket: TimeBucket) {
+      self.bucket = bucket;
+      self.load();
+    },
+  }))
+  .views((self) => ({
+    // Flattened rows for recharts: one object per bucket with every metric as a key
+    get chartData() {
+      if (!self.series) return [];
+      return self.series.points.map(point => ({ start: point.start, ...point.metrics }));
+    },
+  }));
+
+export type ITrendsStore = Instance<typeof TrendsStore>;
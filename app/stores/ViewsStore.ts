@@ -0,0 +1,71 @@
+import { types, flow, Instance } from 'mobx-state-tree';
+import axios from 'axios';
+import { SavedView, SavedViewInput } from '../../lib/views';
+import { API_BASE_URL } from './storeUtils';
+
+const errorMessage = (error: unknown) =>
+  (axios.isAxiosError(error) && error.response?.data?.error) || (error as Error).message;
+
+// Saved filter presets kept by the server; applying one is done by the root store
+export const ViewsStore = types
+  .model('ViewsStore', {
+    views: types.optional(types.frozen<SavedView[]>(), []),
+    loading: types.optional(types.boolean, false),
+    error: types.maybe(types.string),
+  })
+  .actions((self) => ({
+    load: flow(function* () {
+      try {
+        self.loading = true;
+        self.error = undefined;
+        const response = yield axios.get(`${API_BASE_URL}/views`);
+        self.views = response.data;
+      } catch (error) {
+        self.error = `Failed to load saved views: ${errorMessage(error)}`;
+      } finally {
+        self.loading = false;
+      }
+    }),
+  }))
+  .actions((self) => ({
+    // Resolves to the saved view, or undefined when the server rejected it (see error)
+    create: flow(function* (input: SavedViewInput) {
+      try {
+        self.error = undefined;
+        const response = yield axios.post(`${API_BASE_URL}/views`, input);
+        yield self.load();
+        return response.data as SavedView;
+      } catch (error) {
+        self.error = `Failed to save view: ${errorMessage(error)}`;
+        return undefined;
+      }
+    }),
+
+    update: flow(function* (id: string, input: SavedViewInput) {
+      try {
+        self.error = undefined;
+        const response = yield axios.put(`${API_BASE_URL}/views/${id}`, input);
+        yield self.load();
+        return response.data as SavedView;
+      } catch (error) {
+        self.error = `Failed to update view: ${errorMessage(error)}`;
+        return undefined;
+      }
+    }),
+
+    remove: flow(function* (id: string) {
+      try {
+        self.error = undefined;
+        yield axios.delete(`${API_BASE_URL}/views/${id}`);
+        self.views = self.views.filter(view => view.id !== id);
+      } catch (error) {
+        self.error = `Failed to delete view: ${errorMessage(error)}`;
+      }
+    }),
+
+    clearError() {
+      self.error = undefined;
+    },
+  }));
+
+export type IViewsStore = Instance<typeof ViewsStore>;
@@ -0,0 +1,34 @@
+import { getRoot, IAnyStateTreeNode } from 'mobx-state-tree';
+import axios from 'axios';
+import { ConversationRecord } from '../../lib/types';
+import { RepeatContactIndex } from '../../lib/repeatContacts';
+
+export const API_BASE_URL = 'http://localhost:3001/api';
+
+// The API is on another origin; its session cookie is only sent with credentials enabled
+axios.defaults.withCredentials = true;
+
+// The session is missing or has expired; the AuthStore sends the user back to the login page
+export const isUnauthorized = (error: unknown) => axios.isAxiosError(error) && error.response?.status === 401;
+
+// The request never got a response, as opposed to the server answering with an error
+export const isNetworkError = (error: unknown) => axios.isAxiosError(error) && !error.response;
+
+// The parts of the root ConversationStore that feature stores depend on.
+// Typed separately so child models don't import the root model and create a cycle.
+export interface DashboardHost {
+  // Current Filters serialized as query params for the server's filterData
+  readonly filterParams: Record<string, unknown>;
+  // Time zone the filters' dates and the charts' buckets are read in
+  readonly timeZone: string;
+  readonly offline: boolean;
+  // Offline fallback data: calls in the selected date range, and calls matching every filter
+  readonly periodConversations: ConversationRecord[];
+  readonly filteredConversations: ConversationRecord[];
+  // Calls matching every filter in the previous period; undefined without a date range
+  readonly comparisonConversations?: ConversationRecord[];
+  readonly repeatContactIndex: RepeatContactIndex;
+}
+
+export const getDashboard = (node: IAnyStateTreeNode): DashboardHost =>
+  getRoot<IAnyStateTreeNode>(node) as unknown as DashboardHost;
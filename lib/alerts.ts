@@ -0,0 +1,150 @@
+import { ConversationRecord } from './types';
+import { MetricKey, METRICS_BY_KEY, calculateAgentMetrics, getMetricDefinition } from './metrics';
+import { RepeatContactIndex, buildRepeatContactIndex } from './repeatContacts';
+import { isObject } from './validation';
+
+// Agent health guardrails: per-metric rules evaluated against each agent's KPIs.
+// The server serves the flagged agents at /api/alerts and the dashboard shows
+// them as a banner and as badges next to the agent.
+
+export type AlertOperator = 'below' | 'above';
+
+export type AlertSeverity = 'warning' | 'critical';
+
+export const ALERT_OPERATORS: AlertOperator[] = ['below', 'above'];
+
+export const ALERT_SEVERITIES: AlertSeverity[] = ['warning', 'critical'];
+
+export interface AlertRule {
+  id: string;
+  metric: MetricKey;
+  operator: AlertOperator;
+  threshold: number;
+  // Only look at each agent's most recent N calls; all matching calls when omitted
+  window?: number;
+  // Agents with fewer calls than this are not evaluated, to avoid flagging on noise
+  minCalls?: number;
+  severity: AlertSeverity;
+}
+
+export interface AgentAlert {
+  agent: string;
+  ruleId: string;
+  metric: MetricKey;
+  operator: AlertOperator;
+  threshold: number;
+  severity: AlertSeverity;
+  value: number;
+  // Number of calls the value was calculated from
+  calls: number;
+  message: string;
+}
+
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  {
+    id: 'low-success-rate',
+    metric: 'successRate',
+    operator: 'below',
+    threshold: 15,
+    window: 50,
+    minCalls: 20,
+    severity: 'critical',
+  },
+  {
+    id: 'slow-total-latency',
+    metric: 'totalLatencyP95',
+    operator: 'above',
+    threshold: 1700,
+    window: 50,
+    minCalls: 20,
+    severity: 'warning',
+  },
+];
+
+const isPositiveInteger = (value: unknown) =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+// Returns a description of what is wrong with the rule, or undefined when it is valid
+export function validateAlertRule(rule: unknown): string | undefined {
+  if (!isObject(rule)) return 'rule must be an object';
+  if (typeof rule.id !== 'string' || rule.id.trim() === '') return 'rule id must be a non-empty string';
+  if (!METRICS_BY_KEY[rule.metric as MetricKey]) return `rule ${rule.id}: unknown metric "${rule.metric}"`;
+  if (ALERT_OPERATORS.indexOf(rule.operator) === -1) {
+    return `rule ${rule.id}: operator must be one of ${ALERT_OPERATORS.join(', ')}`;
+  }
+  if (typeof rule.threshold !== 'number' || !isFinite(rule.threshold)) {
+    return `rule ${rule.id}: threshold must be a number`;
+  }
+  if (rule.window !== undefined && !isPositiveInteger(rule.window)) {
+    return `rule ${rule.id}: window must be a positive integer`;
+  }
+  if (rule.minCalls !== undefined && !isPositiveInteger(rule.minCalls)) {
+    return `rule ${rule.id}: minCalls must be a positive integer`;
+  }
+  if (ALERT_SEVERITIES.indexOf(rule.severity) === -1) {
+    return `rule ${rule.id}: severity must be one of ${ALERT_SEVERITIES.join(', ')}`;
+  }
+  return undefined;
+}
+
+// Each agent's most recent `window` calls
+function takeRecentCalls(data: ConversationRecord[], window: number): ConversationRecord[] {
+  const byAgent: { [agent: string]: ConversationRecord[] } = {};
+  data.forEach(call => {
+    if (!byAgent[call.agent]) {
+      byAgent[call.agent] = [];
+    }
+    byAgent[call.agent].push(call);
+  });
+
+  const recent: ConversationRecord[] = [];
+  Object.keys(byAgent).forEach(agent => {
+    const calls = byAgent[agent].slice().sort((a, b) => b.startTime - a.startTime);
+    recent.push(...calls.slice(0, window));
+  });
+  return recent;
+}
+
+const UNIT_SUFFIXES: { [format: string]: string } = { percentage: '%', ms: 'ms', time: 's' };
+
+const breaches = (rule: AlertRule, value: number) =>
+  rule.operator === 'below' ? value < rule.threshold : value > rule.threshold;
+
+// Evaluate every rule over the per-agent KPIs and return one alert per breached rule and agent
+export function evaluateAlertRules(
+  data: ConversationRecord[],
+  rules: AlertRule[],
+  repeatContacts?: RepeatContactIndex
+): AgentAlert[] {
+  const alerts: AgentAlert[] = [];
+  // Built before windowing so callbacks after an agent's recent calls are still seen
+  const repeatIndex = repeatContacts || buildRepeatContactIndex(data);
+
+  rules.forEach(rule => {
+    const agentMetrics = calculateAgentMetrics(rule.window ? takeRecentCalls(data, rule.window) : data, repeatIndex);
+    const definition = getMetricDefinition(rule.metric);
+    const unit = UNIT_SUFFIXES[definition.format] || '';
+
+    Object.keys(agentMetrics).sort().forEach(agent => {
+      const metrics = agentMetrics[agent];
+      if (rule.minCalls && metrics.totalCalls < rule.minCalls) return;
+
+      const value = metrics[rule.metric];
+      if (!breaches(rule, value)) return;
+
+      alerts.push({
+        agent,
+        ruleId: rule.id,
+        metric: rule.metric,
+        operator: rule.operator,
+        threshold: rule.threshold,
+        severity: rule.severity,
+        value,
+        calls: metrics.totalCalls,
+        message: `${definition.label} is ${value}${unit} (${rule.operator} ${rule.threshold}${unit}) over the ${rule.window ? 'last ' : ''}${metrics.totalCalls} calls`,
+      });
+    });
+  });
+
+  return alerts;
+}
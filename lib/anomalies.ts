@@ -0,0 +1,331 @@
+import { AlertSeverity } from './alerts';
+import { MetricKey, Metrics, formatMetricValue, getMetricDefinition } from './metrics';
+import { TimeSeries } from './timeseries';
+import { DEFAULT_TIME_ZONE, addDays, toZonedDateString } from './timezone';
+
+// Anomaly detection on daily KPIs. Every day is compared with a rolling baseline of
+// the days before it, overall and per agent; a day whose value is more than
+// `threshold` standard deviations from the baseline mean is reported, together with
+// the agents and call types that account for most of the change.
+
+// The KPIs that are checked every day
+export const ANOMALY_METRICS: MetricKey[] = [
+  'totalCalls',
+  'successRate',
+  'abandonmentRate',
+  'transferRate',
+  'avgCostPerCall',
+  'avgHandleTime',
+  'avgTotalLatency',
+  'avgInterruptions',
+];
+
+export interface AnomalyOptions {
+  // Calendar days before each day that make up its baseline
+  windowDays: number;
+  // Standard deviations from the baseline mean at which a day is reported
+  threshold: number;
+  // Days with fewer calls are neither checked nor used as baseline (call volume is always checked)
+  minCalls: number;
+}
+
+export const DEFAULT_ANOMALY_OPTIONS: AnomalyOptions = {
+  windowDays: 14,
+  threshold: 3,
+  minCalls: 5,
+};
+
+export const MAX_ANOMALY_WINDOW_DAYS = 90;
+
+// A day is only checked once its baseline has this many days
+export const MIN_BASELINE_DAYS = 5;
+
+// Anomalies this far beyond the threshold are critical
+const CRITICAL_THRESHOLD_FACTOR = 1.5;
+
+// Keeps a perfectly steady baseline from turning a tiny change into a huge z-score
+const MIN_RELATIVE_DEVIATION = 0.01;
+
+// Contributors reported per dimension
+const MAX_CONTRIBUTORS = 3;
+
+export type AnomalyDimension = 'agent' | 'callType';
+
+export interface AnomalyContributor {
+  dimension: AnomalyDimension;
+  value: string;
+  // The slice's KPI on the day and over the baseline days
+  dayValue: number;
+  baseline: number;
+  calls: number;
+  // Estimated part of the change in the anomalous KPI that comes from this slice,
+  // in the KPI's own unit
+  impact: number;
+}
+
+export interface Anomaly {
+  id: string;
+  date: string;
+  metric: MetricKey;
+  // Undefined for the KPIs of all filtered calls
+  agent?: string;
+  value: number;
+  baseline: number;
+  standardDeviation: number;
+  zScore: number;
+  direction: 'up' | 'down';
+  // Whether the change is for the worse; undefined for KPIs without a better direction
+  regression?: boolean;
+  severity: AlertSeverity;
+  // Calls on the day
+  calls: number;
+  // Largest contributors first; call types only for agent anomalies
+  contributors: AnomalyContributor[];
+  message: string;
+}
+
+// Response shape of /api/anomalies
+export interface AnomalyReport {
+  options: AnomalyOptions;
+  anomalies: Anomaly[];
+}
+
+// Returns a description of what is wrong with the options, or undefined when they are valid
+export function validateAnomalyOptions(options: AnomalyOptions): string | undefined {
+  if (!Number.isInteger(options.windowDays) || options.windowDays < MIN_BASELINE_DAYS || options.windowDays > MAX_ANOMALY_WINDOW_DAYS) {
+    return `windowDays must be an integer from ${MIN_BASELINE_DAYS} to ${MAX_ANOMALY_WINDOW_DAYS}`;
+  }
+  if (typeof options.threshold !== 'number' || !isFinite(options.threshold) || options.threshold <= 0) {
+    return 'threshold must be a positive number';
+  }
+  if (!Number.isInteger(options.minCalls) || options.minCalls < 1) {
+    return 'minCalls must be a positive integer';
+  }
+  return undefined;
+}
+
+// Daily KPIs of a slice of the filtered calls, narrowed to one agent and/or call type
+export type DailySeriesSource = (slice: { agent?: string; callType?: string }) => TimeSeries;
+
+export interface AnomalyScope {
+  // Agents and call types to check and attribute changes to
+  agents: string[];
+  callTypes: string[];
+  // First day to report; earlier days only serve as baseline
+  from?: string;
+  timeZone?: string;
+}
+
+interface DailyMetrics {
+  byDate: { [date: string]: Metrics };
+  first?: string;
+  last?: string;
+}
+
+// Part of a scope's calls that a change can be attributed to
+interface Slice {
+  dimension: AnomalyDimension;
+  value: string;
+  daily: DailyMetrics;
+}
+
+function toDailyMetrics(series: TimeSeries, timeZone: string): DailyMetrics {
+  const daily: DailyMetrics = { byDate: {} };
+  series.points.forEach(point => {
+    const date = toZonedDateString(point.start, timeZone);
+    daily.byDate[date] = point.metrics;
+    if (!daily.first || date < daily.first) daily.first = date;
+    if (!daily.last || date > daily.last) daily.last = date;
+  });
+  return daily;
+}
+
+// Days of the window before `date` that the series covers
+function getBaselineDates(daily: DailyMetrics, date: string, windowDays: number): string[] {
+  const dates: string[] = [];
+  for (let offset = windowDays; offset >= 1; offset--) {
+    const day = addDays(date, -offset);
+    if (daily.first && day >= daily.first) dates.push(day);
+  }
+  return dates;
+}
+
+const callsOn = (daily: DailyMetrics, date: string) => (daily.byDate[date] ? daily.byDate[date].totalCalls : 0);
+
+// Call volume counts quiet days as zero; other KPIs only use days with enough calls
+function getBaselineValues(daily: DailyMetrics, dates: string[], metric: MetricKey, minCalls: number): number[] {
+  if (metric === 'totalCalls') {
+    return dates.map(date => callsOn(daily, date));
+  }
+  return dates
+    .filter(date => callsOn(daily, date) >= minCalls)
+    .map(date => daily.byDate[date][metric]);
+}
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Sample standard deviation
+function standardDeviation(values: number[], average: number): number {
+  if (values.length < 2) return 0;
+  const variance = values.reduce((sum, value) => sum + (value - average) * (value - average), 0) / (values.length - 1);
+  return Math.sqrt(variance);
+}
+
+// How much of the change on `date` a slice accounts for: the change in its own call
+// volume, or its change in the KPI weighted by its share of the day's calls
+function getContribution(
+  slice: DailyMetrics,
+  scope: DailyMetrics,
+  date: string,
+  dates: string[],
+  metric: MetricKey
+): Omit<AnomalyContributor, 'dimension' | 'value'> | undefined {
+  const calls = callsOn(slice, date);
+  if (metric === 'totalCalls') {
+    const baseline = mean(dates.map(day => callsOn(slice, day)));
+    return { dayValue: calls, baseline, calls, impact: calls - baseline };
+  }
+  if (calls === 0) return undefined;
+
+  // Weighted by calls, so the slice's quiet days don't dominate its baseline
+  let baselineCalls = 0;
+  let baselineTotal = 0;
+  dates.forEach(day => {
+    const dayCalls = callsOn(slice, day);
+    if (dayCalls > 0) {
+      baselineCalls += dayCalls;
+      baselineTotal += slice.byDate[day][metric] * dayCalls;
+    }
+  });
+  if (baselineCalls === 0) return undefined;
+
+  const dayValue = slice.byDate[date][metric];
+  const baseline = baselineTotal / baselineCalls;
+  return { dayValue, baseline, calls, impact: (calls / callsOn(scope, date)) * (dayValue - baseline) };
+}
+
+function findContributors(
+  slices: Slice[],
+  scope: DailyMetrics,
+  date: string,
+  dates: string[],
+  metric: MetricKey,
+  change: number
+): AnomalyContributor[] {
+  const contributors: AnomalyContributor[] = [];
+  slices.forEach(slice => {
+    const contribution = getContribution(slice.daily, scope, date, dates, metric);
+    // Only slices that moved the same way as the anomaly explain it
+    if (contribution && contribution.impact * change > 0) {
+      contributors.push({ dimension: slice.dimension, value: slice.value, ...contribution });
+    }
+  });
+  contributors.sort((a, b) => Math.abs(b.impact) - Math.abs(a.impact));
+
+  const counts: { [dimension: string]: number } = {};
+  return contributors.filter(contributor => {
+    counts[contributor.dimension] = (counts[contributor.dimension] || 0) + 1;
+    return counts[contributor.dimension] <= MAX_CONTRIBUTORS;
+  });
+}
+
+function describeAnomaly(anomaly: Omit<Anomaly, 'message'>): string {
+  const definition = getMetricDefinition(anomaly.metric);
+  const format = (value: number) => formatMetricValue(definition.format, value);
+  const subject = anomaly.agent ? `${anomaly.agent}: ${definition.label}` : definition.label;
+  return `${subject} ${anomaly.direction === 'up' ? 'rose' : 'fell'} to ${format(anomaly.value)} against a baseline of ${format(anomaly.baseline)}`;
+}
+
+// Check every day of one scope's series for every anomaly metric
+function detectScopeAnomalies(
+  daily: DailyMetrics,
+  agent: string | undefined,
+  getSlices: () => Slice[],
+  options: AnomalyOptions,
+  from: string | undefined
+): Anomaly[] {
+  const anomalies: Anomaly[] = [];
+  if (!daily.first || !daily.last) return anomalies;
+
+  // Call volume is checked on quiet days too, so walk every calendar day
+  for (let date = from && from > daily.first ? from : daily.first; date <= daily.last; date = addDays(date, 1)) {
+    const calls = callsOn(daily, date);
+    const dates = getBaselineDates(daily, date, options.windowDays);
+
+    ANOMALY_METRICS.forEach(metric => {
+      if (metric !== 'totalCalls' && calls < options.minCalls) return;
+      const values = getBaselineValues(daily, dates, metric, options.minCalls);
+      if (values.length < MIN_BASELINE_DAYS) return;
+
+      const baseline = mean(values);
+      const deviation = Math.max(standardDeviation(values, baseline), Math.abs(baseline) * MIN_RELATIVE_DEVIATION);
+      if (deviation === 0) return;
+
+      const value = metric === 'totalCalls' ? calls : daily.byDate[date][metric];
+      const zScore = (value - baseline) / deviation;
+      if (Math.abs(zScore) < options.threshold) return;
+
+      const higherIsBetter = getMetricDefinition(metric).higherIsBetter;
+      const anomaly = {
+        id: `${date}:${agent || 'all'}:${metric}`,
+        date,
+        metric,
+        agent,
+        value,
+        baseline,
+        standardDeviation: deviation,
+        zScore,
+        direction: zScore > 0 ? 'up' as const : 'down' as const,
+        regression: higherIsBetter === undefined ? undefined : (zScore > 0) !== higherIsBetter,
+        severity: Math.abs(zScore) >= options.threshold * CRITICAL_THRESHOLD_FACTOR ? 'critical' as const : 'warning' as const,
+        calls,
+        contributors: findContributors(getSlices(), daily, date, dates, metric, value - baseline),
+      };
+      anomalies.push({ ...anomaly, message: describeAnomaly(anomaly) });
+    });
+  }
+  return anomalies;
+}
+
+// Most recent first, then most extreme
+const sortAnomalies = (anomalies: Anomaly[]) => anomalies.sort((a, b) =>
+  a.date !== b.date ? (a.date < b.date ? 1 : -1) : Math.abs(b.zScore) - Math.abs(a.zScore)
+);
+
+// Anomalies overall and per agent, most recent and most extreme first
+export function detectAnomalies(
+  source: DailySeriesSource,
+  scope: AnomalyScope,
+  options: AnomalyOptions = DEFAULT_ANOMALY_OPTIONS
+): Anomaly[] {
+  const timeZone = scope.timeZone || DEFAULT_TIME_ZONE;
+  const load = (slice: { agent?: string; callType?: string }) => toDailyMetrics(source(slice), timeZone);
+
+  const agentSlices: Slice[] = scope.agents.map(agent => ({ dimension: 'agent', value: agent, daily: load({ agent }) }));
+  const callTypeSlices: Slice[] = scope.callTypes.map(callType => ({ dimension: 'callType', value: callType, daily: load({ callType }) }));
+
+  let anomalies = detectScopeAnomalies(
+    load({}),
+    undefined,
+    () => agentSlices.concat(callTypeSlices),
+    options,
+    scope.from
+  );
+
+  // With a single agent the overall series is theirs, so checking it again would repeat every anomaly
+  if (agentSlices.length < 2) return sortAnomalies(anomalies);
+
+  agentSlices.forEach(({ value: agent, daily }) => {
+    // Only split an agent by call type once it has an anomaly to explain
+    let slices: Slice[] | undefined;
+    const getSlices = () => {
+      if (!slices) {
+        slices = scope.callTypes.map((callType): Slice => ({ dimension: 'callType', value: callType, daily: load({ agent, callType }) }));
+      }
+      return slices;
+    };
+    anomalies = anomalies.concat(detectScopeAnomalies(daily, agent, getSlices, options, scope.from));
+  });
+
+  return sortAnomalies(anomalies);
+}
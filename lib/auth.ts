@@ -0,0 +1,157 @@
+import { RepeatCaller } from './repeatContacts';
+import { ConversationRecord } from './types';
+import { isValidTimeZone } from './timezone';
+
+// Roles and what they may do, shared by the server's route guards and the
+// dashboard, which hides the actions a role cannot use.
+//   admin       everything, including users, settings, alert rules, ingestion and digests
+//   supervisor  only their assigned agents' calls; can manage saved views
+//   viewer      every agent, read-only, with caller/callee numbers masked
+
+export type Role = 'admin' | 'supervisor' | 'viewer';
+
+export const ROLES: Role[] = ['admin', 'supervisor', 'viewer'];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: 'Admin',
+  supervisor: 'Supervisor',
+  viewer: 'Viewer',
+};
+
+export type Permission =
+  | 'viewPhoneNumbers'
+  | 'manageViews'
+  | 'manageAlertRules'
+  | 'ingestConversations'
+  | 'manageDigests'
+  | 'manageUsers'
+  | 'manageSettings'
+  | 'debug';
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: [
+    'viewPhoneNumbers',
+    'manageViews',
+    'manageAlertRules',
+    'ingestConversations',
+    'manageDigests',
+    'manageUsers',
+    'manageSettings',
+    'debug',
+  ],
+  supervisor: ['viewPhoneNumbers', 'manageViews'],
+  viewer: [],
+};
+
+// A signed-in user as returned by /api/auth/me; never includes the password hash
+export interface AuthUser {
+  id: string;
+  username: string;
+  name: string;
+  role: Role;
+  // Agents a supervisor is assigned to; only set for supervisors
+  agents?: string[];
+  // Overrides the organization time zone for this user's dates
+  timeZone?: string;
+}
+
+// Body of POST /api/users and PUT /api/users/:id
+export interface UserInput {
+  username: string;
+  name: string;
+  role: Role;
+  agents?: string[];
+  // Kept on update when omitted; null clears it
+  timeZone?: string;
+  // Required when creating a user; keeps the current password on update when omitted
+  password?: string;
+}
+
+export interface UserValidationResult {
+  user?: UserInput;
+  errors: string[];
+}
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+const USERNAME_PATTERN = /^[a-zA-Z0-9._-]{3,32}$/;
+
+export function hasPermission(role: Role, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].indexOf(permission) !== -1;
+}
+
+// Agents the user may see, or undefined when they may see every agent
+export function getAllowedAgents(user: AuthUser): string[] | undefined {
+  return user.role === 'supervisor' ? user.agents || [] : undefined;
+}
+
+// Keeps the last four digits: "+14449178731" -> "+*******8731"
+export function maskPhoneNumber(number: string): string {
+  let digitsLeft = number.replace(/[^0-9]/g, '').length;
+  return number.replace(/[0-9]/g, digit => (digitsLeft-- > 4 ? '*' : digit));
+}
+
+export function maskConversation(record: ConversationRecord): ConversationRecord {
+  return {
+    ...record,
+    callInfo: {
+      ...record.callInfo,
+      caller: maskPhoneNumber(record.callInfo.caller),
+      callee: maskPhoneNumber(record.callInfo.callee),
+    },
+  };
+}
+
+export function maskRepeatCaller(caller: RepeatCaller): RepeatCaller {
+  return { ...caller, number: maskPhoneNumber(caller.number) };
+}
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+export function validateUserInput(value: unknown, { requirePassword }: { requirePassword: boolean }): UserValidationResult {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { errors: ['user must be an object'] };
+  }
+  const input = value as { [key: string]: any };
+  const errors: string[] = [];
+
+  const username = typeof input.username === 'string' ? input.username.trim() : '';
+  if (!USERNAME_PATTERN.test(username)) {
+    errors.push('username must be 3-32 letters, digits, dots, dashes or underscores');
+  }
+  const name = typeof input.name === 'string' && input.name.trim() !== '' ? input.name.trim() : username;
+
+  const role = input.role;
+  if (ROLES.indexOf(role) === -1) {
+    errors.push(`role must be one of ${ROLES.join(', ')}`);
+  }
+
+  let agents: string[] | undefined;
+  if (role === 'supervisor') {
+    if (!isStringArray(input.agents) || input.agents.length === 0) {
+      errors.push('supervisors need a non-empty agents array');
+    } else {
+      agents = input.agents.slice();
+    }
+  } else if (input.agents !== undefined) {
+    errors.push('only supervisors are assigned agents');
+  }
+
+  const timeZone = input.timeZone === null || input.timeZone === '' ? undefined : input.timeZone;
+  if (timeZone !== undefined && (typeof timeZone !== 'string' || !isValidTimeZone(timeZone))) {
+    errors.push(`Unknown time zone "${timeZone}"`);
+  }
+
+  const password = input.password;
+  if (password !== undefined || requirePassword) {
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      errors.push(`password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    }
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+  return { errors, user: { username, name, role, agents, timeZone, password } };
+}
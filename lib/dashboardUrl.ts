@@ -0,0 +1,156 @@
+import {
+  DEFAULT_DURATION_THRESHOLDS,
+  DateRange,
+  DurationThresholds,
+  NUMERIC_FILTER_FIELDS,
+  NumericRange,
+  NumericRanges,
+  TimeOfDayWindow,
+  isDurationBucket,
+  parseClockTime,
+} from './filters';
+import { isValidTimeZone } from './timezone';
+import { DEFAULT_REPEAT_WINDOW_HOURS } from './repeatContacts';
+import { CallStatus, isCallStatus } from './types';
+import { parseQuery } from './query';
+
+// Dashboard state carried in the page's query string so a view can be shared as a link.
+// Lists are comma separated and defaults are left out to keep links short, e.g.
+// ?start=2025-01-01&end=2025-01-31&agents=agent_1,agent_2&duration=long&charts=latency
+// Numeric ranges are written as min..max with either side left empty, e.g. interruptions=4..
+
+export type AgentChartsTab = 'overview' | 'outcomes' | 'cost' | 'latency' | 'leaderboard';
+
+export const AGENT_CHARTS_TABS: AgentChartsTab[] = ['overview', 'outcomes', 'cost', 'latency', 'leaderboard'];
+
+const isAgentChartsTab = (value: unknown): value is AgentChartsTab => AGENT_CHARTS_TABS.some(tab => tab === value);
+
+export interface DashboardUrlState {
+  dateRange?: DateRange;
+  agents: string[];
+  callTypes: string[];
+  statuses: CallStatus[];
+  durationBuckets: string[];
+  durationThresholds: DurationThresholds;
+  timeOfDay?: TimeOfDayWindow;
+  ranges: NumericRanges;
+  // Query language expression; dropped when it does not parse
+  query: string;
+  repeatWindowHours: number;
+  // Open tab of the agent analytics modal; the modal is closed when unset
+  agentChartsTab?: AgentChartsTab;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const splitList = (value: string | null) => (value ? value.split(',').filter(item => item !== '') : []);
+
+const formatRange = (range: NumericRange) =>
+  `${range.min !== undefined ? range.min : ''}..${range.max !== undefined ? range.max : ''}`;
+
+function parseRange(value: string | null): NumericRange | undefined {
+  const bounds = value ? value.split('..') : [];
+  if (bounds.length !== 2) return undefined;
+  const range: NumericRange = {};
+  if (bounds[0] !== '') range.min = Number(bounds[0]);
+  if (bounds[1] !== '') range.max = Number(bounds[1]);
+  const valid = (bound?: number) => bound === undefined || isFinite(bound);
+  if (!valid(range.min) || !valid(range.max) || (range.min === undefined && range.max === undefined)) return undefined;
+  if (range.min !== undefined && range.max !== undefined && range.min > range.max) return undefined;
+  return range;
+}
+
+export function serializeDashboardState(state: DashboardUrlState): string {
+  const params = new URLSearchParams();
+  if (state.dateRange) {
+    params.set('start', state.dateRange.start);
+    params.set('end', state.dateRange.end);
+  }
+  if (state.agents.length > 0) params.set('agents', state.agents.join(','));
+  if (state.callTypes.length > 0) params.set('callTypes', state.callTypes.join(','));
+  if (state.statuses.length > 0) params.set('statuses', state.statuses.join(','));
+  if (state.durationBuckets.length > 0) {
+    params.set('duration', state.durationBuckets.join(','));
+    if (state.durationThresholds.shortMax !== DEFAULT_DURATION_THRESHOLDS.shortMax) {
+      params.set('shortMax', String(state.durationThresholds.shortMax));
+    }
+    if (state.durationThresholds.longMin !== DEFAULT_DURATION_THRESHOLDS.longMin) {
+      params.set('longMin', String(state.durationThresholds.longMin));
+    }
+  }
+  if (state.timeOfDay) {
+    params.set('from', state.timeOfDay.start);
+    params.set('to', state.timeOfDay.end);
+    params.set('tz', state.timeOfDay.timeZone);
+  }
+  NUMERIC_FILTER_FIELDS.forEach(field => {
+    const range = state.ranges[field];
+    if (range && (range.min !== undefined || range.max !== undefined)) {
+      params.set(field, formatRange(range));
+    }
+  });
+  if (state.query) params.set('q', state.query);
+  if (state.repeatWindowHours !== DEFAULT_REPEAT_WINDOW_HOURS) {
+    params.set('repeatWindow', String(state.repeatWindowHours));
+  }
+  if (state.agentChartsTab) params.set('charts', state.agentChartsTab);
+  // Commas are safe in a query string and keep the lists readable
+  return params.toString().replace(/%2C/g, ',');
+}
+
+// Read state from a query string. Malformed parameters are dropped rather than
+// rejected, since links get truncated and hand-edited.
+export function parseDashboardState(search: string): DashboardUrlState {
+  const params = new URLSearchParams(search);
+  const state: DashboardUrlState = {
+    agents: splitList(params.get('agents')),
+    callTypes: splitList(params.get('callTypes')),
+    statuses: splitList(params.get('statuses')).filter(isCallStatus),
+    durationBuckets: splitList(params.get('duration')).filter(isDurationBucket),
+    durationThresholds: { ...DEFAULT_DURATION_THRESHOLDS },
+    ranges: {},
+    query: '',
+    repeatWindowHours: DEFAULT_REPEAT_WINDOW_HOURS,
+  };
+
+  const query = (params.get('q') || '').trim();
+  if (query && parseQuery(query).errors.length === 0) {
+    state.query = query;
+  }
+
+  NUMERIC_FILTER_FIELDS.forEach(field => {
+    const range = parseRange(params.get(field));
+    if (range) state.ranges[field] = range;
+  });
+
+  const start = params.get('start');
+  const end = params.get('end');
+  if (start && end && DATE_PATTERN.test(start) && DATE_PATTERN.test(end) && start <= end) {
+    state.dateRange = { start, end };
+  }
+
+  const shortMax = Number(params.get('shortMax') ?? DEFAULT_DURATION_THRESHOLDS.shortMax);
+  const longMin = Number(params.get('longMin') ?? DEFAULT_DURATION_THRESHOLDS.longMin);
+  if (isFinite(shortMax) && isFinite(longMin) && shortMax >= 0 && shortMax <= longMin) {
+    state.durationThresholds = { shortMax, longMin };
+  }
+
+  const from = params.get('from');
+  const to = params.get('to');
+  const timeZone = params.get('tz');
+  if (from && to && timeZone && !isNaN(parseClockTime(from)) && !isNaN(parseClockTime(to)) && isValidTimeZone(timeZone)) {
+    state.timeOfDay = { start: from, end: to, timeZone };
+  }
+
+  const repeatWindowHours = Number(params.get('repeatWindow'));
+  if (isFinite(repeatWindowHours) && repeatWindowHours > 0) {
+    state.repeatWindowHours = repeatWindowHours;
+  }
+
+  const tab = params.get('charts');
+  if (isAgentChartsTab(tab)) {
+    state.agentChartsTab = tab;
+  }
+
+  return state;
+}
@@ -0,0 +1,142 @@
+import { DateRange } from './filters';
+import { AgentMetrics, MetricDelta, MetricKey, Metrics, calculateMetricDelta } from './metrics';
+import { DEFAULT_TIME_ZONE, addDays, getDaysSinceMonday, toZonedDateString } from './timezone';
+
+// Daily and weekly management digests. The server's scheduler picks the period,
+// computes metrics for it and the period before, and buildDigest turns them into
+// the headline KPIs, best and worst agents and biggest movers.
+
+export type DigestPeriod = 'daily' | 'weekly';
+
+export const DIGEST_PERIODS: DigestPeriod[] = ['daily', 'weekly'];
+
+export const DIGEST_PERIOD_LABELS: Record<DigestPeriod, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+};
+
+// KPIs listed at the top of every digest
+export const DIGEST_HEADLINE_METRICS: MetricKey[] = [
+  'totalCalls',
+  'successRate',
+  'totalCost',
+  'avgCostPerSuccessfulCall',
+  'firstCallResolutionRate',
+  'abandonmentRate',
+  'avgHandleTime',
+  'avgTotalLatency',
+];
+
+// Agents are ranked by this metric for the top/bottom lists and movers
+export const DIGEST_RANKING_METRIC: MetricKey = 'successRate';
+
+// Agents with fewer calls in a period are left out of rankings, where a handful of calls would dominate
+export const DEFAULT_DIGEST_MIN_CALLS = 5;
+
+// Number of agents in each of the top, bottom and movers lists
+export const DIGEST_LIST_SIZE = 3;
+
+export interface DigestHeadline {
+  key: MetricKey;
+  value: number;
+  previous: number;
+  delta: MetricDelta;
+}
+
+export interface DigestAgent {
+  agent: string;
+  totalCalls: number;
+  value: number;
+}
+
+export interface DigestMover extends DigestAgent {
+  previous: number;
+  delta: MetricDelta;
+}
+
+export interface Digest {
+  period: DigestPeriod;
+  range: DateRange;
+  previousRange: DateRange;
+  // Zone the calendar dates of both ranges are in
+  timeZone: string;
+  generatedAt: number;
+  headlines: DigestHeadline[];
+  rankingMetric: MetricKey;
+  minCalls: number;
+  topAgents: DigestAgent[];
+  bottomAgents: DigestAgent[];
+  // Largest changes of the ranking metric against the previous period, biggest first
+  movers: DigestMover[];
+}
+
+export interface DigestInput {
+  period: DigestPeriod;
+  range: DateRange;
+  previousRange: DateRange;
+  metrics: Metrics;
+  previousMetrics: Metrics;
+  agentMetrics: AgentMetrics;
+  previousAgentMetrics: AgentMetrics;
+  minCalls?: number;
+  timeZone?: string;
+  generatedAt?: number;
+}
+
+// The last complete period before now in the time zone: yesterday, or last Monday to Sunday
+export function getDigestRange(
+  period: DigestPeriod,
+  now: number = Date.now(),
+  timeZone: string = DEFAULT_TIME_ZONE
+): DateRange {
+  const today = toZonedDateString(now, timeZone);
+  if (period === 'daily') {
+    return { start: addDays(today, -1), end: addDays(today, -1) };
+  }
+  const weekStart = addDays(today, -getDaysSinceMonday(today));
+  return { start: addDays(weekStart, -7), end: addDays(weekStart, -1) };
+}
+
+export function buildDigest(input: DigestInput): Digest {
+  const minCalls = input.minCalls !== undefined ? input.minCalls : DEFAULT_DIGEST_MIN_CALLS;
+  const key = DIGEST_RANKING_METRIC;
+
+  const ranked: DigestAgent[] = Object.keys(input.agentMetrics)
+    .filter(agent => input.agentMetrics[agent].totalCalls >= minCalls)
+    .map(agent => ({ agent, totalCalls: input.agentMetrics[agent].totalCalls, value: input.agentMetrics[agent][key] }))
+    .sort((a, b) => b.value - a.value || b.totalCalls - a.totalCalls || a.agent.localeCompare(b.agent));
+
+  const movers: DigestMover[] = ranked
+    .filter(agent => {
+      const previous = input.previousAgentMetrics[agent.agent];
+      return previous !== undefined && previous.totalCalls >= minCalls;
+    })
+    .map(agent => {
+      const previous = input.previousAgentMetrics[agent.agent][key];
+      return { ...agent, previous, delta: calculateMetricDelta(key, agent.value, previous) };
+    })
+    .filter(mover => mover.delta.absolute !== 0)
+    .sort((a, b) => Math.abs(b.delta.absolute) - Math.abs(a.delta.absolute) || a.agent.localeCompare(b.agent))
+    .slice(0, DIGEST_LIST_SIZE);
+
+  return {
+    period: input.period,
+    range: input.range,
+    previousRange: input.previousRange,
+    timeZone: input.timeZone || DEFAULT_TIME_ZONE,
+    generatedAt: input.generatedAt !== undefined ? input.generatedAt : Date.now(),
+    headlines: DIGEST_HEADLINE_METRICS.map(metric => ({
+      key: metric,
+      value: input.metrics[metric],
+      previous: input.previousMetrics[metric],
+      delta: calculateMetricDelta(metric, input.metrics[metric], input.previousMetrics[metric]),
+    })),
+    rankingMetric: key,
+    minCalls,
+    topAgents: ranked.slice(0, DIGEST_LIST_SIZE),
+    // Lowest first; agents already listed at the top are not repeated when there are few of them
+    bottomAgents: ranked.slice(DIGEST_LIST_SIZE).reverse().slice(0, DIGEST_LIST_SIZE),
+    movers,
+  };
+}
+
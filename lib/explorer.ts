@@ -0,0 +1,59 @@
+import { ConversationPage, ConversationRecord } from './types';
+
+// Search, sort and pagination for the conversation explorer. The server applies
+// these after filterData; the store reuses them for its offline fallback.
+
+export type ExplorerSortField = 'startTime' | 'duration' | 'cost';
+
+export type SortOrder = 'asc' | 'desc';
+
+export const EXPLORER_SORT_FIELDS: ExplorerSortField[] = ['startTime', 'duration', 'cost'];
+
+export const DEFAULT_PAGE_SIZE = 25;
+
+export const MAX_PAGE_SIZE = 500;
+
+export interface ExplorerQuery {
+  page: number;
+  pageSize: number;
+  sortField: ExplorerSortField;
+  sortOrder: SortOrder;
+  search?: string;
+}
+
+// Match the conversation id or caller/callee numbers; digits-only search ignores "+" and spacing
+export function matchesSearch(call: ConversationRecord, search: string): boolean {
+  const term = search.trim().toLowerCase();
+  if (!term) return true;
+
+  if (call.id.toLowerCase().indexOf(term) !== -1) return true;
+
+  // Only phone-number-like terms are compared against caller/callee
+  if (!/^[0-9+\-\s()]+$/.test(term)) return false;
+  const digits = term.replace(/[^0-9]/g, '');
+  if (!digits) return false;
+  const numbers = [call.callInfo.caller, call.callInfo.callee];
+  return numbers.some(number => number.replace(/[^0-9]/g, '').indexOf(digits) !== -1);
+}
+
+export function sortConversations(
+  data: ConversationRecord[],
+  sortField: ExplorerSortField,
+  sortOrder: SortOrder
+): ConversationRecord[] {
+  const direction = sortOrder === 'asc' ? 1 : -1;
+  return data.slice().sort((a, b) => (a[sortField] - b[sortField]) * direction);
+}
+
+export function queryConversations(data: ConversationRecord[], query: ExplorerQuery): ConversationPage {
+  const matched = query.search ? data.filter(call => matchesSearch(call, query.search as string)) : data;
+  const sorted = sortConversations(matched, query.sortField, query.sortOrder);
+  const offset = query.page * query.pageSize;
+
+  return {
+    rows: sorted.slice(offset, offset + query.pageSize),
+    total: matched.length,
+    page: query.page,
+    pageSize: query.pageSize,
+  };
+}
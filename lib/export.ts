@@ -0,0 +1,112 @@
+import { AgentMetrics, METRIC_DEFINITIONS, Metrics } from './metrics';
+import { ConversationRecord } from './types';
+
+// Row layouts for GET /api/export. The server renders them as CSV, NDJSON or
+// XLSX; keeping them here means every format has the same columns.
+
+export type ExportFormat = 'csv' | 'ndjson' | 'xlsx';
+
+// conversations: one row per filtered call; agents: KPIs per agent; metrics: one row per KPI
+export type ExportDataset = 'conversations' | 'agents' | 'metrics';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'ndjson', 'xlsx'];
+
+export const EXPORT_DATASETS: ExportDataset[] = ['conversations', 'agents', 'metrics'];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+export type ExportValue = string | number | null;
+
+export interface ExportColumn<T> {
+  key: string;
+  header: string;
+  value: (row: T) => ExportValue;
+}
+
+export const CONVERSATION_EXPORT_COLUMNS: ExportColumn<ConversationRecord>[] = [
+  { key: 'id', header: 'ID', value: call => call.id },
+  { key: 'agent', header: 'Agent', value: call => call.agent },
+  { key: 'startTime', header: 'Start Time (UTC)', value: call => new Date(call.startTime).toISOString() },
+  { key: 'duration', header: 'Duration (s)', value: call => call.duration },
+  { key: 'cost', header: 'Cost ($)', value: call => call.cost },
+  { key: 'status', header: 'Status', value: call => call.status },
+  { key: 'type', header: 'Call Type', value: call => call.callInfo.type },
+  { key: 'caller', header: 'Caller', value: call => call.callInfo.caller },
+  { key: 'callee', header: 'Callee', value: call => call.callInfo.callee },
+  { key: 'llmLatency', header: 'LLM Latency (ms)', value: call => (call.callInfo.stats ? call.callInfo.stats.llmLatency : null) },
+  { key: 'ttsLatency', header: 'TTS Latency (ms)', value: call => (call.callInfo.stats ? call.callInfo.stats.ttsLatency : null) },
+  { key: 'interruptions', header: 'Interruptions', value: call => (call.callInfo.stats ? call.callInfo.stats.interruptions : null) },
+];
+
+export interface AgentExportRow {
+  agent: string;
+  metrics: Metrics;
+}
+
+export const AGENT_EXPORT_COLUMNS: ExportColumn<AgentExportRow>[] = [
+  { key: 'agent', header: 'Agent', value: row => row.agent },
+  ...METRIC_DEFINITIONS.map(definition => ({
+    key: definition.key,
+    header: definition.label,
+    value: (row: AgentExportRow) => row.metrics[definition.key],
+  })),
+];
+
+export interface MetricExportRow {
+  key: string;
+  label: string;
+  value: number;
+}
+
+export const METRIC_EXPORT_COLUMNS: ExportColumn<MetricExportRow>[] = [
+  { key: 'key', header: 'Key', value: row => row.key },
+  { key: 'label', header: 'Metric', value: row => row.label },
+  { key: 'value', header: 'Value', value: row => row.value },
+];
+
+export function toAgentExportRows(agentMetrics: AgentMetrics): AgentExportRow[] {
+  return Object.keys(agentMetrics).sort().map(agent => ({ agent, metrics: agentMetrics[agent] }));
+}
+
+export function toMetricExportRows(metrics: Metrics): MetricExportRow[] {
+  return METRIC_DEFINITIONS.map(definition => ({
+    key: definition.key,
+    label: definition.label,
+    value: metrics[definition.key],
+  }));
+}
+
+// Text a spreadsheet app would evaluate as a formula. Phone numbers such as
+// "+14449178731", or "+*******8731" when masked, start with "+" but are harmless.
+const isFormulaLike = (text: string) =>
+  /^[=@\t\r]/.test(text) || (/^[+\-]/.test(text) && !/^[+\-][0-9*\s()\-]*$/.test(text));
+
+// RFC 4180 quoting; formula-like text gets a leading apostrophe so opening the file can't run it
+export function toCsvField(value: ExportValue): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number') return isFinite(value) ? String(value) : '';
+  const text = isFormulaLike(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsvLine(values: ExportValue[]): string {
+  return values.map(toCsvField).join(',') + '\r\n';
+}
+
+export function toExportValues<T>(columns: ExportColumn<T>[], row: T): ExportValue[] {
+  return columns.map(column => column.value(row));
+}
+
+// NDJSON rows for the aggregated datasets, keyed by column key rather than header;
+// conversations are written as the stored records instead
+export function toExportObject<T>(columns: ExportColumn<T>[], row: T): { [key: string]: ExportValue } {
+  const object: { [key: string]: ExportValue } = {};
+  columns.forEach(column => {
+    object[column.key] = column.value(row);
+  });
+  return object;
+}
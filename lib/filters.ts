@@ -0,0 +1,221 @@
+import { ConversationRecord } from './types';
+import { DEFAULT_TIME_ZONE, addDays, getDaysSinceMonday, toZonedDateString } from './timezone';
+
+// Filter dimensions shared by the Express server's filterData and the store's
+// offline filteredConversations. Duration buckets classify calls by length;
+// the time-of-day window classifies them by wall-clock start time in a zone;
+// numeric ranges bound cost, latency and interruptions.
+
+// Inclusive calendar date range in YYYY-MM-DD format
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDateString = (time: number) => new Date(time).toISOString().split('T')[0];
+
+// The equally long range that ends the day before the given range starts
+export function getPreviousPeriod(range: DateRange): DateRange {
+  const start = new Date(`${range.start}T00:00:00.000Z`).getTime();
+  const end = new Date(`${range.end}T00:00:00.000Z`).getTime();
+  const days = Math.round((end - start) / DAY_MS) + 1;
+  return {
+    start: toDateString(start - days * DAY_MS),
+    end: toDateString(start - DAY_MS),
+  };
+}
+
+// Date ranges that move with the calendar, resolved to whole days in the dashboard's time zone
+export type RelativeDateRange = 'today' | 'yesterday' | 'last7Days' | 'last30Days' | 'thisWeek' | 'thisMonth' | 'lastMonth';
+
+export const RELATIVE_DATE_RANGES: RelativeDateRange[] = [
+  'today',
+  'yesterday',
+  'last7Days',
+  'last30Days',
+  'thisWeek',
+  'thisMonth',
+  'lastMonth',
+];
+
+export const isRelativeDateRange = (value: unknown): value is RelativeDateRange =>
+  RELATIVE_DATE_RANGES.some(range => range === value);
+
+export const RELATIVE_DATE_RANGE_LABELS: Record<RelativeDateRange, string> = {
+  today: 'Today',
+  yesterday: 'Yesterday',
+  last7Days: 'Last 7 days',
+  last30Days: 'Last 30 days',
+  thisWeek: 'This week',
+  thisMonth: 'This month',
+  lastMonth: 'Last month',
+};
+
+// The calendar dates a relative range covers on the day of `now` in the time zone; weeks start on Monday
+export function resolveRelativeDateRange(
+  range: RelativeDateRange,
+  now: number = Date.now(),
+  timeZone: string = DEFAULT_TIME_ZONE
+): DateRange {
+  const today = toZonedDateString(now, timeZone);
+  const monthStart = `${today.slice(0, 7)}-01`;
+  switch (range) {
+    case 'today':
+      return { start: today, end: today };
+    case 'yesterday':
+      return { start: addDays(today, -1), end: addDays(today, -1) };
+    case 'last7Days':
+      return { start: addDays(today, -6), end: today };
+    case 'last30Days':
+      return { start: addDays(today, -29), end: today };
+    case 'thisWeek':
+      return { start: addDays(today, -getDaysSinceMonday(today)), end: today };
+    case 'thisMonth':
+      return { start: monthStart, end: today };
+    case 'lastMonth': {
+      const lastMonthEnd = addDays(monthStart, -1);
+      return { start: `${lastMonthEnd.slice(0, 7)}-01`, end: lastMonthEnd };
+    }
+  }
+}
+
+export type DurationBucket = 'short' | 'medium' | 'long';
+
+export const DURATION_BUCKETS: DurationBucket[] = ['short', 'medium', 'long'];
+
+export const isDurationBucket = (value: unknown): value is DurationBucket =>
+  DURATION_BUCKETS.some(bucket => bucket === value);
+
+// Calls shorter than shortMax seconds are short, calls of at least longMin seconds are long
+export interface DurationThresholds {
+  shortMax: number;
+  longMin: number;
+}
+
+export const DEFAULT_DURATION_THRESHOLDS: DurationThresholds = {
+  shortMax: 120,
+  longMin: 300,
+};
+
+// Wall-clock window in "HH:mm" format; a start later than the end wraps past midnight
+export interface TimeOfDayWindow {
+  start: string;
+  end: string;
+  timeZone: string;
+}
+
+export function getDurationBucket(
+  duration: number,
+  thresholds: DurationThresholds = DEFAULT_DURATION_THRESHOLDS
+): DurationBucket {
+  if (duration < thresholds.shortMax) return 'short';
+  if (duration >= thresholds.longMin) return 'long';
+  return 'medium';
+}
+
+export function matchesDurationBuckets(
+  call: ConversationRecord,
+  buckets: string[],
+  thresholds: DurationThresholds = DEFAULT_DURATION_THRESHOLDS
+): boolean {
+  if (buckets.length === 0) return true;
+  return buckets.indexOf(getDurationBucket(call.duration, thresholds)) !== -1;
+}
+
+export function formatDurationBucketLabel(
+  bucket: DurationBucket,
+  thresholds: DurationThresholds = DEFAULT_DURATION_THRESHOLDS
+): string {
+  const toMinutes = (seconds: number) => `${Math.round((seconds / 60) * 10) / 10} min`;
+  switch (bucket) {
+    case 'short': return `Short Calls (< ${toMinutes(thresholds.shortMax)})`;
+    case 'medium': return `Medium Calls (${toMinutes(thresholds.shortMax)} - ${toMinutes(thresholds.longMin)})`;
+    case 'long': return `Long Calls (>= ${toMinutes(thresholds.longMin)})`;
+  }
+}
+
+// Parse "HH:mm" into minutes since midnight; returns NaN for malformed input
+export function parseClockTime(value: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+  if (!match) return NaN;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return NaN;
+  return hours * 60 + minutes;
+}
+
+// Creating an Intl formatter is expensive, so keep one per time zone
+const clockFormatters: { [timeZone: string]: Intl.DateTimeFormat } = {};
+
+const getClockFormatter = (timeZone: string) => {
+  if (!clockFormatters[timeZone]) {
+    clockFormatters[timeZone] = new Intl.DateTimeFormat('en-GB', {
+      timeZone,
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: false,
+    });
+  }
+  return clockFormatters[timeZone];
+};
+
+// Minutes since local midnight of a timestamp in the given IANA time zone
+export function getMinutesOfDay(timestamp: number, timeZone: string = DEFAULT_TIME_ZONE): number {
+  const formatted = getClockFormatter(timeZone).format(new Date(timestamp));
+  const [hours, minutes] = formatted.split(':').map(Number);
+  // Some engines render midnight as 24:00 when hour12 is disabled
+  return (hours % 24) * 60 + minutes;
+}
+
+export function matchesTimeOfDay(call: ConversationRecord, window: TimeOfDayWindow): boolean {
+  const start = parseClockTime(window.start);
+  const end = parseClockTime(window.end);
+  if (isNaN(start) || isNaN(end)) return true;
+
+  const minutes = getMinutesOfDay(call.startTime, window.timeZone);
+  if (start <= end) {
+    return minutes >= start && minutes <= end;
+  }
+  return minutes >= start || minutes <= end;
+}
+
+export type NumericFilterField = 'cost' | 'llmLatency' | 'ttsLatency' | 'interruptions';
+
+export const NUMERIC_FILTER_FIELDS: NumericFilterField[] = ['cost', 'llmLatency', 'ttsLatency', 'interruptions'];
+
+export const isNumericFilterField = (value: unknown): value is NumericFilterField =>
+  NUMERIC_FILTER_FIELDS.some(field => field === value);
+
+export const NUMERIC_FILTER_LABELS: Record<NumericFilterField, string> = {
+  cost: 'Cost ($)',
+  llmLatency: 'LLM Latency (ms)',
+  ttsLatency: 'TTS Latency (ms)',
+  interruptions: 'Interruptions',
+};
+
+// Inclusive bounds; either side may be left open
+export interface NumericRange {
+  min?: number;
+  max?: number;
+}
+
+export type NumericRanges = Partial<Record<NumericFilterField, NumericRange>>;
+
+// Latency and interruptions are undefined for calls without stats
+export function getNumericFilterValue(call: ConversationRecord, field: NumericFilterField): number | undefined {
+  if (field === 'cost') return call.cost;
+  return call.callInfo.stats ? call.callInfo.stats[field] : undefined;
+}
+
+// Calls without a value for a bounded field never match that range
+export function matchesNumericRanges(call: ConversationRecord, ranges: NumericRanges): boolean {
+  return NUMERIC_FILTER_FIELDS.every(field => {
+    const range = ranges[field];
+    if (!range || (range.min === undefined && range.max === undefined)) return true;
+    const value = getNumericFilterValue(call, field);
+    if (value === undefined) return false;
+    return (range.min === undefined || value >= range.min) && (range.max === undefined || value <= range.max);
+  });
+}
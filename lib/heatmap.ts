@@ -0,0 +1,64 @@
+import { ConversationRecord } from './types';
+import { MetricKey, Metrics, calculateMetrics } from './metrics';
+import { RepeatContactIndex, buildRepeatContactIndex } from './repeatContacts';
+import { DEFAULT_TIME_ZONE, getZonedWeekdayAndHour } from './timezone';
+
+// KPIs per weekday and hour of the day, on the wall clock of a time zone, to show
+// when calls are answered and resolved best.
+
+export const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+// The metrics the heatmap can be coloured by
+export const HEATMAP_METRICS: MetricKey[] = ['totalCalls', 'successRate', 'avgCostPerCall'];
+
+export interface HeatmapCell {
+  // 0 is Monday
+  weekday: number;
+  // 0-23
+  hour: number;
+  metrics: Metrics;
+}
+
+// Response shape of /api/metrics/heatmap
+export interface Heatmap {
+  timeZone: string;
+  cells: HeatmapCell[];
+}
+
+// One number per weekday and hour, Monday 00:00 being 0, so cells can be grouped by it
+export function getHeatmapSlot(timestamp: number, timeZone: string = DEFAULT_TIME_ZONE): number {
+  const { weekday, hour } = getZonedWeekdayAndHour(timestamp, timeZone);
+  return weekday * 24 + hour;
+}
+
+export const toHeatmapCell = (slot: number, metrics: Metrics): HeatmapCell => ({
+  weekday: Math.floor(slot / 24),
+  hour: slot % 24,
+  metrics,
+});
+
+// Group conversations by weekday and hour and calculate every metric per cell.
+// Cells without calls are omitted rather than reported as zero.
+export function calculateHeatmap(
+  data: ConversationRecord[],
+  repeatContacts?: RepeatContactIndex,
+  timeZone: string = DEFAULT_TIME_ZONE
+): Heatmap {
+  const repeatIndex = repeatContacts || buildRepeatContactIndex(data);
+  const groups: { [slot: number]: ConversationRecord[] } = {};
+
+  data.forEach(call => {
+    const slot = getHeatmapSlot(call.startTime, timeZone);
+    if (!groups[slot]) {
+      groups[slot] = [];
+    }
+    groups[slot].push(call);
+  });
+
+  const cells = Object.keys(groups)
+    .map(Number)
+    .sort((a, b) => a - b)
+    .map(slot => toHeatmapCell(slot, calculateMetrics(groups[slot], repeatIndex)));
+
+  return { timeZone, cells };
+}
@@ -0,0 +1,164 @@
+import { AgentMetrics, Metrics, getMetricDefinition } from './metrics';
+import { isObject } from './validation';
+
+// Agent leaderboard: one composite score per agent from a weighted blend of KPIs.
+// Each KPI is scaled from 0 (worst agent) to 100 (best agent) among the ranked
+// agents, so weights compare like with like whatever the metric's unit.
+
+export type ScoreMetric =
+  | 'successRate'
+  | 'avgCostPerSuccessfulCall'
+  | 'avgHandleTime'
+  | 'avgInterruptions'
+  | 'avgTotalLatency';
+
+export const SCORE_METRICS: ScoreMetric[] = [
+  'successRate',
+  'avgCostPerSuccessfulCall',
+  'avgHandleTime',
+  'avgInterruptions',
+  'avgTotalLatency',
+];
+
+// Relative importance of each KPI; only the ratios matter
+export type ScoreWeights = Record<ScoreMetric, number>;
+
+export const DEFAULT_SCORE_WEIGHTS: ScoreWeights = {
+  successRate: 40,
+  avgCostPerSuccessfulCall: 20,
+  avgHandleTime: 15,
+  avgInterruptions: 10,
+  avgTotalLatency: 15,
+};
+
+// Agents with fewer calls are listed but not ranked, to avoid ranking on noise
+export const DEFAULT_LEADERBOARD_MIN_CALLS = 5;
+
+export interface LeaderboardEntry {
+  agent: string;
+  // 1 for the best agent; undefined below minCalls
+  rank?: number;
+  // Composite score from 0 to 100
+  score?: number;
+  // Per-KPI scores from 0 to 100 that make up the composite
+  components?: Record<ScoreMetric, number>;
+  metrics: Metrics;
+  // Rank in the comparison period; undefined when the agent was not ranked then
+  previousRank?: number;
+  // Places gained since the comparison period (negative when the agent dropped)
+  rankChange?: number;
+}
+
+// Response shape of /api/leaderboard
+export interface Leaderboard {
+  weights: ScoreWeights;
+  minCalls: number;
+  // Ranked agents first, best first; then unranked agents by call volume
+  entries: LeaderboardEntry[];
+  comparisonPeriod?: { start: string; end: string };
+}
+
+// Returns a description of what is wrong with the weights, or undefined when they are valid
+export function validateScoreWeights(weights: unknown): string | undefined {
+  if (!isObject(weights)) return 'weights must be an object';
+  const unknown = Object.keys(weights).filter(key => !SCORE_METRICS.some(metric => metric === key));
+  if (unknown.length > 0) return `unknown score metric "${unknown[0]}"`;
+  const invalid = SCORE_METRICS.find(metric => typeof weights[metric] !== 'number' || !isFinite(weights[metric]) || weights[metric] < 0);
+  if (invalid) return `weight for ${invalid} must be a number of at least 0`;
+  if (SCORE_METRICS.every(metric => weights[metric] === 0)) return 'at least one weight must be above 0';
+  return undefined;
+}
+
+// Cost per successful call is 0 for an agent with no successful calls, which is no achievement
+const hasValue = (metric: ScoreMetric, metrics: Metrics) =>
+  metric !== 'avgCostPerSuccessfulCall' || metrics.successRate > 0;
+
+interface ScoredAgent {
+  agent: string;
+  score: number;
+  components: Record<ScoreMetric, number>;
+}
+
+// Composite scores of the agents with at least minCalls calls, best first
+function scoreAgents(agentMetrics: AgentMetrics, weights: ScoreWeights, minCalls: number): ScoredAgent[] {
+  const agents = Object.keys(agentMetrics).filter(agent => agentMetrics[agent].totalCalls >= minCalls);
+  const totalWeight = SCORE_METRICS.reduce((sum, metric) => sum + weights[metric], 0);
+
+  const components: { [agent: string]: Record<ScoreMetric, number> } = {};
+  agents.forEach(agent => {
+    components[agent] = {} as Record<ScoreMetric, number>;
+  });
+
+  SCORE_METRICS.forEach(metric => {
+    const higherIsBetter = getMetricDefinition(metric).higherIsBetter !== false;
+    const values = agents.filter(agent => hasValue(metric, agentMetrics[agent])).map(agent => agentMetrics[agent][metric]);
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    agents.forEach(agent => {
+      const metrics = agentMetrics[agent];
+      let component: number;
+      if (!hasValue(metric, metrics)) {
+        component = 0;
+      } else if (max === min) {
+        // Nothing to tell the agents apart on
+        component = 100;
+      } else {
+        const position = (metrics[metric] - min) / (max - min);
+        component = (higherIsBetter ? position : 1 - position) * 100;
+      }
+      components[agent][metric] = Math.round(component * 10) / 10;
+    });
+  });
+
+  return agents
+    .map(agent => {
+      const weighted = SCORE_METRICS.reduce((sum, metric) => sum + components[agent][metric] * weights[metric], 0);
+      return {
+        agent,
+        score: totalWeight > 0 ? Math.round((weighted / totalWeight) * 10) / 10 : 0,
+        components: components[agent],
+      };
+    })
+    // Ties go to the agent with more calls, then alphabetically
+    .sort((a, b) =>
+      b.score - a.score
+      || agentMetrics[b.agent].totalCalls - agentMetrics[a.agent].totalCalls
+      || a.agent.localeCompare(b.agent)
+    );
+}
+
+// Ranks agents by composite score, with each agent's movement since the comparison period
+export function buildLeaderboard(
+  agentMetrics: AgentMetrics,
+  previousAgentMetrics: AgentMetrics | undefined,
+  weights: ScoreWeights = DEFAULT_SCORE_WEIGHTS,
+  minCalls: number = DEFAULT_LEADERBOARD_MIN_CALLS
+): Leaderboard {
+  const previousRanks: { [agent: string]: number } = {};
+  if (previousAgentMetrics) {
+    scoreAgents(previousAgentMetrics, weights, minCalls).forEach((scored, index) => {
+      previousRanks[scored.agent] = index + 1;
+    });
+  }
+
+  const ranked: LeaderboardEntry[] = scoreAgents(agentMetrics, weights, minCalls).map((scored, index) => {
+    const rank = index + 1;
+    const previousRank = previousRanks[scored.agent];
+    return {
+      agent: scored.agent,
+      rank,
+      score: scored.score,
+      components: scored.components,
+      metrics: agentMetrics[scored.agent],
+      previousRank,
+      rankChange: previousRank !== undefined ? previousRank - rank : undefined,
+    };
+  });
+
+  const unranked: LeaderboardEntry[] = Object.keys(agentMetrics)
+    .filter(agent => agentMetrics[agent].totalCalls < minCalls)
+    .sort((a, b) => agentMetrics[b].totalCalls - agentMetrics[a].totalCalls || a.localeCompare(b))
+    .map(agent => ({ agent, metrics: agentMetrics[agent] }));
+
+  return { weights, minCalls, entries: ranked.concat(unranked) };
+}
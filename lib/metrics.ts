@@ -0,0 +1,504 @@
+import { CallStatus, ConversationRecord } from './types';
+import { HistogramBin, buildHistogram, percentile } from './stats';
+import { RepeatCaller, RepeatContactIndex, buildRepeatContactIndex } from './repeatContacts';
+
+// Single source of truth for every KPI shown on the dashboard and returned by
+// the API. The Express server, ConversationStore and AgentChartsModal all go
+// through calculateMetrics so the numbers always agree.
+
+export type LatencySource = 'llm' | 'tts' | 'total';
+
+export type LatencyPercentile = 50 | 90 | 95 | 99;
+
+export const LATENCY_SOURCES: LatencySource[] = ['llm', 'tts', 'total'];
+
+export const LATENCY_PERCENTILES: LatencyPercentile[] = [50, 90, 95, 99];
+
+// e.g. llmLatencyP95, totalLatencyP99
+export type LatencyPercentileKey = `${LatencySource}LatencyP${LatencyPercentile}`;
+
+export type MetricKey =
+  | 'avgCostPerCall'
+  | 'avgCostPerMin'
+  | 'successRate'
+  | 'failureRate'
+  | 'transferRate'
+  | 'abandonmentRate'
+  | 'avgInterruptions'
+  | 'avgLLMLatency'
+  | 'avgTTSLatency'
+  | 'avgTotalLatency'
+  | 'firstCallResolutionRate'
+  | 'repeatContactRate'
+  | 'avgCostPerSuccessfulCall'
+  | 'avgHandleTime'
+  | 'totalCalls'
+  | 'totalCost'
+  | LatencyPercentileKey;
+
+export type MetricFormat = 'number' | 'currency' | 'percentage' | 'time' | 'ms' | 'integer';
+
+export type Metrics = Record<MetricKey, number>;
+
+export type AgentMetrics = Record<string, Metrics>;
+
+// Metrics for the comparison window of a period-over-period view
+export interface MetricsComparison {
+  period: { start: string; end: string };
+  metrics: Metrics;
+}
+
+// Latency histograms of the calls that reported stats; bins share the same width and origin
+export type LatencyDistribution = Record<LatencySource, HistogramBin[]>;
+
+// Response shape of /api/summary
+export interface MetricsSummary {
+  metrics: Metrics;
+  agentMetrics: AgentMetrics;
+  latencyDistribution: LatencyDistribution;
+  // Customers who called back within the repeat window, most repeats first
+  repeatCallers: RepeatCaller[];
+  comparison?: MetricsComparison;
+}
+
+export interface MetricDelta {
+  absolute: number;
+  // Relative change in percent; undefined when the previous value is zero
+  relative?: number;
+}
+
+// Response shape of /api/conversations/:id
+export interface ConversationDetail {
+  conversation: ConversationRecord;
+  // The agent's KPIs over the same period, for comparison with this call
+  agentMetrics: Metrics;
+  period?: { start: string; end: string };
+}
+
+// Aggregates collected in a single pass over the data; every metric is derived from these
+export interface MetricContext {
+  totalCalls: number;
+  totalCost: number;
+  totalDuration: number;
+  answeredCalls: number;
+  successfulCalls: number;
+  successfulCost: number;
+  transferredCalls: number;
+  abandonedCalls: number;
+  failedCalls: number;
+  // Successful calls the customer did not come back after within the repeat window
+  firstContactResolutions: number;
+  // Calls that repeat an earlier contact from the same customer within the window
+  repeatContacts: number;
+  callsWithStats: number;
+  totalInterruptions: number;
+  totalLLMLatency: number;
+  totalTTSLatency: number;
+  // Latency percentiles of calls that reported stats
+  latencyPercentiles: Record<LatencyPercentileKey, number>;
+}
+
+export interface MetricDefinition {
+  key: MetricKey;
+  label: string;
+  description: string;
+  format: MetricFormat;
+  // Number of decimal places kept in API responses and store views
+  precision: number;
+  // Whether an increase is an improvement; undefined for volume metrics with no good direction
+  higherIsBetter?: boolean;
+  // Statuses of the calls the metric is about; used to drill into matching conversations
+  statuses?: CallStatus[];
+  compute: (ctx: MetricContext) => number;
+}
+
+const ratio = (numerator: number, denominator: number) =>
+  denominator > 0 ? numerator / denominator : 0;
+
+const percentage = (numerator: number, denominator: number) =>
+  ratio(numerator, denominator) * 100;
+
+const LATENCY_SOURCE_LABELS: Record<LatencySource, string> = {
+  llm: 'LLM',
+  tts: 'TTS',
+  total: 'Total',
+};
+
+export function getLatencyPercentileKey(source: LatencySource, p: LatencyPercentile): LatencyPercentileKey {
+  return `${source}LatencyP${p}` as LatencyPercentileKey;
+}
+
+const latencyPercentileDefinitions = (): MetricDefinition[] => {
+  const definitions: MetricDefinition[] = [];
+  LATENCY_SOURCES.forEach(source => {
+    LATENCY_PERCENTILES.forEach(p => {
+      definitions.push({
+        key: getLatencyPercentileKey(source, p),
+        label: `${LATENCY_SOURCE_LABELS[source]} Latency p${p}`,
+        description: `${p}th percentile of ${source === 'total' ? 'LLM + TTS' : LATENCY_SOURCE_LABELS[source]} latency across calls that reported stats`,
+        format: 'ms',
+        precision: 0,
+        higherIsBetter: false,
+        compute: (ctx) => ctx.latencyPercentiles[getLatencyPercentileKey(source, p)],
+      });
+    });
+  });
+  return definitions;
+};
+
+export const METRIC_DEFINITIONS: MetricDefinition[] = [
+  {
+    key: 'avgCostPerCall',
+    label: 'Avg Cost per Call',
+    description: 'Total cost divided by the number of calls',
+    format: 'currency',
+    precision: 2,
+    higherIsBetter: false,
+    compute: (ctx) => ratio(ctx.totalCost, ctx.totalCalls),
+  },
+  {
+    key: 'avgCostPerMin',
+    label: 'Avg Cost per Minute',
+    description: 'Total cost divided by total call minutes',
+    format: 'currency',
+    precision: 2,
+    higherIsBetter: false,
+    compute: (ctx) => ratio(ctx.totalCost, ctx.totalDuration / 60),
+  },
+  {
+    key: 'successRate',
+    label: 'Success Rate',
+    description: 'Share of calls with status "success"',
+    format: 'percentage',
+    precision: 1,
+    higherIsBetter: true,
+    statuses: ['success'],
+    compute: (ctx) => percentage(ctx.successfulCalls, ctx.totalCalls),
+  },
+  {
+    key: 'failureRate',
+    label: 'Failure Rate',
+    description: 'Share of calls that hit a busy line',
+    format: 'percentage',
+    precision: 1,
+    higherIsBetter: false,
+    statuses: ['busy'],
+    compute: (ctx) => percentage(ctx.failedCalls, ctx.totalCalls),
+  },
+  {
+    key: 'transferRate',
+    label: 'Transfer Rate',
+    description: 'Share of calls transferred to another party',
+    format: 'percentage',
+    precision: 1,
+    higherIsBetter: false,
+    statuses: ['transfer'],
+    compute: (ctx) => percentage(ctx.transferredCalls, ctx.totalCalls),
+  },
+  {
+    key: 'abandonmentRate',
+    label: 'Abandonment Rate',
+    description: 'Share of calls that were dropped or never answered',
+    format: 'percentage',
+    precision: 1,
+    higherIsBetter: false,
+    statuses: ['dropped', 'no_answer'],
+    compute: (ctx) => percentage(ctx.abandonedCalls, ctx.totalCalls),
+  },
+  {
+    key: 'avgInterruptions',
+    label: 'Avg Interruptions per Call',
+    description: 'Mean interruptions across calls that reported stats',
+    format: 'number',
+    precision: 2,
+    higherIsBetter: false,
+    compute: (ctx) => ratio(ctx.totalInterruptions, ctx.callsWithStats),
+  },
+  {
+    key: 'avgLLMLatency',
+    label: 'Avg LLM Latency',
+    description: 'Mean LLM latency across calls that reported stats',
+    format: 'ms',
+    precision: 0,
+    higherIsBetter: false,
+    compute: (ctx) => ratio(ctx.totalLLMLatency, ctx.callsWithStats),
+  },
+  {
+    key: 'avgTTSLatency',
+    label: 'Avg TTS Latency',
+    description: 'Mean TTS latency across calls that reported stats',
+    format: 'ms',
+    precision: 0,
+    higherIsBetter: false,
+    compute: (ctx) => ratio(ctx.totalTTSLatency, ctx.callsWithStats),
+  },
+  {
+    key: 'avgTotalLatency',
+    label: 'Avg Total Latency',
+    description: 'Mean LLM + TTS latency across calls that reported stats',
+    format: 'ms',
+    precision: 0,
+    higherIsBetter: false,
+    compute: (ctx) => ratio(ctx.totalLLMLatency + ctx.totalTTSLatency, ctx.callsWithStats),
+  },
+  {
+    key: 'firstCallResolutionRate',
+    label: 'First Call Resolution Rate',
+    description: 'Share of calls that succeeded and were not followed by another contact from the same customer within the repeat window',
+    format: 'percentage',
+    precision: 1,
+    higherIsBetter: true,
+    statuses: ['success'],
+    compute: (ctx) => percentage(ctx.firstContactResolutions, ctx.totalCalls),
+  },
+  {
+    key: 'repeatContactRate',
+    label: 'Repeat Contact Rate',
+    description: 'Share of calls from a customer who was already in touch within the repeat window',
+    format: 'percentage',
+    precision: 1,
+    higherIsBetter: false,
+    compute: (ctx) => percentage(ctx.repeatContacts, ctx.totalCalls),
+  },
+  {
+    key: 'avgCostPerSuccessfulCall',
+    label: 'Avg Cost per Successful Call',
+    description: 'Mean cost of calls with status "success"',
+    format: 'currency',
+    precision: 2,
+    higherIsBetter: false,
+    statuses: ['success'],
+    compute: (ctx) => ratio(ctx.successfulCost, ctx.successfulCalls),
+  },
+  {
+    key: 'avgHandleTime',
+    label: 'Avg Handle Time',
+    description: 'Mean duration of calls that were answered (duration > 0)',
+    format: 'time',
+    precision: 0,
+    higherIsBetter: false,
+    compute: (ctx) => ratio(ctx.totalDuration, ctx.answeredCalls),
+  },
+  {
+    key: 'totalCalls',
+    label: 'Total Calls',
+    description: 'Number of calls',
+    format: 'integer',
+    precision: 0,
+    compute: (ctx) => ctx.totalCalls,
+  },
+  {
+    key: 'totalCost',
+    label: 'Total Cost',
+    description: 'Sum of call costs',
+    format: 'currency',
+    precision: 2,
+    higherIsBetter: false,
+    compute: (ctx) => ctx.totalCost,
+  },
+  ...latencyPercentileDefinitions(),
+];
+
+export const METRICS_BY_KEY = METRIC_DEFINITIONS.reduce((acc, definition) => {
+  acc[definition.key] = definition;
+  return acc;
+}, {} as Record<MetricKey, MetricDefinition>);
+
+export function getMetricDefinition(key: MetricKey): MetricDefinition {
+  return METRICS_BY_KEY[key];
+}
+
+export function calculateMetricDelta(key: MetricKey, current: number, previous: number): MetricDelta {
+  const precision = METRICS_BY_KEY[key].precision;
+  return {
+    absolute: roundMetric(current - previous, precision),
+    relative: previous !== 0 ? roundMetric(((current - previous) / Math.abs(previous)) * 100, 1) : undefined,
+  };
+}
+
+export function roundMetric(value: number, precision: number): number {
+  const factor = Math.pow(10, precision);
+  return Math.round(value * factor) / factor;
+}
+
+// Display form of a metric value, matching the dashboard's KPI cards
+export function formatMetricValue(format: MetricFormat, value: number): string {
+  switch (format) {
+    case 'currency':
+      return `$${value.toFixed(2)}`;
+    case 'percentage':
+      return `${value.toFixed(1)}%`;
+    case 'time':
+      return `${Math.floor(value / 60)}m ${Math.round(value % 60)}s`;
+    case 'ms':
+      return `${value.toFixed(0)}ms`;
+    case 'integer':
+      return Math.round(value).toString();
+    default:
+      return value.toFixed(2);
+  }
+}
+
+// Per-call latencies of the calls that reported stats, each sorted ascending
+function collectLatencies(data: ConversationRecord[]): Record<LatencySource, number[]> {
+  const latencies: Record<LatencySource, number[]> = { llm: [], tts: [], total: [] };
+  data.forEach(call => {
+    const stats = call.callInfo?.stats;
+    if (stats) {
+      latencies.llm.push(stats.llmLatency || 0);
+      latencies.tts.push(stats.ttsLatency || 0);
+      latencies.total.push((stats.llmLatency || 0) + (stats.ttsLatency || 0));
+    }
+  });
+
+  LATENCY_SOURCES.forEach(source => {
+    latencies[source].sort((a, b) => a - b);
+  });
+  return latencies;
+}
+
+// Every latency percentile metric, given the p-th percentile of a latency source
+export function buildLatencyPercentiles(
+  percentileOf: (source: LatencySource, p: LatencyPercentile) => number
+): Record<LatencyPercentileKey, number> {
+  const percentiles = {} as Record<LatencyPercentileKey, number>;
+  LATENCY_SOURCES.forEach(source => {
+    LATENCY_PERCENTILES.forEach(p => {
+      percentiles[getLatencyPercentileKey(source, p)] = percentileOf(source, p);
+    });
+  });
+  return percentiles;
+}
+
+// Repeat contacts are looked up in the index when given; otherwise they are detected within
+// data itself, which misses repeats that fall outside it (e.g. another agent or a later date)
+export function buildMetricContext(data: ConversationRecord[], repeatContacts?: RepeatContactIndex): MetricContext {
+  const repeatIndex = repeatContacts || buildRepeatContactIndex(data);
+  const latencies = collectLatencies(data);
+  const ctx: MetricContext = {
+    totalCalls: data.length,
+    totalCost: 0,
+    totalDuration: 0,
+    answeredCalls: 0,
+    successfulCalls: 0,
+    successfulCost: 0,
+    transferredCalls: 0,
+    abandonedCalls: 0,
+    failedCalls: 0,
+    firstContactResolutions: 0,
+    repeatContacts: 0,
+    callsWithStats: 0,
+    totalInterruptions: 0,
+    totalLLMLatency: 0,
+    totalTTSLatency: 0,
+    latencyPercentiles: buildLatencyPercentiles((source, p) => percentile(latencies[source], p)),
+  };
+
+  data.forEach(call => {
+    ctx.totalCost += call.cost;
+
+    if (call.duration > 0) {
+      ctx.answeredCalls += 1;
+      ctx.totalDuration += call.duration;
+    }
+
+    switch (call.status) {
+      case 'success':
+        ctx.successfulCalls += 1;
+        ctx.successfulCost += call.cost;
+        if (!repeatIndex.followedByRepeat[call.id]) {
+          ctx.firstContactResolutions += 1;
+        }
+        break;
+      case 'transfer':
+        ctx.transferredCalls += 1;
+        break;
+      case 'dropped':
+      case 'no_answer':
+        ctx.abandonedCalls += 1;
+        break;
+      default:
+        // busy and any unknown status count as failures
+        ctx.failedCalls += 1;
+    }
+
+    if (repeatIndex.isRepeat[call.id]) {
+      ctx.repeatContacts += 1;
+    }
+
+    const stats = call.callInfo?.stats;
+    if (stats) {
+      ctx.callsWithStats += 1;
+      ctx.totalInterruptions += stats.interruptions || 0;
+      ctx.totalLLMLatency += stats.llmLatency || 0;
+      ctx.totalTTSLatency += stats.ttsLatency || 0;
+    }
+  });
+
+  return ctx;
+}
+
+// Calculate every registered metric for the given conversations
+export function calculateMetrics(data: ConversationRecord[], repeatContacts?: RepeatContactIndex): Metrics {
+  return calculateMetricsFromContext(buildMetricContext(data, repeatContacts));
+}
+
+// Sums of fractional values, which SQLite and JS accumulate with different float error
+type ContextSum = 'totalCost' | 'successfulCost' | 'totalDuration' | 'totalInterruptions' | 'totalLLMLatency' | 'totalTTSLatency';
+
+const CONTEXT_SUMS: ContextSum[] = ['totalCost', 'successfulCost', 'totalDuration', 'totalInterruptions', 'totalLLMLatency', 'totalTTSLatency'];
+
+// Far below a cent, far above float error
+const SUM_PRECISION = 6;
+
+// Derive every registered metric from aggregates collected elsewhere (e.g. by a SQL query).
+// Sums are trimmed first so an average on a rounding boundary comes out the same from every backend.
+export function calculateMetricsFromContext(context: MetricContext): Metrics {
+  const ctx = { ...context };
+  CONTEXT_SUMS.forEach(key => {
+    ctx[key] = roundMetric(context[key], SUM_PRECISION);
+  });
+  const metrics = {} as Metrics;
+
+  METRIC_DEFINITIONS.forEach(definition => {
+    metrics[definition.key] = roundMetric(definition.compute(ctx), definition.precision);
+  });
+
+  return metrics;
+}
+
+// Calculate metrics for each agent present in the data
+export function calculateAgentMetrics(data: ConversationRecord[], repeatContacts?: RepeatContactIndex): AgentMetrics {
+  // Detect repeats across agents, so a customer passed between agents still counts
+  const repeatIndex = repeatContacts || buildRepeatContactIndex(data);
+  const agentGroups: { [agent: string]: ConversationRecord[] } = {};
+
+  data.forEach(call => {
+    if (!agentGroups[call.agent]) {
+      agentGroups[call.agent] = [];
+    }
+    agentGroups[call.agent].push(call);
+  });
+
+  const agentMetrics: AgentMetrics = {};
+  Object.keys(agentGroups).forEach(agent => {
+    agentMetrics[agent] = calculateMetrics(agentGroups[agent], repeatIndex);
+  });
+
+  return agentMetrics;
+}
+
+export const DEFAULT_LATENCY_BIN_SIZE = 100;
+
+// Histogram of LLM, TTS and total latency in fixed-width bins (ms)
+export function calculateLatencyDistribution(
+  data: ConversationRecord[],
+  binSize: number = DEFAULT_LATENCY_BIN_SIZE
+): LatencyDistribution {
+  const latencies = collectLatencies(data);
+  return {
+    llm: buildHistogram(latencies.llm, binSize),
+    tts: buildHistogram(latencies.tts, binSize),
+    total: buildHistogram(latencies.total, binSize),
+  };
+}
@@ -0,0 +1,422 @@
+import { CALL_STATUSES, CALL_TYPES, ConversationRecord } from './types';
+import { DEFAULT_TIME_ZONE, getDayEnd, getDayStart, getZonedTime } from './timezone';
+
+// Query language for conversations, e.g.
+//   status:dropped agent:agent_4 duration>300 stats.interruptions>=3 type:outbound
+// Terms are separated by whitespace and must all match. A term is an optional "-"
+// (negation), a field from the Conversation model, an operator and a value.
+//   :  =  !=     equals; comma separated values match any of them (status:dropped,busy)
+//   > >= < <=    number and date fields only
+// Text fields accept "*" wildcards (caller:+1555*) and "double quoted" values.
+// startTime takes a date (2025-04-01), a date and time, or a timestamp in ms. Dates and
+// times without an offset are read in the dashboard's time zone; a bare date covers the
+// whole day. Calls without stats never match a stats term, so they do match its
+// negation (-stats.interruptions>3, stats.llmLatency!=800).
+
+export type QueryFieldName =
+  | 'id'
+  | 'agent'
+  | 'status'
+  | 'type'
+  | 'caller'
+  | 'callee'
+  | 'startTime'
+  | 'duration'
+  | 'cost'
+  | 'stats.llmLatency'
+  | 'stats.ttsLatency'
+  | 'stats.interruptions';
+
+export type QueryFieldKind = 'text' | 'enum' | 'number' | 'date';
+
+export interface QueryFieldDefinition {
+  name: QueryFieldName;
+  // Other spellings accepted for the field, e.g. its full path in the Conversation model
+  aliases: string[];
+  kind: QueryFieldKind;
+  description: string;
+  // Allowed values of enum fields
+  values?: string[];
+}
+
+export const QUERY_FIELDS: QueryFieldDefinition[] = [
+  { name: 'id', aliases: [], kind: 'text', description: 'Conversation id' },
+  { name: 'agent', aliases: [], kind: 'text', description: 'Agent handling the call' },
+  { name: 'status', aliases: [], kind: 'enum', description: 'Call outcome', values: CALL_STATUSES },
+  { name: 'type', aliases: ['callInfo.type'], kind: 'enum', description: 'Inbound or outbound', values: CALL_TYPES },
+  { name: 'caller', aliases: ['callInfo.caller'], kind: 'text', description: 'Calling number' },
+  { name: 'callee', aliases: ['callInfo.callee'], kind: 'text', description: 'Called number' },
+  { name: 'startTime', aliases: ['date'], kind: 'date', description: 'Call start (date, date and time, or ms)' },
+  { name: 'duration', aliases: [], kind: 'number', description: 'Call length in seconds' },
+  { name: 'cost', aliases: [], kind: 'number', description: 'Call cost in dollars' },
+  {
+    name: 'stats.llmLatency',
+    aliases: ['llmLatency', 'callInfo.stats.llmLatency'],
+    kind: 'number',
+    description: 'LLM latency in ms',
+  },
+  {
+    name: 'stats.ttsLatency',
+    aliases: ['ttsLatency', 'callInfo.stats.ttsLatency'],
+    kind: 'number',
+    description: 'TTS latency in ms',
+  },
+  {
+    name: 'stats.interruptions',
+    aliases: ['interruptions', 'callInfo.stats.interruptions'],
+    kind: 'number',
+    description: 'Times the caller interrupted the agent',
+  },
+];
+
+export type QueryOperator = '=' | '>' | '>=' | '<' | '<=';
+
+const OPERATORS = [':', '>=', '<=', '!=', '=', '>', '<'];
+
+// Inclusive range of numbers a value stands for; a date covers every millisecond of the day
+export interface QueryInterval {
+  from: number;
+  to: number;
+}
+
+export interface QueryTerm {
+  field: QueryFieldName;
+  // ":" is read as "=", and "!=" as a negated "="
+  operator: QueryOperator;
+  negated: boolean;
+  // Values of text and enum fields
+  values: string[];
+  // Values of number and date fields
+  intervals: QueryInterval[];
+}
+
+export interface QueryError {
+  message: string;
+  // Character offsets of the offending text, for highlighting
+  start: number;
+  end: number;
+}
+
+export interface ParsedQuery {
+  terms: QueryTerm[];
+  errors: QueryError[];
+}
+
+const FIELDS_BY_NAME: { [name: string]: QueryFieldDefinition } = {};
+const getFieldNames = (field: QueryFieldDefinition): string[] => [field.name as string].concat(field.aliases);
+
+QUERY_FIELDS.forEach(field => {
+  getFieldNames(field).forEach(name => {
+    FIELDS_BY_NAME[name.toLowerCase()] = field;
+  });
+});
+
+export function findQueryField(name: string): QueryFieldDefinition | undefined {
+  return FIELDS_BY_NAME[name.toLowerCase()];
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+}
+
+// Closest field name for "did you mean" hints
+function suggestField(name: string): string | undefined {
+  const lower = name.toLowerCase();
+  let best: string | undefined;
+  let bestDistance = 3;
+  Object.keys(FIELDS_BY_NAME).forEach(candidate => {
+    const distance = editDistance(lower, candidate);
+    if (distance < bestDistance) {
+      best = FIELDS_BY_NAME[candidate].name;
+      bestDistance = distance;
+    }
+  });
+  return best;
+}
+
+function parseDateInterval(value: string, timeZone: string): QueryInterval | undefined {
+  if (/^\d+$/.test(value)) {
+    return { from: Number(value), to: Number(value) };
+  }
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return isNaN(Date.parse(value)) ? undefined : { from: getDayStart(value, timeZone), to: getDayEnd(value, timeZone) };
+  }
+  // Times without an offset are wall-clock times in the time zone
+  const local = /^(\d{4}-\d{2}-\d{2})T(\d{2}:\d{2}(:\d{2}(\.\d+)?)?)$/.exec(value);
+  if (local) {
+    const timeOfDay = Date.parse(`1970-01-01T${local[2]}Z`);
+    const time = isNaN(Date.parse(local[1])) || isNaN(timeOfDay) ? NaN : getZonedTime(local[1], timeOfDay, timeZone);
+    return isNaN(time) ? undefined : { from: time, to: time };
+  }
+  const time = /^\d{4}-\d{2}-\d{2}T/.test(value) ? Date.parse(value) : NaN;
+  return isNaN(time) ? undefined : { from: time, to: time };
+}
+
+// Split a raw value on commas, keeping quoted values whole
+function splitValues(raw: string): string[] {
+  if (raw.charAt(0) === '"') {
+    return [raw.slice(1, -1)];
+  }
+  return raw.split(',');
+}
+
+function parseTerm(
+  text: string,
+  start: number,
+  end: number,
+  errors: QueryError[],
+  timeZone: string
+): QueryTerm | undefined {
+  const token = text.slice(start, end);
+  const fail = (message: string, from: number = start, to: number = end) => {
+    errors.push({ message, start: from, end: to });
+    return undefined;
+  };
+
+  const negated = token.charAt(0) === '-';
+  const nameStart = negated ? start + 1 : start;
+  const nameMatch = /^[A-Za-z_][A-Za-z0-9_.]*/.exec(text.slice(nameStart, end));
+  if (!nameMatch) {
+    return fail(`Expected a field name at "${token}"`);
+  }
+  const name = nameMatch[0];
+  const nameEnd = nameStart + name.length;
+  const operator = OPERATORS.find(candidate => text.startsWith(candidate, nameEnd));
+
+  const field = findQueryField(name);
+  if (!field) {
+    const suggestion = suggestField(name);
+    return fail(
+      `Unknown field "${name}"${suggestion ? `, did you mean "${suggestion}"?` : ''}`,
+      nameStart,
+      nameEnd
+    );
+  }
+  if (!operator) {
+    return fail(`Expected an operator after "${name}", e.g. ${name}:value`, nameStart, end);
+  }
+
+  const valueStart = nameEnd + operator.length;
+  const raw = text.slice(valueStart, end);
+  if (raw === '') {
+    return fail(`Expected a value after "${name}${operator}"`);
+  }
+
+  const term: QueryTerm = {
+    field: field.name,
+    operator: operator === ':' || operator === '!=' ? '=' : operator as QueryOperator,
+    negated: negated !== (operator === '!='),
+    values: [],
+    intervals: [],
+  };
+  if (raw.charAt(0) === '"' && (raw.length < 2 || raw.charAt(raw.length - 1) !== '"')) {
+    return fail('A quoted value must end at its closing quote', valueStart, end);
+  }
+  const values = splitValues(raw);
+  if (values.some(value => value === '')) {
+    return fail(`Empty value in "${token}"`, valueStart, end);
+  }
+  if (values.length > 1 && term.operator !== '=') {
+    return fail('Only ":", "=" and "!=" accept a list of values', valueStart, end);
+  }
+  if (term.operator !== '=' && (field.kind === 'text' || field.kind === 'enum')) {
+    return fail(`"${operator}" needs a number or date field; ${field.name} is text`, nameEnd, valueStart);
+  }
+
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i];
+    if (field.kind === 'enum') {
+      if (!field.values || field.values.indexOf(value) === -1) {
+        return fail(`${field.name} must be one of ${(field.values || []).join(', ')}; got "${value}"`, valueStart, end);
+      }
+      term.values.push(value);
+    } else if (field.kind === 'text') {
+      term.values.push(value);
+    } else if (field.kind === 'number') {
+      const number = Number(value);
+      if (value.trim() === '' || !isFinite(number)) {
+        return fail(`${field.name} expects a number; got "${value}"`, valueStart, end);
+      }
+      term.intervals.push({ from: number, to: number });
+    } else {
+      const interval = parseDateInterval(value, timeZone);
+      if (!interval) {
+        return fail(`${field.name} expects a date (YYYY-MM-DD), a date and time or a timestamp; got "${value}"`, valueStart, end);
+      }
+      term.intervals.push(interval);
+    }
+  }
+  return term;
+}
+
+// Start and end offsets of each whitespace separated token; whitespace inside quotes is kept
+function tokenize(text: string, errors: QueryError[]): Array<[number, number]> {
+  const tokens: Array<[number, number]> = [];
+  let i = 0;
+  while (i < text.length) {
+    if (/\s/.test(text.charAt(i))) {
+      i++;
+      continue;
+    }
+    const start = i;
+    let inQuotes = false;
+    while (i < text.length && (inQuotes || !/\s/.test(text.charAt(i)))) {
+      if (text.charAt(i) === '"') inQuotes = !inQuotes;
+      i++;
+    }
+    if (inQuotes) {
+      errors.push({ message: 'Missing closing quote', start, end: i });
+      continue;
+    }
+    tokens.push([start, i]);
+  }
+  return tokens;
+}
+
+// Dates in the query are resolved to instants in timeZone
+export function parseQuery(text: string, timeZone: string = DEFAULT_TIME_ZONE): ParsedQuery {
+  const errors: QueryError[] = [];
+  const terms: QueryTerm[] = [];
+  tokenize(text, errors).forEach(([start, end]) => {
+    const term = parseTerm(text, start, end, errors, timeZone);
+    if (term) terms.push(term);
+  });
+  return { terms, errors: errors.sort((a, b) => a.start - b.start) };
+}
+
+export function formatQueryError(error: QueryError): string {
+  return `${error.message} (at character ${error.start + 1})`;
+}
+
+export function getQueryFieldValue(call: ConversationRecord, field: QueryFieldName): string | number | undefined {
+  switch (field) {
+    case 'id': return call.id;
+    case 'agent': return call.agent;
+    case 'status': return call.status;
+    case 'type': return call.callInfo.type;
+    case 'caller': return call.callInfo.caller;
+    case 'callee': return call.callInfo.callee;
+    case 'startTime': return call.startTime;
+    case 'duration': return call.duration;
+    case 'cost': return call.cost;
+    case 'stats.llmLatency': return call.callInfo.stats?.llmLatency;
+    case 'stats.ttsLatency': return call.callInfo.stats?.ttsLatency;
+    case 'stats.interruptions': return call.callInfo.stats?.interruptions;
+  }
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const wildcardPatterns: { [value: string]: RegExp } = {};
+
+// Text values compare exactly and case-sensitively; "*" matches any run of characters
+export function matchesTextValue(actual: string, expected: string): boolean {
+  if (expected.indexOf('*') === -1) return actual === expected;
+  if (!wildcardPatterns[expected]) {
+    wildcardPatterns[expected] = new RegExp(`^${expected.split('*').map(escapeRegExp).join('.*')}$`);
+  }
+  return wildcardPatterns[expected].test(actual);
+}
+
+function matchesInterval(value: number, operator: QueryOperator, interval: QueryInterval): boolean {
+  switch (operator) {
+    case '=': return value >= interval.from && value <= interval.to;
+    case '>': return value > interval.to;
+    case '>=': return value >= interval.from;
+    case '<': return value < interval.from;
+    case '<=': return value <= interval.to;
+  }
+}
+
+function matchesTerm(call: ConversationRecord, term: QueryTerm): boolean {
+  const value = getQueryFieldValue(call, term.field);
+  if (value === undefined) return false;
+  if (typeof value === 'string') {
+    return term.values.some(expected => matchesTextValue(value, expected));
+  }
+  return term.intervals.some(interval => matchesInterval(value, term.operator, interval));
+}
+
+export function matchesQuery(call: ConversationRecord, terms: QueryTerm[]): boolean {
+  return terms.every(term => matchesTerm(call, term) !== term.negated);
+}
+
+// Predicate for a query string; undefined when the query has errors
+export function compileQuery(
+  text: string,
+  timeZone: string = DEFAULT_TIME_ZONE
+): ((call: ConversationRecord) => boolean) | undefined {
+  const { terms, errors } = parseQuery(text, timeZone);
+  if (errors.length > 0) return undefined;
+  return (call) => matchesQuery(call, terms);
+}
+
+export interface QuerySuggestion {
+  label: string;
+  detail?: string;
+  // Replace text[replaceStart, replaceEnd) with insertText to accept the suggestion
+  insertText: string;
+  replaceStart: number;
+  replaceEnd: number;
+}
+
+// Values offered for fields that are not enums, e.g. the known agents
+export type QueryValueOptions = Partial<Record<QueryFieldName, string[]>>;
+
+// Completions for the token under the cursor: field names until an operator is typed, then values
+export function getQuerySuggestions(
+  text: string,
+  cursor: number,
+  valueOptions: QueryValueOptions = {}
+): QuerySuggestion[] {
+  let tokenStart = cursor;
+  while (tokenStart > 0 && !/\s/.test(text.charAt(tokenStart - 1))) tokenStart--;
+  const token = text.slice(tokenStart, cursor);
+  const nameStart = token.charAt(0) === '-' ? tokenStart + 1 : tokenStart;
+  const nameMatch = /^[A-Za-z0-9_.]*/.exec(text.slice(nameStart, cursor));
+  const name = nameMatch ? nameMatch[0] : '';
+  const afterName = nameStart + name.length;
+
+  // Still typing the field name
+  if (afterName === cursor) {
+    const prefix = name.toLowerCase();
+    return QUERY_FIELDS
+      .filter(field => getFieldNames(field).some(alias => alias.toLowerCase().startsWith(prefix)))
+      .map(field => ({
+        label: field.name,
+        detail: field.description,
+        insertText: field.kind === 'text' || field.kind === 'enum' ? `${field.name}:` : field.name,
+        replaceStart: nameStart,
+        replaceEnd: cursor,
+      }));
+  }
+
+  const field = findQueryField(name);
+  const operator = OPERATORS.find(candidate => text.startsWith(candidate, afterName));
+  if (!field || !operator) return [];
+
+  // Complete the last value of a comma separated list
+  const valueStart = afterName + operator.length;
+  const lastComma = text.lastIndexOf(',', cursor - 1);
+  const partStart = lastComma >= valueStart ? lastComma + 1 : valueStart;
+  const partial = text.slice(partStart, cursor);
+  const options = field.values || valueOptions[field.name] || [];
+  return options
+    .filter(option => option.startsWith(partial) && option !== partial)
+    .map(option => ({
+      label: option,
+      insertText: option,
+      replaceStart: partStart,
+      replaceEnd: cursor,
+    }));
+}
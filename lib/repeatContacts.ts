@@ -0,0 +1,95 @@
+import { ConversationRecord } from './types';
+
+// Repeat-contact detection for first call resolution. A call is a repeat when the
+// same customer number got in touch again within the window after an earlier call
+// ended. The customer is the caller on inbound calls and the callee on outbound calls.
+
+export const DEFAULT_REPEAT_WINDOW_HOURS = 168;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface RepeatContactIndex {
+  windowHours: number;
+  // Ids of calls the same customer came back after within the window
+  followedByRepeat: { [id: string]: boolean };
+  // Ids of calls that came within the window after an earlier call from the same customer
+  isRepeat: { [id: string]: boolean };
+}
+
+export interface RepeatCaller {
+  number: string;
+  calls: number;
+  // Calls that were repeats of an earlier contact within the window
+  repeatContacts: number;
+  agents: string[];
+  firstCall: number;
+  lastCall: number;
+}
+
+export function getCustomerNumber(call: ConversationRecord): string {
+  return call.callInfo.type === 'outbound' ? call.callInfo.callee : call.callInfo.caller;
+}
+
+function groupByCustomer(data: ConversationRecord[]): { [number: string]: ConversationRecord[] } {
+  const groups: { [number: string]: ConversationRecord[] } = {};
+  data.forEach(call => {
+    const number = getCustomerNumber(call);
+    if (!groups[number]) {
+      groups[number] = [];
+    }
+    groups[number].push(call);
+  });
+  return groups;
+}
+
+// Build the index over the complete dataset so repeats outside the current filters still count
+export function buildRepeatContactIndex(
+  data: ConversationRecord[],
+  windowHours: number = DEFAULT_REPEAT_WINDOW_HOURS
+): RepeatContactIndex {
+  const index: RepeatContactIndex = { windowHours, followedByRepeat: {}, isRepeat: {} };
+  const windowMs = windowHours * HOUR_MS;
+  const groups = groupByCustomer(data);
+
+  Object.keys(groups).forEach(number => {
+    const calls = groups[number].slice().sort((a, b) => a.startTime - b.startTime);
+    for (let i = 1; i < calls.length; i++) {
+      const previous = calls[i - 1];
+      const previousEnd = previous.startTime + previous.duration * 1000;
+      if (calls[i].startTime - previousEnd <= windowMs) {
+        index.followedByRepeat[previous.id] = true;
+        index.isRepeat[calls[i].id] = true;
+      }
+    }
+  });
+
+  return index;
+}
+
+// Customers with at least one repeat contact among the given calls, most repeats first
+export function findRepeatCallers(data: ConversationRecord[], index: RepeatContactIndex): RepeatCaller[] {
+  const groups = groupByCustomer(data);
+  const callers: RepeatCaller[] = [];
+
+  Object.keys(groups).forEach(number => {
+    const calls = groups[number];
+    const repeatContacts = calls.filter(call => index.isRepeat[call.id]).length;
+    if (repeatContacts === 0) return;
+
+    const agents: string[] = [];
+    calls.forEach(call => {
+      if (agents.indexOf(call.agent) === -1) agents.push(call.agent);
+    });
+    const startTimes = calls.map(call => call.startTime);
+    callers.push({
+      number,
+      calls: calls.length,
+      repeatContacts,
+      agents: agents.sort(),
+      firstCall: Math.min(...startTimes),
+      lastCall: Math.max(...startTimes),
+    });
+  });
+
+  return callers.sort((a, b) => b.repeatContacts - a.repeatContacts || b.lastCall - a.lastCall);
+}
@@ -0,0 +1,115 @@
+import { DateRange } from './filters';
+import { METRIC_DEFINITIONS, MetricDelta, MetricKey, Metrics, calculateMetricDelta } from './metrics';
+import { twoProportionZTest } from './stats';
+import { MAX_VIEW_NAME_LENGTH, SavedViewFilters, validateSavedViewFilters } from './views';
+import { isObject } from './validation';
+
+// Segment comparison: KPIs for two or more filter sets side by side. Every segment
+// is compared with the first one, the baseline. Segments use the saved view filter
+// format, so a saved view can be compared as it is.
+
+export interface Segment {
+  name: string;
+  filters: SavedViewFilters;
+}
+
+export const MIN_SEGMENTS = 2;
+export const MAX_SEGMENTS = 6;
+
+// Differences below this p-value are reported as significant
+export const SIGNIFICANCE_LEVEL = 0.05;
+
+export interface RateSignificance {
+  z: number;
+  pValue: number;
+  significant: boolean;
+}
+
+export interface SegmentMetricDifference extends MetricDelta {
+  // Only for rate metrics, which are proportions of the segment's calls
+  significance?: RateSignificance;
+}
+
+export interface SegmentResult {
+  name: string;
+  // The dates the segment covered, with relative ranges resolved
+  dateRange?: DateRange;
+  metrics: Metrics;
+  // Against the baseline; undefined for the baseline itself
+  differences?: Record<MetricKey, SegmentMetricDifference>;
+}
+
+// Response shape of POST /api/compare
+export interface SegmentComparison {
+  segments: SegmentResult[];
+}
+
+export interface SegmentValidationResult {
+  // Normalized segments; only set when there are no errors
+  segments?: Segment[];
+  errors: string[];
+}
+
+export function validateSegments(value: unknown): SegmentValidationResult {
+  if (!Array.isArray(value) || value.length < MIN_SEGMENTS || value.length > MAX_SEGMENTS) {
+    return { errors: [`segments must be an array of ${MIN_SEGMENTS} to ${MAX_SEGMENTS} segments`] };
+  }
+
+  const errors: string[] = [];
+  const segments = value.map((segment: unknown, index) => {
+    const segmentErrors: string[] = [];
+    if (!isObject(segment)) {
+      errors.push(`segments[${index}]: segment must be an object`);
+      return { name: '', filters: {} as SavedViewFilters };
+    }
+    const name = typeof segment.name === 'string' ? segment.name.trim() : '';
+    if (name === '' || name.length > MAX_VIEW_NAME_LENGTH) {
+      segmentErrors.push(`name must be 1 to ${MAX_VIEW_NAME_LENGTH} characters`);
+    }
+    let filters = {} as SavedViewFilters;
+    if (!isObject(segment.filters)) {
+      segmentErrors.push('filters must be an object');
+    } else {
+      filters = validateSavedViewFilters(segment.filters, segmentErrors);
+    }
+    segmentErrors.forEach(error => errors.push(`segments[${index}]: ${error}`));
+    return { name, filters };
+  });
+
+  return errors.length > 0 ? { errors } : { errors, segments };
+}
+
+// Rate metrics are percentages of all calls, so the call counts behind them can be
+// tested for a real difference
+function testRate(key: MetricKey, baseline: Metrics, metrics: Metrics): RateSignificance | undefined {
+  const test = twoProportionZTest(
+    Math.round((baseline[key] / 100) * baseline.totalCalls),
+    baseline.totalCalls,
+    Math.round((metrics[key] / 100) * metrics.totalCalls),
+    metrics.totalCalls
+  );
+  return test && { ...test, significant: test.pValue < SIGNIFICANCE_LEVEL };
+}
+
+// Adds each segment's differences from the first segment
+export function compareSegments(results: SegmentResult[]): SegmentComparison {
+  const baseline = results[0];
+  return {
+    segments: results.map((result, index) => {
+      if (index === 0) return result;
+      const differences = {} as Record<MetricKey, SegmentMetricDifference>;
+      METRIC_DEFINITIONS.forEach(definition => {
+        const difference: SegmentMetricDifference = calculateMetricDelta(
+          definition.key,
+          result.metrics[definition.key],
+          baseline.metrics[definition.key]
+        );
+        if (definition.format === 'percentage') {
+          difference.significance = testRate(definition.key, baseline.metrics, result.metrics);
+        }
+        differences[definition.key] = difference;
+      });
+      return { ...result, differences };
+    }),
+  };
+}
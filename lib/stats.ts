@@ -0,0 +1,85 @@
+// Small statistics helpers shared by the metrics engine and analytics features.
+
+export interface HistogramBin {
+  // Inclusive lower and exclusive upper bound of the bin
+  start: number;
+  end: number;
+  count: number;
+}
+
+// Ranks (0-based) whose values percentile() interpolates between for the p-th percentile of count values
+export function getPercentileRanks(count: number, p: number): { lower: number; upper: number } {
+  const rank = (p / 100) * (count - 1);
+  return { lower: Math.floor(rank), upper: Math.ceil(rank) };
+}
+
+// Percentile (0-100) of count ascending-sorted values, read through valueAt(rank), using
+// linear interpolation between ranks. Lets a caller that only holds the values at
+// getPercentileRanks() compute the same result as percentile().
+export function percentileOf(count: number, p: number, valueAt: (rank: number) => number): number {
+  if (count === 0) return 0;
+  if (count === 1) return valueAt(0);
+
+  const rank = (p / 100) * (count - 1);
+  const { lower, upper } = getPercentileRanks(count, p);
+  return valueAt(lower) + (valueAt(upper) - valueAt(lower)) * (rank - lower);
+}
+
+// Percentile (0-100) of an ascending-sorted array using linear interpolation between ranks
+export function percentile(sorted: number[], p: number): number {
+  return percentileOf(sorted.length, p, rank => sorted[rank]);
+}
+
+// Fixed-width bins starting at zero, so histograms with the same bin size line up
+export function buildHistogram(values: number[], binSize: number): HistogramBin[] {
+  if (values.length === 0) return [];
+
+  const max = values.reduce((highest, value) => Math.max(highest, value), 0);
+  const binCount = Math.floor(max / binSize) + 1;
+  const bins: HistogramBin[] = [];
+  for (let i = 0; i < binCount; i++) {
+    bins.push({ start: i * binSize, end: (i + 1) * binSize, count: 0 });
+  }
+
+  values.forEach(value => {
+    const index = Math.min(Math.max(Math.floor(value / binSize), 0), binCount - 1);
+    bins[index].count += 1;
+  });
+
+  return bins;
+}
+
+export function mean(values: number[]): number {
+  if (values.length === 0) return 0;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+// Standard normal cumulative distribution, from the Abramowitz and Stegun erf approximation (error < 1.5e-7)
+export function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+export interface ProportionTest {
+  z: number;
+  // Two-sided p-value
+  pValue: number;
+}
+
+// Two-proportion z-test with a pooled proportion; undefined when either sample is
+// empty or both proportions are 0% or 100%, where the test says nothing
+export function twoProportionZTest(
+  successesA: number,
+  totalA: number,
+  successesB: number,
+  totalB: number
+): ProportionTest | undefined {
+  if (totalA === 0 || totalB === 0) return undefined;
+  const pooled = (successesA + successesB) / (totalA + totalB);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / totalA + 1 / totalB));
+  if (standardError === 0) return undefined;
+  const z = (successesB / totalB - successesA / totalA) / standardError;
+  return { z, pValue: 2 * (1 - normalCdf(Math.abs(z))) };
+}
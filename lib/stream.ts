@@ -0,0 +1,21 @@
+import { ConversationRecord } from './types';
+import { MetricsSummary } from './metrics';
+
+// Events sent over the /api/stream Server-Sent Events channel
+
+export type LiveStatus = 'connecting' | 'live' | 'disconnected';
+
+export const LIVE_STATUSES: LiveStatus[] = ['connecting', 'live', 'disconnected'];
+
+// Sent when a dashboard (re)connects
+export interface StreamReadyEvent {
+  summary: MetricsSummary;
+}
+
+// Sent whenever conversations are ingested
+export interface StreamConversationsEvent {
+  // New records matching the subscriber's filters; may be empty
+  records: ConversationRecord[];
+  // Summary recomputed over the whole dataset with the subscriber's filters
+  summary: MetricsSummary;
+}
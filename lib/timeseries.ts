@@ -0,0 +1,64 @@
+import { ConversationRecord } from './types';
+import { Metrics, calculateMetrics } from './metrics';
+import { RepeatContactIndex, buildRepeatContactIndex } from './repeatContacts';
+import { DEFAULT_TIME_ZONE, addDays, getDayStart, getDaysSinceMonday, getZonedHourStart, toZonedDateString } from './timezone';
+
+// Time-bucketed KPIs for trend charts. Buckets follow the wall clock of a time zone:
+// hours on the hour, days at midnight and weeks on Monday at midnight.
+
+export type TimeBucket = 'hour' | 'day' | 'week';
+
+export const TIME_BUCKETS: TimeBucket[] = ['hour', 'day', 'week'];
+
+export interface TimeSeriesPoint {
+  // Start of the bucket (ms since epoch)
+  start: number;
+  metrics: Metrics;
+}
+
+// Response shape of /api/metrics/timeseries
+export interface TimeSeries {
+  bucket: TimeBucket;
+  points: TimeSeriesPoint[];
+}
+
+export function getBucketStart(timestamp: number, bucket: TimeBucket, timeZone: string = DEFAULT_TIME_ZONE): number {
+  switch (bucket) {
+    case 'hour':
+      return getZonedHourStart(timestamp, timeZone);
+    case 'day':
+      return getDayStart(toZonedDateString(timestamp, timeZone), timeZone);
+    case 'week': {
+      const date = toZonedDateString(timestamp, timeZone);
+      return getDayStart(addDays(date, -getDaysSinceMonday(date)), timeZone);
+    }
+  }
+}
+
+// Group conversations into buckets and calculate every metric per bucket.
+// Buckets without calls are omitted rather than reported as zero.
+export function calculateTimeSeries(
+  data: ConversationRecord[],
+  bucket: TimeBucket,
+  repeatContacts?: RepeatContactIndex,
+  timeZone: string = DEFAULT_TIME_ZONE
+): TimeSeries {
+  // Detect repeats across the whole series so a callback in the next bucket still counts
+  const repeatIndex = repeatContacts || buildRepeatContactIndex(data);
+  const groups: { [start: number]: ConversationRecord[] } = {};
+
+  data.forEach(call => {
+    const start = getBucketStart(call.startTime, bucket, timeZone);
+    if (!groups[start]) {
+      groups[start] = [];
+    }
+    groups[start].push(call);
+  });
+
+  const points = Object.keys(groups)
+    .map(Number)
+    .sort((a, b) => a - b)
+    .map(start => ({ start, metrics: calculateMetrics(groups[start], repeatIndex) }));
+
+  return { bucket, points };
+}
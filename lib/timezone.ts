@@ -0,0 +1,144 @@
+// Calendar arithmetic in IANA time zones, shared by the server and the dashboard so
+// day boundaries, hour buckets and date pickers agree on what "a day" is.
+// Calendar dates are YYYY-MM-DD strings; instants are ms since epoch.
+
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+// Offered by the time zone pickers; any valid IANA zone is accepted by the API
+export const COMMON_TIME_ZONES = [
+  'UTC',
+  'Asia/Kolkata',
+  'America/New_York',
+  'America/Chicago',
+  'America/Denver',
+  'America/Los_Angeles',
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+// Creating an Intl formatter is expensive, so keep one per time zone
+const partFormatters: { [timeZone: string]: Intl.DateTimeFormat } = {};
+
+const getPartFormatter = (timeZone: string) => {
+  if (!partFormatters[timeZone]) {
+    partFormatters[timeZone] = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hour12: false,
+    });
+  }
+  return partFormatters[timeZone];
+};
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+// Wall-clock fields of an instant in the zone, e.g. "04/28/2025, 13:05:09" in en-US
+function getZonedParts(timestamp: number, timeZone: string): ZonedParts {
+  const match = /(\d+)\/(\d+)\/(\d+),? (\d+):(\d+):(\d+)/.exec(getPartFormatter(timeZone).format(new Date(timestamp)));
+  if (!match) {
+    throw new Error(`Cannot read the date in time zone ${timeZone}`);
+  }
+  return {
+    year: Number(match[3]),
+    month: Number(match[1]),
+    day: Number(match[2]),
+    // Some engines render midnight as 24:00 when hour12 is disabled
+    hour: Number(match[4]) % 24,
+    minute: Number(match[5]),
+    second: Number(match[6]),
+  };
+}
+
+// How far the zone's wall clock is ahead of UTC at the instant, in ms (IST is +19800000)
+export function getTimeZoneOffset(timestamp: number, timeZone: string): number {
+  const parts = getZonedParts(timestamp, timeZone);
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wallClock - Math.floor(timestamp / 1000) * 1000;
+}
+
+const pad = (value: number) => (value < 10 ? `0${value}` : String(value));
+
+// Calendar date of the instant in the zone
+export function toZonedDateString(timestamp: number, timeZone: string = DEFAULT_TIME_ZONE): string {
+  const parts = getZonedParts(timestamp, timeZone);
+  return `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`;
+}
+
+// Wall-clock date and minute of the instant, e.g. "2025-04-21 06:00"
+export function formatZonedDateTime(timestamp: number, timeZone: string = DEFAULT_TIME_ZONE): string {
+  const parts = getZonedParts(timestamp, timeZone);
+  return `${parts.year}-${pad(parts.month)}-${pad(parts.day)} ${pad(parts.hour)}:${pad(parts.minute)}`;
+}
+
+const parseDate = (date: string) => Date.parse(`${date}T00:00:00.000Z`);
+
+const formatDate = (time: number) => new Date(time).toISOString().split('T')[0];
+
+export function addDays(date: string, days: number): string {
+  return formatDate(parseDate(date) + days * DAY_MS);
+}
+
+// Days from Monday (0) to Sunday (6)
+export function getDaysSinceMonday(date: string): number {
+  return (new Date(parseDate(date)).getUTCDay() + 6) % 7;
+}
+
+// The instant the zone's wall clock shows `date` plus `timeOfDayMs`. Wall-clock times
+// skipped by a daylight saving change resolve to the instant just after it.
+export function getZonedTime(date: string, timeOfDayMs: number, timeZone: string): number {
+  const wallClock = parseDate(date) + timeOfDayMs;
+  const guess = wallClock - getTimeZoneOffset(wallClock, timeZone);
+  const offset = getTimeZoneOffset(guess, timeZone);
+  const time = wallClock - offset;
+  // In a skipped hour neither offset gives back the wall-clock time; the one from before
+  // the change lands after it
+  const offsetAtTime = getTimeZoneOffset(time, timeZone);
+  return offsetAtTime === offset ? time : Math.max(time, wallClock - offsetAtTime);
+}
+
+// First and last millisecond of a calendar day in the zone
+export function getDayStart(date: string, timeZone: string = DEFAULT_TIME_ZONE): number {
+  return getZonedTime(date, 0, timeZone);
+}
+
+export function getDayEnd(date: string, timeZone: string = DEFAULT_TIME_ZONE): number {
+  return getDayStart(addDays(date, 1), timeZone) - 1;
+}
+
+// Start of the zone's wall-clock hour containing the instant; half-hour zones such as
+// IST start their hours at :30 UTC
+export function getZonedHourStart(timestamp: number, timeZone: string = DEFAULT_TIME_ZONE): number {
+  const offset = getTimeZoneOffset(timestamp, timeZone);
+  return Math.floor((timestamp + offset) / HOUR_MS) * HOUR_MS - offset;
+}
+
+// Day of the week (0 is Monday) and hour of the zone's wall clock at the instant
+export function getZonedWeekdayAndHour(timestamp: number, timeZone: string = DEFAULT_TIME_ZONE): { weekday: number; hour: number } {
+  const parts = getZonedParts(timestamp, timeZone);
+  return {
+    weekday: (new Date(Date.UTC(parts.year, parts.month - 1, parts.day)).getUTCDay() + 6) % 7,
+    hour: parts.hour,
+  };
+}
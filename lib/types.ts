@@ -0,0 +1,44 @@
+// Shared record shapes used by the Express server and the MST store.
+// These mirror the MST models in app/stores/ConversationStore.ts so that both
+// plain JSON records and MST instances can be passed to the shared helpers.
+
+export type CallStatus = 'success' | 'dropped' | 'transfer' | 'busy' | 'no_answer';
+
+export type CallType = 'inbound' | 'outbound';
+
+export interface CallStatsRecord {
+  llmLatency: number;
+  ttsLatency: number;
+  interruptions: number;
+}
+
+export interface CallInfoRecord {
+  caller: string;
+  callee: string;
+  type: CallType;
+  stats?: CallStatsRecord;
+}
+
+export interface ConversationRecord {
+  id: string;
+  agent: string;
+  startTime: number;
+  duration: number;
+  cost: number;
+  status: CallStatus;
+  callInfo: CallInfoRecord;
+}
+
+export const CALL_STATUSES: CallStatus[] = ['success', 'dropped', 'transfer', 'busy', 'no_answer'];
+
+export const isCallStatus = (value: unknown): value is CallStatus => CALL_STATUSES.some(status => status === value);
+
+export const CALL_TYPES: CallType[] = ['inbound', 'outbound'];
+
+// One page of conversations as returned by GET /api/conversations
+export interface ConversationPage {
+  rows: ConversationRecord[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
@@ -0,0 +1,90 @@
+import { CALL_STATUSES, CALL_TYPES, CallStatsRecord, ConversationRecord } from './types';
+
+// Schema checks for conversation records submitted to POST /api/conversations.
+// The rules mirror the MST Conversation model so anything accepted here can be
+// loaded into ConversationStore without a snapshot error.
+
+export interface ConversationValidationResult {
+  // The record with unknown fields dropped; only set when there are no errors
+  record?: ConversationRecord;
+  errors: string[];
+}
+
+export const isObject = (value: unknown): value is { [key: string]: any } =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim() !== '';
+
+const isNonNegativeNumber = (value: unknown): value is number =>
+  typeof value === 'number' && isFinite(value) && value >= 0;
+
+function validateStats(stats: unknown, errors: string[]): CallStatsRecord | undefined {
+  if (!isObject(stats)) {
+    errors.push('callInfo.stats must be an object when present');
+    return undefined;
+  }
+  ['llmLatency', 'ttsLatency', 'interruptions'].forEach(field => {
+    if (!isNonNegativeNumber(stats[field])) {
+      errors.push(`callInfo.stats.${field} must be a non-negative number`);
+    }
+  });
+  return {
+    llmLatency: stats.llmLatency,
+    ttsLatency: stats.ttsLatency,
+    interruptions: stats.interruptions,
+  };
+}
+
+export function validateConversationRecord(value: unknown): ConversationValidationResult {
+  const errors: string[] = [];
+  if (!isObject(value)) {
+    return { errors: ['record must be an object'] };
+  }
+
+  if (!isNonEmptyString(value.id)) errors.push('id must be a non-empty string');
+  if (!isNonEmptyString(value.agent)) errors.push('agent must be a non-empty string');
+  if (!isNonNegativeNumber(value.startTime)) errors.push('startTime must be a timestamp in milliseconds');
+  if (!isNonNegativeNumber(value.duration)) errors.push('duration must be a non-negative number of seconds');
+  if (!isNonNegativeNumber(value.cost)) errors.push('cost must be a non-negative number');
+  if (CALL_STATUSES.indexOf(value.status) === -1) {
+    errors.push(`status must be one of ${CALL_STATUSES.join(', ')}`);
+  }
+
+  const callInfo = value.callInfo;
+  let stats: CallStatsRecord | undefined;
+  if (!isObject(callInfo)) {
+    errors.push('callInfo is required');
+  } else {
+    if (!isNonEmptyString(callInfo.caller)) errors.push('callInfo.caller must be a non-empty string');
+    if (!isNonEmptyString(callInfo.callee)) errors.push('callInfo.callee must be a non-empty string');
+    if (CALL_TYPES.indexOf(callInfo.type) === -1) {
+      errors.push(`callInfo.type must be one of ${CALL_TYPES.join(', ')}`);
+    }
+    if (callInfo.stats !== undefined && callInfo.stats !== null) {
+      stats = validateStats(callInfo.stats, errors);
+    }
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    errors,
+    record: {
+      id: value.id,
+      agent: value.agent,
+      startTime: value.startTime,
+      duration: value.duration,
+      cost: value.cost,
+      status: value.status,
+      callInfo: {
+        caller: callInfo.caller,
+        callee: callInfo.callee,
+        type: callInfo.type,
+        ...(stats ? { stats } : {}),
+      },
+    },
+  };
+}
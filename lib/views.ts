@@ -0,0 +1,218 @@
+import {
+  DEFAULT_DURATION_THRESHOLDS,
+  DateRange,
+  DurationThresholds,
+  NumericRanges,
+  RELATIVE_DATE_RANGES,
+  RelativeDateRange,
+  TimeOfDayWindow,
+  isDurationBucket,
+  isNumericFilterField,
+  isRelativeDateRange,
+  parseClockTime,
+  resolveRelativeDateRange,
+} from './filters';
+import { isValidTimeZone } from './timezone';
+import { DEFAULT_REPEAT_WINDOW_HOURS } from './repeatContacts';
+import { CALL_STATUSES, CallStatus, isCallStatus } from './types';
+import { formatQueryError, parseQuery } from './query';
+
+// Saved filter presets ("views") stored by the server at /api/views. A view keeps
+// either a fixed date range or a relative one that is resolved when it is applied.
+
+export interface SavedViewFilters {
+  dateRange?: DateRange;
+  relativeDateRange?: RelativeDateRange;
+  agents: string[];
+  callTypes: string[];
+  statuses: CallStatus[];
+  durationBuckets: string[];
+  durationThresholds: DurationThresholds;
+  timeOfDay?: TimeOfDayWindow;
+  ranges: NumericRanges;
+  query: string;
+  repeatWindowHours: number;
+}
+
+export interface SavedView {
+  id: string;
+  name: string;
+  filters: SavedViewFilters;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Body of POST /api/views and PUT /api/views/:id
+export interface SavedViewInput {
+  name: string;
+  filters: SavedViewFilters;
+}
+
+export interface SavedViewValidationResult {
+  // The input with unknown fields dropped and defaults filled in; only set when there are no errors
+  view?: SavedViewInput;
+  errors: string[];
+}
+
+export const MAX_VIEW_NAME_LENGTH = 100;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isObject = (value: unknown): value is { [key: string]: any } =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+// The date range a view covers today in the time zone
+export function getSavedViewDateRange(
+  filters: SavedViewFilters,
+  now: number = Date.now(),
+  timeZone?: string
+): DateRange | undefined {
+  if (filters.relativeDateRange) {
+    return resolveRelativeDateRange(filters.relativeDateRange, now, timeZone);
+  }
+  return filters.dateRange;
+}
+
+// Normalized copy of a view's filters; problems are appended to errors
+export function validateSavedViewFilters(filters: { [key: string]: any }, errors: string[]): SavedViewFilters {
+  const normalized: SavedViewFilters = {
+    agents: [],
+    callTypes: [],
+    statuses: [],
+    durationBuckets: [],
+    durationThresholds: { ...DEFAULT_DURATION_THRESHOLDS },
+    ranges: {},
+    query: '',
+    repeatWindowHours: DEFAULT_REPEAT_WINDOW_HOURS,
+  };
+
+  const { dateRange, relativeDateRange } = filters;
+  if (dateRange !== undefined && relativeDateRange !== undefined) {
+    errors.push('filters can have a dateRange or a relativeDateRange, not both');
+  } else if (dateRange !== undefined) {
+    if (!isObject(dateRange) || !DATE_PATTERN.test(dateRange.start) || !DATE_PATTERN.test(dateRange.end)) {
+      errors.push('filters.dateRange start and end must use the YYYY-MM-DD format');
+    } else if (dateRange.start > dateRange.end) {
+      errors.push('filters.dateRange start must not be after its end');
+    } else {
+      normalized.dateRange = { start: dateRange.start, end: dateRange.end };
+    }
+  } else if (relativeDateRange !== undefined) {
+    if (!isRelativeDateRange(relativeDateRange)) {
+      errors.push(`filters.relativeDateRange must be one of ${RELATIVE_DATE_RANGES.join(', ')}`);
+    } else {
+      normalized.relativeDateRange = relativeDateRange;
+    }
+  }
+
+  (['agents', 'callTypes', 'durationBuckets'] as const).forEach(field => {
+    if (filters[field] === undefined) return;
+    if (!isStringArray(filters[field])) {
+      errors.push(`filters.${field} must be an array of strings`);
+    } else {
+      normalized[field] = filters[field].slice();
+    }
+  });
+  const statuses = filters.statuses;
+  if (statuses !== undefined) {
+    if (!Array.isArray(statuses) || !statuses.every(isCallStatus)) {
+      errors.push(`filters.statuses must only contain ${CALL_STATUSES.join(', ')}`);
+    } else {
+      normalized.statuses = statuses.slice();
+    }
+  }
+  const invalidBucket = normalized.durationBuckets.find(bucket => !isDurationBucket(bucket));
+  if (invalidBucket) {
+    errors.push(`Unknown duration bucket "${invalidBucket}"`);
+  }
+
+  const thresholds = filters.durationThresholds;
+  if (thresholds !== undefined) {
+    if (!isObject(thresholds) || typeof thresholds.shortMax !== 'number' || typeof thresholds.longMin !== 'number'
+      || thresholds.shortMax < 0 || thresholds.shortMax > thresholds.longMin) {
+      errors.push('filters.durationThresholds must be numbers with 0 <= shortMax <= longMin');
+    } else {
+      normalized.durationThresholds = { shortMax: thresholds.shortMax, longMin: thresholds.longMin };
+    }
+  }
+
+  const timeOfDay = filters.timeOfDay;
+  if (timeOfDay !== undefined) {
+    if (!isObject(timeOfDay) || isNaN(parseClockTime(timeOfDay.start)) || isNaN(parseClockTime(timeOfDay.end))) {
+      errors.push('filters.timeOfDay start and end must use the HH:mm format');
+    } else if (typeof timeOfDay.timeZone !== 'string' || !isValidTimeZone(timeOfDay.timeZone)) {
+      errors.push(`Unknown time zone "${timeOfDay.timeZone}"`);
+    } else {
+      normalized.timeOfDay = { start: timeOfDay.start, end: timeOfDay.end, timeZone: timeOfDay.timeZone };
+    }
+  }
+
+  const ranges = filters.ranges;
+  if (ranges !== undefined) {
+    if (!isObject(ranges)) {
+      errors.push('filters.ranges must be an object');
+    } else {
+      Object.keys(ranges).forEach(field => {
+        const range = ranges[field];
+        const isBound = (bound: unknown) => bound === undefined || (typeof bound === 'number' && isFinite(bound));
+        if (!isNumericFilterField(field)) {
+          errors.push(`Unknown range field "${field}"`);
+        } else if (!isObject(range) || !isBound(range.min) || !isBound(range.max)
+          || (range.min !== undefined && range.max !== undefined && range.min > range.max)) {
+          errors.push(`filters.ranges.${field} must have numeric min and max with min <= max`);
+        } else if (range.min !== undefined || range.max !== undefined) {
+          normalized.ranges[field] = { min: range.min, max: range.max };
+        }
+      });
+    }
+  }
+
+  if (filters.query !== undefined) {
+    if (typeof filters.query !== 'string') {
+      errors.push('filters.query must be a string');
+    } else {
+      const query = filters.query.trim();
+      parseQuery(query).errors.forEach(error => errors.push(`filters.query: ${formatQueryError(error)}`));
+      normalized.query = query;
+    }
+  }
+
+  const repeatWindowHours = filters.repeatWindowHours;
+  if (repeatWindowHours !== undefined) {
+    if (typeof repeatWindowHours !== 'number' || !isFinite(repeatWindowHours) || repeatWindowHours <= 0) {
+      errors.push('filters.repeatWindowHours must be a positive number');
+    } else {
+      normalized.repeatWindowHours = repeatWindowHours;
+    }
+  }
+
+  return normalized;
+}
+
+export function validateSavedViewInput(value: unknown): SavedViewValidationResult {
+  const errors: string[] = [];
+  if (!isObject(value)) {
+    return { errors: ['view must be an object'] };
+  }
+
+  const name = typeof value.name === 'string' ? value.name.trim() : '';
+  if (name === '') {
+    errors.push('name must be a non-empty string');
+  } else if (name.length > MAX_VIEW_NAME_LENGTH) {
+    errors.push(`name must be at most ${MAX_VIEW_NAME_LENGTH} characters`);
+  }
+
+  if (!isObject(value.filters)) {
+    errors.push('filters must be an object');
+    return { errors };
+  }
+  const filters = validateSavedViewFilters(value.filters, errors);
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+  return { errors, view: { name, filters } };
+}
@@ -0,0 +1,229 @@
+const crypto = require('crypto');
+const fs = require('fs');
+const { getAllowedAgents, hasPermission } = require('../lib/auth');
+const { parseQuery } = require('../lib/query');
+const { FilterError, toArray } = require('./filters');
+
+// Login, session tokens and role checks for the API. Sessions are HS256 JWTs sent
+// either as the httpOnly `session` cookie (dashboard, EventSource, download links)
+// or as an `Authorization: Bearer` header (scripts).
+
+const SESSION_COOKIE = 'session';
+
+const base64url = (value) => Buffer.from(value).toString('base64url');
+
+function signToken(payload, secret, ttlSeconds) {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const body = base64url(JSON.stringify({ ...payload, iat: now, exp: now + ttlSeconds }));
+  const signature = crypto.createHmac('sha256', secret).update(`${header}.${body}`).digest('base64url');
+  return `${header}.${body}.${signature}`;
+}
+
+// The token's payload, or undefined when it is malformed, tampered with or expired
+function verifyToken(token, secret) {
+  const parts = typeof token === 'string' ? token.split('.') : [];
+  if (parts.length !== 3) return undefined;
+  const [header, body, signature] = parts;
+  const expected = crypto.createHmac('sha256', secret).update(`${header}.${body}`).digest();
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) return undefined;
+  try {
+    if (JSON.parse(Buffer.from(header, 'base64url').toString()).alg !== 'HS256') return undefined;
+    const payload = JSON.parse(Buffer.from(body, 'base64url').toString());
+    return typeof payload.exp === 'number' && payload.exp > Date.now() / 1000 ? payload : undefined;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+// scrypt with a random salt, stored as "scrypt$<salt>$<hash>"
+function hashPassword(password) {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = crypto.scryptSync(password, salt, 64).toString('hex');
+  return `scrypt$${salt}$${hash}`;
+}
+
+function verifyPassword(password, stored) {
+  const [scheme, salt, hash] = String(stored).split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = crypto.scryptSync(password, salt, expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+// Checked against when the username is unknown, so both cases take as long
+const UNKNOWN_USER_HASH = hashPassword(crypto.randomBytes(16).toString('hex'));
+
+const toPublicUser = ({ id, username, name, role, agents, timeZone }) => ({
+  id,
+  username,
+  name,
+  role,
+  ...(agents ? { agents } : {}),
+  ...(timeZone ? { timeZone } : {}),
+});
+
+// Users live in a JSON file next to the data. The first start creates an admin account,
+// with ADMIN_PASSWORD or a generated password printed once to the console.
+function createUserStore(filePath) {
+  let users = [];
+  if (fs.existsSync(filePath)) {
+    users = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    console.log(`Loaded ${users.length} users from ${filePath}`);
+  }
+
+  function persist(next) {
+    fs.writeFileSync(filePath, JSON.stringify(next, null, 2));
+    users = next;
+  }
+
+  if (users.length === 0) {
+    const username = process.env.ADMIN_USERNAME || 'admin';
+    const password = process.env.ADMIN_PASSWORD || crypto.randomBytes(9).toString('base64url');
+    persist([{ id: crypto.randomUUID(), username, name: 'Administrator', role: 'admin', passwordHash: hashPassword(password) }]);
+    console.log(process.env.ADMIN_PASSWORD
+      ? `Created admin user "${username}"`
+      : `Created admin user "${username}" with password ${password} (set ADMIN_PASSWORD to choose one)`);
+  }
+
+  return {
+    list: () => users.map(toPublicUser),
+
+    findById: (id) => users.find(user => user.id === id),
+
+    // Resolves to the public user when the credentials match
+    authenticate(username, password) {
+      const user = users.find(candidate => candidate.username === username);
+      const valid = verifyPassword(password, user ? user.passwordHash : UNKNOWN_USER_HASH);
+      return user && valid ? toPublicUser(user) : undefined;
+    },
+
+    isUsernameTaken: (username, exceptId) => users.some(user => user.username === username && user.id !== exceptId),
+
+    create(input) {
+      const { password, ...fields } = input;
+      const user = { id: crypto.randomUUID(), ...fields, passwordHash: hashPassword(password) };
+      persist([...users, user]);
+      return toPublicUser(user);
+    },
+
+    update(id, input) {
+      const { password, ...fields } = input;
+      const existing = users.find(user => user.id === id);
+      const updated = {
+        id,
+        ...fields,
+        passwordHash: password ? hashPassword(password) : existing.passwordHash,
+      };
+      if (!updated.agents) delete updated.agents;
+      if (!updated.timeZone) delete updated.timeZone;
+      persist(users.map(user => (user.id === id ? updated : user)));
+      return toPublicUser(updated);
+    },
+
+    remove(id) {
+      persist(users.filter(user => user.id !== id));
+    },
+  };
+}
+
+function readCookie(req, name) {
+  const header = req.headers.cookie;
+  if (!header) return undefined;
+  const match = header.split(';').map(part => part.trim()).find(part => part.startsWith(`${name}=`));
+  return match ? decodeURIComponent(match.slice(name.length + 1)) : undefined;
+}
+
+// Viewers only see masked numbers, so they may not filter or search by them either
+function usesPhoneNumbers(query) {
+  if (typeof query.query === 'string' && query.query !== '') {
+    const { terms } = parseQuery(query.query);
+    if (terms.some(term => term.field === 'caller' || term.field === 'callee')) return true;
+  }
+  const search = typeof query.search === 'string' ? query.search.trim() : '';
+  return /^[0-9+\-\s()]+$/.test(search) && /[0-9]/.test(search);
+}
+
+// Narrows a set of filters to the agents a supervisor is assigned to, and keeps viewers
+// from filtering on numbers they cannot see. Returns why the filters are not allowed, if they are not.
+function scopeFilters(user, filters) {
+  const allowed = getAllowedAgents(user);
+  if (allowed) {
+    if (allowed.length === 0) {
+      return 'You are not assigned to any agents';
+    }
+    const requested = toArray(filters.agents, 'agents');
+    const forbidden = requested.find(agent => !allowed.includes(agent));
+    if (forbidden) {
+      return `You are not assigned to agent "${forbidden}"`;
+    }
+    filters.agents = requested.length > 0 ? requested : allowed;
+  }
+  if (!hasPermission(user.role, 'viewPhoneNumbers') && usesPhoneNumbers(filters)) {
+    return 'Your role cannot filter or search by phone number';
+  }
+  return undefined;
+}
+
+function createAuth({ users, secret, tokenTtlSeconds, secureCookie = false }) {
+  const issueSession = (res, user) => {
+    const token = signToken({ sub: user.id }, secret, tokenTtlSeconds);
+    res.cookie(SESSION_COOKIE, token, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: secureCookie,
+      maxAge: tokenTtlSeconds * 1000,
+    });
+    return token;
+  };
+
+  return {
+    issueSession,
+
+    clearSession: (res) => res.clearCookie(SESSION_COOKIE, { httpOnly: true, sameSite: 'lax', secure: secureCookie }),
+
+    // Loads the user on every request so role changes and deletions apply immediately
+    authenticate(req, res, next) {
+      const authorization = req.headers.authorization;
+      const token = authorization && authorization.startsWith('Bearer ')
+        ? authorization.slice('Bearer '.length)
+        : readCookie(req, SESSION_COOKIE);
+      const payload = verifyToken(token, secret);
+      const user = payload && users.findById(payload.sub);
+      if (!user) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+      req.user = toPublicUser(user);
+      next();
+    },
+
+    requirePermission(permission) {
+      return (req, res, next) => {
+        if (!hasPermission(req.user.role, permission)) {
+          return res.status(403).json({ error: 'Your role does not allow this action' });
+        }
+        next();
+      };
+    },
+
+    // Applies scopeFilters to the query of every filtered request
+    scopeToUser(req, res, next) {
+      let forbidden;
+      try {
+        forbidden = scopeFilters(req.user, req.query);
+      } catch (error) {
+        if (error instanceof FilterError) {
+          return res.status(400).json({ error: error.message });
+        }
+        throw error;
+      }
+      if (forbidden) {
+        return res.status(403).json({ error: forbidden });
+      }
+      next();
+    },
+  };
+}
+
+module.exports = { createAuth, createUserStore, scopeFilters, signToken, verifyToken, hashPassword, verifyPassword };
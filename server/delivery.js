@@ -0,0 +1,153 @@
+const net = require('net');
+const os = require('os');
+const path = require('path');
+const tls = require('tls');
+const crypto = require('crypto');
+
+// Delivery hooks for digest reports. A hook is an async function called with
+// { subject, text, html, digest, files } once the digest files are written.
+// DIGEST_DELIVERY picks one:
+//   none (default)   files only
+//   smtp             mail through SMTP_HOST / SMTP_PORT; try it against `npm run smtp-stub`
+//   <path to .js>    a module exporting the hook function, for other channels (Slack, S3, ...)
+
+const SMTP_TIMEOUT_MS = 30000;
+
+// Line-based reader for SMTP replies; multi-line replies ("250-...") resolve on their last line
+function createReplyReader(socket) {
+  let buffer = '';
+  let lines = [];
+  const waiting = [];
+
+  const flush = () => {
+    while (waiting.length > 0) {
+      const end = lines.findIndex(line => /^\d{3}( |$)/.test(line));
+      if (end === -1) return;
+      const reply = lines.slice(0, end + 1);
+      lines = lines.slice(end + 1);
+      waiting.shift().resolve({ code: Number(reply[end].slice(0, 3)), text: reply.join('\n') });
+    }
+  };
+
+  const fail = (error) => {
+    waiting.splice(0).forEach(({ reject }) => reject(error));
+  };
+
+  socket.setEncoding('utf8');
+  socket.on('data', (chunk) => {
+    buffer += chunk;
+    const parts = buffer.split('\r\n');
+    buffer = parts.pop();
+    lines = lines.concat(parts);
+    flush();
+  });
+  socket.on('error', fail);
+  socket.on('close', () => fail(new Error('SMTP connection closed')));
+
+  return () => new Promise((resolve, reject) => {
+    waiting.push({ resolve, reject });
+    flush();
+  });
+}
+
+const encodeHeader = (value) => (/^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`);
+
+const toBase64Lines = (text) => Buffer.from(text, 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n');
+
+// multipart/alternative message with the Markdown as the plain-text part
+function buildMimeMessage({ from, to, subject, text, html }) {
+  const boundary = `digest-${crypto.randomBytes(12).toString('hex')}`;
+  return [
+    `From: ${from}`,
+    `To: ${to.join(', ')}`,
+    `Subject: ${encodeHeader(subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${os.hostname()}>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    toBase64Lines(text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    toBase64Lines(html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
+
+// Plain SMTP, or implicit TLS with secure (port 465). AUTH PLAIN is used when a user is set.
+function createSmtpDelivery({ host, port, secure = false, user, pass, from, to }) {
+  if (!host || !from || to.length === 0) {
+    throw new Error('SMTP delivery needs SMTP_HOST, SMTP_FROM and DIGEST_RECIPIENTS');
+  }
+
+  return async function sendDigest(message) {
+    const socket = secure
+      ? tls.connect({ host, port, servername: host })
+      : net.connect({ host, port });
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error('SMTP connection timed out')));
+    const readReply = createReplyReader(socket);
+
+    const expect = async (codes, command) => {
+      if (command !== undefined) socket.write(`${command}\r\n`);
+      const reply = await readReply();
+      if (!codes.includes(reply.code)) {
+        throw new Error(`SMTP server rejected ${command ? command.split(' ')[0] : 'connection'}: ${reply.text}`);
+      }
+      return reply;
+    };
+
+    try {
+      await expect([220]);
+      await expect([250], `EHLO ${os.hostname()}`);
+      if (user) {
+        const credentials = Buffer.from(`\u0000${user}\u0000${pass || ''}`, 'utf8').toString('base64');
+        await expect([235], `AUTH PLAIN ${credentials}`);
+      }
+      await expect([250], `MAIL FROM:<${from}>`);
+      for (const recipient of to) {
+        await expect([250, 251], `RCPT TO:<${recipient}>`);
+      }
+      await expect([354], 'DATA');
+      // Dot-stuffing: a line starting with "." gets a second one
+      const body = buildMimeMessage({ from, to, ...message }).replace(/^\./gm, '..');
+      await expect([250], `${body}\r\n.`);
+      await expect([221], 'QUIT');
+    } finally {
+      socket.destroy();
+    }
+  };
+}
+
+function createDeliveryHook(kind = process.env.DIGEST_DELIVERY || 'none') {
+  switch (kind) {
+    case 'none':
+      return async () => {};
+    case 'smtp':
+      return createSmtpDelivery({
+        host: process.env.SMTP_HOST,
+        port: Number(process.env.SMTP_PORT || 25),
+        secure: process.env.SMTP_SECURE === 'true',
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASS,
+        from: process.env.SMTP_FROM,
+        to: (process.env.DIGEST_RECIPIENTS || '').split(',').map(address => address.trim()).filter(Boolean),
+      });
+    default: {
+      const hook = require(path.resolve(kind));
+      const deliver = typeof hook === 'function' ? hook : hook.deliver;
+      if (typeof deliver !== 'function') {
+        throw new Error(`Delivery module ${kind} must export a function or a deliver function`);
+      }
+      return deliver;
+    }
+  }
+}
+
+module.exports = { buildMimeMessage, createSmtpDelivery, createDeliveryHook };
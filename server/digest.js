@@ -0,0 +1,234 @@
+const fs = require('fs');
+const path = require('path');
+const { getPreviousPeriod } = require('../lib/filters');
+const { METRICS_BY_KEY, formatMetricValue } = require('../lib/metrics');
+const { DIGEST_PERIOD_LABELS, DIGEST_PERIODS, buildDigest, getDigestRange } = require('../lib/digest');
+const {
+  DEFAULT_TIME_ZONE,
+  addDays,
+  formatZonedDateTime,
+  getDaysSinceMonday,
+  getZonedTime,
+  toZonedDateString,
+} = require('../lib/timezone');
+const { escapeHtml } = require('./report');
+
+// Daily and weekly digest reports: computed from the repository, written to disk as
+// Markdown and HTML, then handed to the configured delivery hook (see delivery.js).
+
+// Digest files are named <period>-<first day>.<md|html>, e.g. weekly-2025-04-14.html
+const DIGEST_FILE_PATTERN = /^(daily|weekly)-(\d{4}-\d{2}-\d{2})\.(md|html)$/;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const formatMetric = (key, value) => formatMetricValue(METRICS_BY_KEY[key].format, value);
+
+// "+2.5 pts" for rates, "+$12.40" for money; the arrow shows whether the change is an improvement
+function formatChange(key, delta) {
+  const definition = METRICS_BY_KEY[key];
+  if (delta.absolute === 0) return 'no change';
+  const sign = delta.absolute > 0 ? '+' : '-';
+  const magnitude = Math.abs(delta.absolute);
+  const amount = definition.format === 'percentage'
+    ? `${magnitude.toFixed(1)} pts`
+    : formatMetricValue(definition.format, magnitude);
+  const relative = delta.relative !== undefined && definition.format !== 'percentage' ? ` (${sign}${Math.abs(delta.relative)}%)` : '';
+  const improved = definition.higherIsBetter === undefined ? undefined : (delta.absolute > 0) === definition.higherIsBetter;
+  const arrow = improved === undefined ? '' : improved ? ' ▲' : ' ▼';
+  return `${sign}${amount}${relative}${arrow}`;
+}
+
+const formatRange = (range) => (range.start === range.end ? range.start : `${range.start} to ${range.end}`);
+
+const getDigestTitle = (digest) => `${DIGEST_PERIOD_LABELS[digest.period]} Call Digest: ${formatRange(digest.range)}`;
+
+const formatGeneratedAt = (time, timeZone) => `${formatZonedDateTime(time, timeZone)} ${timeZone}`;
+
+function renderDigestMarkdown(digest) {
+  const rankingLabel = METRICS_BY_KEY[digest.rankingMetric].label;
+  const agentLine = (agent, index) =>
+    `${index + 1}. **${agent.agent}**: ${formatMetric(digest.rankingMetric, agent.value)} (${agent.totalCalls} calls)`;
+  const list = (agents, empty) => (agents.length > 0 ? agents.map(agentLine) : [`_${empty}_`]);
+
+  return [
+    `# ${getDigestTitle(digest)}`,
+    '',
+    `Compared with ${formatRange(digest.previousRange)}. Generated ${formatGeneratedAt(digest.generatedAt, digest.timeZone)}.`,
+    '',
+    '## Headline KPIs',
+    '',
+    '| Metric | Value | Previous | Change |',
+    '| --- | ---: | ---: | ---: |',
+    ...digest.headlines.map(headline => `| ${METRICS_BY_KEY[headline.key].label} | ${formatMetric(headline.key, headline.value)} `
+      + `| ${formatMetric(headline.key, headline.previous)} | ${formatChange(headline.key, headline.delta)} |`),
+    '',
+    `## Top Agents by ${rankingLabel}`,
+    '',
+    ...list(digest.topAgents, `No agent handled ${digest.minCalls} or more calls`),
+    '',
+    `## Lowest ${rankingLabel}`,
+    '',
+    ...list(digest.bottomAgents, 'Not enough agents to rank'),
+    '',
+    '## Biggest Movers',
+    '',
+    ...(digest.movers.length > 0
+      ? digest.movers.map(mover => `- **${mover.agent}**: ${formatMetric(digest.rankingMetric, mover.previous)} → `
+        + `${formatMetric(digest.rankingMetric, mover.value)} (${formatChange(digest.rankingMetric, mover.delta)})`)
+      : ['_No agent changed between the two periods_']),
+    '',
+    `_Agents with fewer than ${digest.minCalls} calls in a period are not ranked._`,
+    '',
+  ].join('\n');
+}
+
+// Inline styles only, since mail clients drop <style> blocks
+function renderDigestHtml(digest) {
+  const rankingLabel = METRICS_BY_KEY[digest.rankingMetric].label;
+  const cell = 'padding:6px 10px;border-bottom:1px solid #e0e0e0;';
+  const heading = 'font-size:16px;margin:24px 0 8px;border-bottom:2px solid #90caf9;padding-bottom:4px;';
+  const agentList = (agents, empty) => (agents.length > 0
+    ? `<ol>${agents.map(agent => `<li><strong>${escapeHtml(agent.agent)}</strong>: `
+      + `${escapeHtml(formatMetric(digest.rankingMetric, agent.value))} (${agent.totalCalls} calls)</li>`).join('')}</ol>`
+    : `<p style="color:#757575;">${escapeHtml(empty)}</p>`);
+
+  const headlineRows = digest.headlines.map(headline => `<tr><td style="${cell}">${escapeHtml(METRICS_BY_KEY[headline.key].label)}</td>`
+    + `<td style="${cell}text-align:right;">${escapeHtml(formatMetric(headline.key, headline.value))}</td>`
+    + `<td style="${cell}text-align:right;color:#757575;">${escapeHtml(formatMetric(headline.key, headline.previous))}</td>`
+    + `<td style="${cell}text-align:right;">${escapeHtml(formatChange(headline.key, headline.delta))}</td></tr>`).join('');
+
+  const movers = digest.movers.length > 0
+    ? `<ul>${digest.movers.map(mover => `<li><strong>${escapeHtml(mover.agent)}</strong>: `
+      + `${escapeHtml(formatMetric(digest.rankingMetric, mover.previous))} → ${escapeHtml(formatMetric(digest.rankingMetric, mover.value))} `
+      + `(${escapeHtml(formatChange(digest.rankingMetric, mover.delta))})</li>`).join('')}</ul>`
+    : '<p style="color:#757575;">No agent changed between the two periods</p>';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head><meta charset="utf-8"><title>${escapeHtml(getDigestTitle(digest))}</title></head>
+<body style="font-family:-apple-system,'Segoe UI',Roboto,Helvetica,Arial,sans-serif;color:#212121;max-width:720px;margin:24px auto;">
+<h1 style="font-size:22px;margin:0 0 4px;">${escapeHtml(getDigestTitle(digest))}</h1>
+<p style="color:#616161;font-size:13px;margin:0;">Compared with ${escapeHtml(formatRange(digest.previousRange))}. Generated ${escapeHtml(formatGeneratedAt(digest.generatedAt, digest.timeZone))}.</p>
+<h2 style="${heading}">Headline KPIs</h2>
+<table style="border-collapse:collapse;width:100%;font-size:13px;">
+<tr><th style="${cell}text-align:left;">Metric</th><th style="${cell}text-align:right;">Value</th><th style="${cell}text-align:right;">Previous</th><th style="${cell}text-align:right;">Change</th></tr>
+${headlineRows}
+</table>
+<h2 style="${heading}">Top Agents by ${escapeHtml(rankingLabel)}</h2>
+${agentList(digest.topAgents, `No agent handled ${digest.minCalls} or more calls`)}
+<h2 style="${heading}">Lowest ${escapeHtml(rankingLabel)}</h2>
+${agentList(digest.bottomAgents, 'Not enough agents to rank')}
+<h2 style="${heading}">Biggest Movers</h2>
+${movers}
+<p style="color:#9e9e9e;font-size:12px;">Agents with fewer than ${digest.minCalls} calls in a period are not ranked.</p>
+</body>
+</html>
+`;
+}
+
+// Builds a digest for the period before `now` in timeZone, writes both files to outputDir and
+// returns the message handed to delivery hooks: { subject, text, html, digest, files }
+function generateDigest(repository, period, { now = Date.now(), outputDir, minCalls, timeZone = DEFAULT_TIME_ZONE } = {}) {
+  const range = getDigestRange(period, now, timeZone);
+  const previousRange = getPreviousPeriod(range);
+  const digest = buildDigest({
+    period,
+    range,
+    previousRange,
+    metrics: repository.calculateMetrics({ dateRange: range, timeZone }),
+    previousMetrics: repository.calculateMetrics({ dateRange: previousRange, timeZone }),
+    agentMetrics: repository.calculateAgentMetrics({ dateRange: range, timeZone }),
+    previousAgentMetrics: repository.calculateAgentMetrics({ dateRange: previousRange, timeZone }),
+    minCalls,
+    timeZone,
+  });
+
+  const text = renderDigestMarkdown(digest);
+  const html = renderDigestHtml(digest);
+  fs.mkdirSync(outputDir, { recursive: true });
+  const baseName = `${period}-${range.start}`;
+  const files = {
+    markdown: path.join(outputDir, `${baseName}.md`),
+    html: path.join(outputDir, `${baseName}.html`),
+  };
+  fs.writeFileSync(files.markdown, text);
+  fs.writeFileSync(files.html, html);
+
+  return { subject: getDigestTitle(digest), text, html, digest, files };
+}
+
+// Digests already written to outputDir, newest first
+function listDigests(outputDir) {
+  if (!fs.existsSync(outputDir)) return [];
+  const digests = {};
+  fs.readdirSync(outputDir).forEach(file => {
+    const match = DIGEST_FILE_PATTERN.exec(file);
+    if (!match) return;
+    const id = `${match[1]}-${match[2]}`;
+    digests[id] = digests[id] || { id, period: match[1], start: match[2], files: [] };
+    digests[id].files.push(file);
+  });
+  return Object.keys(digests)
+    .map(id => digests[id])
+    .sort((a, b) => b.start.localeCompare(a.start) || a.period.localeCompare(b.period));
+}
+
+// Runs every day at `hour` in timeZone: the daily digest always, the weekly one on Mondays.
+// runDigest(period, now) does the work; failures are logged and the schedule carries on.
+// timeZone() is read whenever the next run is scheduled; call reschedule() after it changes.
+function createDigestScheduler(runDigest, { hour = 6, timeZone = () => DEFAULT_TIME_ZONE } = {}) {
+  let timer;
+  let running = false;
+
+  function nextRunTime(now) {
+    const today = toZonedDateString(now, timeZone());
+    const candidate = getZonedTime(today, hour * HOUR_MS, timeZone());
+    return candidate > now ? candidate : getZonedTime(addDays(today, 1), hour * HOUR_MS, timeZone());
+  }
+
+  async function runDue(now) {
+    const periods = getDaysSinceMonday(toZonedDateString(now, timeZone())) === 0 ? DIGEST_PERIODS : ['daily'];
+    for (const period of periods) {
+      try {
+        await runDigest(period, now);
+      } catch (error) {
+        console.error(`Error running ${period} digest:`, error);
+      }
+    }
+  }
+
+  function schedule() {
+    if (!running) return;
+    const runAt = nextRunTime(Date.now());
+    timer = setTimeout(() => {
+      runDue(runAt).finally(schedule);
+    }, runAt - Date.now());
+    // The scheduler alone should not keep the process running
+    timer.unref();
+  }
+
+  return {
+    start() {
+      if (running) return;
+      running = true;
+      schedule();
+    },
+    stop() {
+      running = false;
+      clearTimeout(timer);
+    },
+    reschedule() {
+      clearTimeout(timer);
+      schedule();
+    },
+  };
+}
+
+module.exports = {
+  DIGEST_FILE_PATTERN,
+  renderDigestMarkdown,
+  renderDigestHtml,
+  generateDigest,
+  listDigests,
+  createDigestScheduler,
+};
@@ -0,0 +1,232 @@
+const {
+  DURATION_BUCKETS,
+  DEFAULT_DURATION_THRESHOLDS,
+  NUMERIC_FILTER_FIELDS,
+  matchesDurationBuckets,
+  matchesNumericRanges,
+  matchesTimeOfDay,
+  parseClockTime,
+} = require('../lib/filters');
+const { DEFAULT_TIME_ZONE, getDayEnd, getDayStart, isValidTimeZone } = require('../lib/timezone');
+const { EXPLORER_SORT_FIELDS, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } = require('../lib/explorer');
+const { DEFAULT_REPEAT_WINDOW_HOURS } = require('../lib/repeatContacts');
+const { EXPORT_DATASETS, EXPORT_FORMATS } = require('../lib/export');
+const { CALL_STATUSES } = require('../lib/types');
+const { parseQuery, matchesQuery, formatQueryError } = require('../lib/query');
+
+// Query parameter parsing shared by every repository. parseFilters validates the
+// raw query once and returns a normalized filter object; the memory repository
+// applies it with filterData, the SQLite repository turns it into a WHERE clause.
+
+// Raised for malformed filter parameters so routes can answer 400 instead of 500
+class FilterError extends Error {}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Query params may arrive as a single value or an array. Anything else, such as the
+// object that agents[a]=1 parses to, is rejected rather than passed on to a repository.
+function toArray(value, name) {
+  if (value === undefined || value === null || value === '') return [];
+  const values = Array.isArray(value) ? value : [value];
+  if (values.some(item => typeof item !== 'string')) {
+    throw new FilterError(`${name} must be a string or a list of strings`);
+  }
+  return values;
+}
+
+function parseDurationThresholds(value) {
+  const thresholds = { ...DEFAULT_DURATION_THRESHOLDS };
+  if (value && value.shortMax !== undefined) thresholds.shortMax = Number(value.shortMax);
+  if (value && value.longMin !== undefined) thresholds.longMin = Number(value.longMin);
+  if (isNaN(thresholds.shortMax) || isNaN(thresholds.longMin) || thresholds.shortMax > thresholds.longMin) {
+    throw new FilterError('durationThresholds must be numbers with shortMax <= longMin');
+  }
+  return thresholds;
+}
+
+// IANA zone that calendar dates, hour buckets and query dates are read in
+function parseTimeZone(value) {
+  if (value === undefined || value === '') return DEFAULT_TIME_ZONE;
+  if (typeof value !== 'string' || !isValidTimeZone(value)) {
+    throw new FilterError(`Unknown time zone "${value}"`);
+  }
+  return value;
+}
+
+function parseRepeatWindowHours(value) {
+  if (value === undefined) return DEFAULT_REPEAT_WINDOW_HOURS;
+  const hours = Number(value);
+  if (!Number.isFinite(hours) || hours <= 0) {
+    throw new FilterError('repeatWindowHours must be a positive number');
+  }
+  return hours;
+}
+
+// ranges[field][min|max] for cost, llmLatency, ttsLatency and interruptions; blank bounds are open
+function parseNumericRanges(value) {
+  const ranges = {};
+  if (!value) return ranges;
+  if (typeof value !== 'object') {
+    throw new FilterError('ranges must be given as ranges[field][min|max]');
+  }
+  Object.keys(value).forEach(field => {
+    if (!NUMERIC_FILTER_FIELDS.includes(field)) {
+      throw new FilterError(`Unknown range field "${field}"`);
+    }
+    const range = {};
+    ['min', 'max'].forEach(bound => {
+      const raw = value[field] && value[field][bound];
+      if (raw === undefined || raw === null || raw === '') return;
+      range[bound] = Number(raw);
+      if (!Number.isFinite(range[bound])) {
+        throw new FilterError(`ranges[${field}][${bound}] must be a number`);
+      }
+    });
+    if (range.min !== undefined && range.max !== undefined && range.min > range.max) {
+      throw new FilterError(`ranges[${field}] min must not be greater than max`);
+    }
+    if (range.min !== undefined || range.max !== undefined) {
+      ranges[field] = range;
+    }
+  });
+  return ranges;
+}
+
+// Terms of a query language expression such as "status:dropped duration>300"
+function parseQueryTerms(value, timeZone) {
+  if (value === undefined || value === '') return [];
+  if (typeof value !== 'string') {
+    throw new FilterError('query must be a string');
+  }
+  const { terms, errors } = parseQuery(value, timeZone);
+  if (errors.length > 0) {
+    throw new FilterError(`Invalid query: ${errors.map(formatQueryError).join('; ')}`);
+  }
+  return terms;
+}
+
+// Normalize raw query params (or an already built filters object) into
+// { startTime, endTime, agents, callTypes, statuses, durationBuckets,
+//   durationThresholds, timeOfDay, ranges, queryTerms, repeatWindowHours, timeZone }
+function parseFilters(query) {
+  const timeZone = parseTimeZone(query.timeZone);
+  const filters = {
+    agents: toArray(query.agents, 'agents'),
+    callTypes: toArray(query.callTypes, 'callTypes'),
+    statuses: toArray(query.statuses, 'statuses'),
+    durationBuckets: toArray(query.durationBuckets, 'durationBuckets'),
+    durationThresholds: DEFAULT_DURATION_THRESHOLDS,
+    ranges: parseNumericRanges(query.ranges),
+    queryTerms: parseQueryTerms(query.query, timeZone),
+    repeatWindowHours: parseRepeatWindowHours(query.repeatWindowHours),
+    timeZone,
+  };
+
+  const invalidStatus = filters.statuses.find(status => !CALL_STATUSES.includes(status));
+  if (invalidStatus) {
+    throw new FilterError(`Unknown call status "${invalidStatus}"`);
+  }
+
+  // Handle flattened dateRange parameters; dates are whole days in the time zone
+  const dateRangeStart = query['dateRange[start]'] || query.dateRange?.start;
+  const dateRangeEnd = query['dateRange[end]'] || query.dateRange?.end;
+  if (dateRangeStart && dateRangeEnd) {
+    if (!DATE_PATTERN.test(dateRangeStart) || !DATE_PATTERN.test(dateRangeEnd)
+      || isNaN(Date.parse(dateRangeStart)) || isNaN(Date.parse(dateRangeEnd))) {
+      throw new FilterError('dateRange start and end must use the YYYY-MM-DD format');
+    }
+    filters.startTime = getDayStart(dateRangeStart, timeZone);
+    filters.endTime = getDayEnd(dateRangeEnd, timeZone);
+  }
+
+  if (filters.durationBuckets.length > 0) {
+    const invalidBucket = filters.durationBuckets.find(bucket => !DURATION_BUCKETS.includes(bucket));
+    if (invalidBucket) {
+      throw new FilterError(`Unknown duration bucket "${invalidBucket}"`);
+    }
+    filters.durationThresholds = parseDurationThresholds(query.durationThresholds);
+  }
+
+  // Time-of-day window (HH:mm, evaluated in its own time zone or the filters' one)
+  const timeOfDay = query.timeOfDay;
+  if (timeOfDay && timeOfDay.start && timeOfDay.end) {
+    const window = {
+      start: timeOfDay.start,
+      end: timeOfDay.end,
+      timeZone: timeOfDay.timeZone || timeZone,
+    };
+    if (isNaN(parseClockTime(window.start)) || isNaN(parseClockTime(window.end))) {
+      throw new FilterError('timeOfDay start and end must use the HH:mm format');
+    }
+    if (!isValidTimeZone(window.timeZone)) {
+      throw new FilterError(`Unknown time zone "${window.timeZone}"`);
+    }
+    filters.timeOfDay = window;
+  }
+
+  return filters;
+}
+
+// Apply raw query filters to an array of records
+function filterData(data, query) {
+  const filters = parseFilters(query);
+
+  return data.filter(call => {
+    if (filters.startTime !== undefined && (call.startTime < filters.startTime || call.startTime > filters.endTime)) {
+      return false;
+    }
+    if (filters.agents.length > 0 && !filters.agents.includes(call.agent)) return false;
+    if (filters.callTypes.length > 0 && !filters.callTypes.includes(call.callInfo?.type)) return false;
+    if (filters.statuses.length > 0 && !filters.statuses.includes(call.status)) return false;
+    if (!matchesDurationBuckets(call, filters.durationBuckets, filters.durationThresholds)) return false;
+    if (filters.timeOfDay && !matchesTimeOfDay(call, filters.timeOfDay)) return false;
+    if (!matchesNumericRanges(call, filters.ranges)) return false;
+    if (!matchesQuery(call, filters.queryTerms)) return false;
+    return true;
+  });
+}
+
+function parseExplorerQuery(params) {
+  const page = params.page !== undefined ? Number(params.page) : 0;
+  const pageSize = params.pageSize !== undefined ? Number(params.pageSize) : DEFAULT_PAGE_SIZE;
+  const sortField = params.sortField || 'startTime';
+  const sortOrder = params.sortOrder || 'desc';
+
+  if (!Number.isInteger(page) || page < 0) {
+    throw new FilterError('page must be a non-negative integer');
+  }
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+    throw new FilterError(`pageSize must be an integer between 1 and ${MAX_PAGE_SIZE}`);
+  }
+  if (!EXPLORER_SORT_FIELDS.includes(sortField)) {
+    throw new FilterError(`sortField must be one of ${EXPLORER_SORT_FIELDS.join(', ')}`);
+  }
+  if (sortOrder !== 'asc' && sortOrder !== 'desc') {
+    throw new FilterError('sortOrder must be "asc" or "desc"');
+  }
+
+  return { page, pageSize, sortField, sortOrder, search: params.search };
+}
+
+// format and dataset of GET /api/export
+function parseExportQuery(params) {
+  const format = params.format || 'csv';
+  const dataset = params.dataset || 'conversations';
+  if (!EXPORT_FORMATS.includes(format)) {
+    throw new FilterError(`format must be one of ${EXPORT_FORMATS.join(', ')}`);
+  }
+  if (!EXPORT_DATASETS.includes(dataset)) {
+    throw new FilterError(`dataset must be one of ${EXPORT_DATASETS.join(', ')}`);
+  }
+  return { format, dataset };
+}
+
+module.exports = {
+  FilterError,
+  DATE_PATTERN,
+  toArray,
+  parseFilters,
+  filterData,
+  parseExplorerQuery,
+  parseExportQuery,
+};
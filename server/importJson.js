@@ -0,0 +1,41 @@
+const fs = require('fs');
+const path = require('path');
+const { validateConversationRecord } = require('../lib/validation');
+
+// One-shot import of a conversations JSON file into a repository. Records that
+// fail validation or whose id already exists are skipped and reported.
+function importJson(repository, filePath) {
+  const items = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  if (!Array.isArray(items)) {
+    throw new Error(`${filePath} must contain an array of conversation records`);
+  }
+
+  const existingIds = new Set(repository.findExistingIds(items.map(item => item && item.id).filter(Boolean)));
+  const records = [];
+  let invalid = 0;
+  items.forEach((item, index) => {
+    const { record, errors } = validateConversationRecord(item);
+    if (!record) {
+      invalid += 1;
+      console.warn(`Skipping record ${index}: ${errors.join('; ')}`);
+      return;
+    }
+    if (existingIds.has(record.id)) return;
+    existingIds.add(record.id);
+    records.push(record);
+  });
+
+  repository.insert(records);
+  const skipped = items.length - records.length - invalid;
+  console.log(`Imported ${records.length} conversation records from ${filePath} (${skipped} already present, ${invalid} invalid)`);
+  return { imported: records.length, skipped, invalid };
+}
+
+module.exports = { importJson };
+
+// Usage: npm run import -- [path/to/conversations.json]
+if (require.main === module) {
+  const { createRepository } = require('./repositories');
+  const filePath = path.resolve(process.argv[2] || path.join(__dirname, '../data/conversations.json'));
+  importJson(createRepository(), filePath);
+}
@@ -2,170 +2,429 @@ const express = require('express');
 const cors = require('cors');
 const fs = require('fs');
 const path = require('path');
-const _ = require('lodash');
+const crypto = require('crypto');
+const { DEFAULT_LATENCY_BIN_SIZE, METRIC_DEFINITIONS } = require('../lib/metrics');
+const { getPreviousPeriod } = require('../lib/filters');
+const { TIME_BUCKETS } = require('../lib/timeseries');
+const { DEFAULT_ALERT_RULES, evaluateAlertRules, validateAlertRule } = require('../lib/alerts');
+const { validateConversationRecord } = require('../lib/validation');
+const { getSavedViewDateRange, validateSavedViewInput } = require('../lib/views');
+const { DEFAULT_DIGEST_MIN_CALLS, DIGEST_PERIODS } = require('../lib/digest');
+const { DEFAULT_TIME_ZONE, addDays, getZonedTime, isValidTimeZone } = require('../lib/timezone');
+const { DEFAULT_SCORE_WEIGHTS, buildLeaderboard, validateScoreWeights } = require('../lib/leaderboard');
+const { compareSegments, validateSegments } = require('../lib/segments');
+const { DEFAULT_ANOMALY_OPTIONS, detectAnomalies, validateAnomalyOptions } = require('../lib/anomalies');
+const {
+  getAllowedAgents,
+  hasPermission,
+  maskConversation,
+  maskRepeatCaller,
+  validateUserInput,
+} = require('../lib/auth');
+const {
+  AGENT_EXPORT_COLUMNS,
+  CONVERSATION_EXPORT_COLUMNS,
+  EXPORT_CONTENT_TYPES,
+  METRIC_EXPORT_COLUMNS,
+  toAgentExportRows,
+  toCsvLine,
+  toExportObject,
+  toExportValues,
+  toMetricExportRows,
+} = require('../lib/export');
+const {
+  FilterError,
+  DATE_PATTERN,
+  parseFilters,
+  filterData,
+  parseExplorerQuery,
+  parseExportQuery,
+} = require('./filters');
+const { createRepository } = require('./repositories');
+const { createXlsxWorkbook } = require('./xlsx');
+const { renderReport } = require('./report');
+const { DIGEST_FILE_PATTERN, createDigestScheduler, generateDigest, listDigests } = require('./digest');
+const { createDeliveryHook } = require('./delivery');
+const { createAuth, createUserStore, scopeFilters } = require('./auth');
 
 const app = express();
 const PORT = process.env.PORT || 3001;
 
-app.use(cors());
-app.use(express.json());
-
-// Load conversations data from conversations.json
-const conversationsPath = path.join(__dirname, '../data/conversations.json');
-let conversationsData = [];
-try {
-  conversationsData = JSON.parse(fs.readFileSync(conversationsPath, 'utf8'));
-  console.log(`Loaded ${conversationsData.length} conversation records from conversations.json`);
-} catch (error) {
-  console.error('Error loading conversations data:', error);
-  console.log('Please ensure conversations.json exists in the data/ directory');
+// The session cookie is only sent cross-origin to the dashboard's own origins
+const corsOrigins = (process.env.CORS_ORIGINS || 'http://localhost:3000').split(',').map(origin => origin.trim());
+app.use(cors({ origin: corsOrigins, credentials: true }));
+// Batches of new conversations can be larger than the default 100kb
+app.use(express.json({ limit: '10mb' }));
+
+// Conversation storage: SQLite by default, or the JSON file with DATA_STORE=json
+const repository = createRepository();
+
+// Largest batch accepted by POST /api/conversations
+const MAX_INGEST_BATCH = 1000;
+
+// Agent health rules live next to the data so edits survive restarts
+const alertRulesPath = path.join(__dirname, '../data/alert-rules.json');
+let alertRules = DEFAULT_ALERT_RULES;
+if (fs.existsSync(alertRulesPath)) {
+  try {
+    alertRules = JSON.parse(fs.readFileSync(alertRulesPath, 'utf8'));
+    console.log(`Loaded ${alertRules.length} alert rules from alert-rules.json`);
+  } catch (error) {
+    console.error('Error loading alert rules, using defaults:', error);
+  }
 }
 
-// Helper function to filter data based on filters
-function filterData(data, filters) {
-  let filteredData = [...data];
-
-  // Handle flattened dateRange parameters
-  const dateRangeStart = filters['dateRange[start]'] || filters.dateRange?.start;
-  const dateRangeEnd = filters['dateRange[end]'] || filters.dateRange?.end;
-  
-  if (dateRangeStart && dateRangeEnd) {
-    const startTime = new Date(dateRangeStart + 'T00:00:00.000Z').getTime();
-    const endTime = new Date(dateRangeEnd + 'T23:59:59.999Z').getTime();
-    console.log(`Filtering dates from ${startTime} to ${endTime}`);
-    console.log(`Date range: ${new Date(startTime)} to ${new Date(endTime)}`);
-    
-    filteredData = filteredData.filter(call => {
-      const callTime = call.startTime;
-      const isInRange = callTime >= startTime && callTime <= endTime;
-      if (!isInRange) {
-        console.log(`Filtered out call ${call.id} with time ${callTime} (${new Date(callTime)})`);
-      }
-      return isInRange;
-    });
-    
-    console.log(`After date filtering: ${filteredData.length} records`);
-  }
-
-  // Handle agents array (can come as array or comma-separated string)
-  const agents = filters.agents;
-  if (agents && agents.length > 0) {
-    const agentArray = Array.isArray(agents) ? agents : [agents];
-    filteredData = filteredData.filter(call => 
-      agentArray.includes(call.agent)
-    );
-  }
-
-  // Handle callTypes array
-  const callTypes = filters.callTypes;
-  if (callTypes && callTypes.length > 0) {
-    const callTypeArray = Array.isArray(callTypes) ? callTypes : [callTypes];
-    filteredData = filteredData.filter(call => 
-      callTypeArray.includes(call.callInfo?.type)
-    );
-  }
-
-  // Handle timeRanges array
-  const timeRanges = filters.timeRanges;
-  if (timeRanges && timeRanges.length > 0) {
-    const timeRangeArray = Array.isArray(timeRanges) ? timeRanges : [timeRanges];
-    filteredData = filteredData.filter(call => {
-      const callTime = new Date(call.startTime);
-      const hour = callTime.getHours();
-      return timeRangeArray.some(range => {
-        const [start, end] = range.split('-').map(Number);
-        return hour >= start && hour <= end;
-      });
-    });
+// Leaderboard score weights, stored the same way as the alert rules
+const scoreWeightsPath = path.join(__dirname, '../data/score-weights.json');
+let scoreWeights = DEFAULT_SCORE_WEIGHTS;
+if (fs.existsSync(scoreWeightsPath)) {
+  try {
+    scoreWeights = JSON.parse(fs.readFileSync(scoreWeightsPath, 'utf8'));
+    console.log('Loaded leaderboard weights from score-weights.json');
+  } catch (error) {
+    console.error('Error loading leaderboard weights, using defaults:', error);
+  }
+}
+
+// Saved filter presets, stored the same way as the alert rules
+const savedViewsPath = path.join(__dirname, '../data/views.json');
+let savedViews = [];
+if (fs.existsSync(savedViewsPath)) {
+  try {
+    savedViews = JSON.parse(fs.readFileSync(savedViewsPath, 'utf8'));
+    console.log(`Loaded ${savedViews.length} saved views from views.json`);
+  } catch (error) {
+    console.error('Error loading saved views:', error);
+  }
+}
+
+function writeSavedViews(views) {
+  fs.writeFileSync(savedViewsPath, JSON.stringify(views, null, 2));
+  savedViews = views;
+}
+
+// Organization settings. timeZone sets day boundaries, hour buckets and the digest
+// schedule for everyone who has not picked their own zone.
+const settingsPath = path.join(__dirname, '../data/settings.json');
+let settings = { timeZone: process.env.ORG_TIME_ZONE || DEFAULT_TIME_ZONE };
+if (!isValidTimeZone(settings.timeZone)) {
+  console.error(`ORG_TIME_ZONE "${settings.timeZone}" is not a valid time zone, using ${DEFAULT_TIME_ZONE}`);
+  settings = { timeZone: DEFAULT_TIME_ZONE };
+}
+if (fs.existsSync(settingsPath)) {
+  try {
+    settings = { ...settings, ...JSON.parse(fs.readFileSync(settingsPath, 'utf8')) };
+    console.log(`Loaded settings from settings.json (time zone ${settings.timeZone})`);
+  } catch (error) {
+    console.error('Error loading settings, using defaults:', error);
+  }
+}
+
+// Dashboard accounts; the first start creates an admin (see server/auth.js)
+const users = createUserStore(path.join(__dirname, '../data/users.json'));
+if (!process.env.AUTH_SECRET) {
+  console.warn('AUTH_SECRET is not set; using a random secret, so sessions end when the server restarts');
+}
+const auth = createAuth({
+  users,
+  secret: process.env.AUTH_SECRET || crypto.randomBytes(32).toString('hex'),
+  tokenTtlSeconds: Number(process.env.AUTH_TOKEN_TTL_HOURS || 12) * 60 * 60,
+  secureCookie: process.env.COOKIE_SECURE === 'true',
+});
+
+// Daily/weekly digests are written here, then passed to the DIGEST_DELIVERY hook
+const digestsPath = path.join(__dirname, '../data/reports');
+const deliverDigest = createDeliveryHook();
+const digestMinCalls = Number(process.env.DIGEST_MIN_CALLS || DEFAULT_DIGEST_MIN_CALLS);
+// Hour of the organization's day the scheduler runs at; DIGEST_SCHEDULE=off leaves
+// digests to POST /api/digests/:period
+const digestHour = Number(process.env.DIGEST_HOUR || 6);
+const HOUR_MS = 60 * 60 * 1000;
+
+async function runDigest(period, now) {
+  const message = generateDigest(repository, period, {
+    now,
+    outputDir: digestsPath,
+    minCalls: digestMinCalls,
+    timeZone: settings.timeZone,
+  });
+  console.log(`Wrote ${period} digest for ${message.digest.range.start} to ${message.files.html}`);
+  await deliverDigest(message);
+  return message;
+}
+
+const digestScheduler = createDigestScheduler(runDigest, { hour: digestHour, timeZone: () => settings.timeZone });
+
+// Number of repeat callers included in /api/summary; /api/repeat-callers returns all of them
+const SUMMARY_REPEAT_CALLERS = 20;
+
+// Filters for the comparison window: an explicit compareRange, or the previous
+// equally long period when compare=previous
+function getComparisonFilters(filters) {
+  let period;
+  const compareRange = filters.compareRange;
+  if (compareRange && compareRange.start && compareRange.end) {
+    if (!DATE_PATTERN.test(compareRange.start) || !DATE_PATTERN.test(compareRange.end)) {
+      throw new FilterError('compareRange start and end must use the YYYY-MM-DD format');
+    }
+    period = { start: compareRange.start, end: compareRange.end };
+  } else if (filters.compare === 'previous' && filters.dateRange?.start && filters.dateRange?.end) {
+    period = getPreviousPeriod(filters.dateRange);
   }
+  if (!period) return undefined;
+
+  const comparisonFilters = { ...filters, dateRange: period };
+  delete comparisonFilters['dateRange[start]'];
+  delete comparisonFilters['dateRange[end]'];
+  return { period, filters: comparisonFilters };
+}
+
+function calculateComparison(filters) {
+  const comparison = getComparisonFilters(filters);
+  return comparison && { period: comparison.period, metrics: repository.calculateMetrics(comparison.filters) };
+}
+
+// Agents ranked by composite score, compared with the previous period unless compare=none
+function calculateLeaderboard(filters) {
+  const comparison = getComparisonFilters({ compare: 'previous', ...filters });
+  const leaderboard = buildLeaderboard(
+    repository.calculateAgentMetrics(filters),
+    comparison && repository.calculateAgentMetrics(comparison.filters),
+    scoreWeights
+  );
+  return comparison ? { ...leaderboard, comparisonPeriod: comparison.period } : leaderboard;
+}
 
-  return filteredData;
+// windowDays, threshold and minCalls query params, defaulting to DEFAULT_ANOMALY_OPTIONS
+function parseAnomalyOptions(query) {
+  const options = { ...DEFAULT_ANOMALY_OPTIONS };
+  ['windowDays', 'threshold', 'minCalls'].forEach(key => {
+    if (query[key] !== undefined && query[key] !== '') options[key] = Number(query[key]);
+  });
+  const error = validateAnomalyOptions(options);
+  if (error) {
+    throw new FilterError(error);
+  }
+  return options;
 }
 
-// Calculate metrics
-function calculateMetrics(data) {
-  const totalCalls = data.length;
-  const callsWithDuration = data.filter(call => call.duration > 0);
-  const successfulCalls = data.filter(call => call.status === 'success');
-  const transferredCalls = data.filter(call => call.status === 'transfer');
-  const droppedCalls = data.filter(call => call.status === 'dropped' || call.status === 'no_answer');
-  const busyCalls = data.filter(call => call.status === 'busy');
-  const callsWithStats = data.filter(call => call.callInfo?.stats);
-
-  // 1. Avg Cost per call/per min
-  const totalCost = data.reduce((sum, call) => sum + call.cost, 0);
-  const avgCostPerCall = totalCalls > 0 ? totalCost / totalCalls : 0;
-  const totalDuration = callsWithDuration.reduce((sum, call) => sum + call.duration, 0);
-  const avgCostPerMin = totalDuration > 0 ? (totalCost / (totalDuration / 60)) : 0;
-
-  // 2. Success Rate, Failure Rate, Transfer Rate, Abandonment Rate
-  const successRate = totalCalls > 0 ? (successfulCalls.length / totalCalls) * 100 : 0;
-  const transferRate = totalCalls > 0 ? (transferredCalls.length / totalCalls) * 100 : 0;
-  const abandonmentRate = totalCalls > 0 ? (droppedCalls.length / totalCalls) * 100 : 0;
-  // Failure rate includes busy calls and any other non-success, non-transfer, non-abandoned calls
-  const failureRate = totalCalls > 0 ? ((busyCalls.length + (totalCalls - successfulCalls.length - transferredCalls.length - droppedCalls.length)) / totalCalls) * 100 : 0;
-
-  // 3. Avg no. of Interruptions per call
-  const totalInterruptions = callsWithStats.reduce((sum, call) => sum + (call.callInfo.stats.interruptions || 0), 0);
-  const avgInterruptions = callsWithStats.length > 0 ? totalInterruptions / callsWithStats.length : 0;
-
-  // 4. Avg Latency (LLM + TTS)
-  const totalLLMLatency = callsWithStats.reduce((sum, call) => sum + (call.callInfo.stats.llmLatency || 0), 0);
-  const totalTTSLatency = callsWithStats.reduce((sum, call) => sum + (call.callInfo.stats.ttsLatency || 0), 0);
-  const avgLLMLatency = callsWithStats.length > 0 ? totalLLMLatency / callsWithStats.length : 0;
-  const avgTTSLatency = callsWithStats.length > 0 ? totalTTSLatency / callsWithStats.length : 0;
-  const avgTotalLatency = avgLLMLatency + avgTTSLatency;
-
-  // 5. First Call Resolution Rate (assuming success = first call resolution)
-  const firstCallResolutionRate = successRate;
-
-  // 6. Avg Cost/Successful Call
-  const avgCostPerSuccessfulCall = successfulCalls.length > 0 ? 
-    successfulCalls.reduce((sum, call) => sum + call.cost, 0) / successfulCalls.length : 0;
-
-  // 7. Avg Handle Time (duration of calls that were answered)
-  const avgHandleTime = callsWithDuration.length > 0 ? 
-    totalDuration / callsWithDuration.length : 0;
+// Anomalies on the filtered days. The daily series reach windowDays further back so
+// the first days of the range have a baseline too.
+function calculateAnomalies(filters, options) {
+  const { agents, callTypes, timeZone } = parseFilters(filters);
+  const start = filters.dateRange?.start;
+  const seriesFilters = { ...filters };
+  if (start && filters.dateRange?.end) {
+    seriesFilters.dateRange = { start: addDays(start, -options.windowDays), end: filters.dateRange.end };
+    delete seriesFilters['dateRange[start]'];
+    delete seriesFilters['dateRange[end]'];
+  }
+
+  const source = ({ agent, callType }) => repository.calculateTimeSeries({
+    ...seriesFilters,
+    agents: agent ? [agent] : agents,
+    callTypes: callType ? [callType] : callTypes,
+  }, 'day');
 
+  return detectAnomalies(source, {
+    agents: agents.length > 0 ? agents : repository.getAgents(),
+    callTypes: callTypes.length > 0 ? callTypes : repository.getCallTypes(),
+    from: start,
+    timeZone,
+  }, options);
+}
+
+// Everything the dashboard's KPI section needs for one set of filters
+function calculateSummary(filters) {
   return {
-    avgCostPerCall: Math.round(avgCostPerCall * 100) / 100,
-    avgCostPerMin: Math.round(avgCostPerMin * 100) / 100,
-    successRate: Math.round(successRate * 10) / 10,
-    failureRate: Math.round(failureRate * 10) / 10,
-    transferRate: Math.round(transferRate * 10) / 10,
-    abandonmentRate: Math.round(abandonmentRate * 10) / 10,
-    avgInterruptions: Math.round(avgInterruptions * 100) / 100,
-    avgLLMLatency: Math.round(avgLLMLatency),
-    avgTTSLatency: Math.round(avgTTSLatency),
-    avgTotalLatency: Math.round(avgTotalLatency),
-    firstCallResolutionRate: Math.round(firstCallResolutionRate * 10) / 10,
-    avgCostPerSuccessfulCall: Math.round(avgCostPerSuccessfulCall * 100) / 100,
-    avgHandleTime: Math.round(avgHandleTime),
-    totalCalls,
-    totalCost: Math.round(totalCost * 100) / 100
+    metrics: repository.calculateMetrics(filters),
+    agentMetrics: repository.calculateAgentMetrics(filters),
+    latencyDistribution: repository.calculateLatencyDistribution(filters),
+    repeatCallers: repository.findRepeatCallers(filters, SUMMARY_REPEAT_CALLERS),
+    comparison: calculateComparison(filters),
   };
 }
 
-// Calculate agent-wise metrics
-function calculateAgentMetrics(data) {
-  const agentGroups = _.groupBy(data, 'agent');
-  const agentMetrics = {};
+// Roles without viewPhoneNumbers get caller and callee numbers masked in every response
+const canViewPhoneNumbers = (user) => hasPermission(user.role, 'viewPhoneNumbers');
+
+function presentConversations(user, records) {
+  return canViewPhoneNumbers(user) ? records : records.map(maskConversation);
+}
+
+function presentSummary(user, summary) {
+  return canViewPhoneNumbers(user) ? summary : { ...summary, repeatCallers: summary.repeatCallers.map(maskRepeatCaller) };
+}
+
+function* maskConversations(records) {
+  for (const record of records) {
+    yield maskConversation(record);
+  }
+}
+
+// Columns and rows of an export dataset; conversations are read lazily from the repository
+function getExportRows(dataset, filters, user) {
+  switch (dataset) {
+    case 'agents':
+      return { columns: AGENT_EXPORT_COLUMNS, rows: toAgentExportRows(repository.calculateAgentMetrics(filters)) };
+    case 'metrics':
+      return { columns: METRIC_EXPORT_COLUMNS, rows: toMetricExportRows(repository.calculateMetrics(filters)) };
+    default:
+      return {
+        columns: CONVERSATION_EXPORT_COLUMNS,
+        rows: canViewPhoneNumbers(user) ? repository.iterate(filters) : maskConversations(repository.iterate(filters)),
+      };
+  }
+}
+
+// e.g. conversations_2025-04-01_2025-04-28.csv
+function getExportFilename(dataset, format, filters) {
+  const dateRange = filters.dateRange;
+  const period = dateRange && dateRange.start && dateRange.end ? `_${dateRange.start}_${dateRange.end}` : '';
+  return `${dataset}${period}.${format}`;
+}
+
+// Text exports are written in chunks of about this many characters
+const EXPORT_CHUNK_SIZE = 64 * 1024;
+
+// Dashboards subscribed to /api/stream, each with the filters it is showing
+const streamClients = new Set();
+
+const STREAM_HEARTBEAT_MS = 25000;
+
+function sendEvent(res, event, data) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// Ingested records are pushed this long after the first of them, so a burst of
+// ingest requests costs one summary per filter set rather than one per request
+const STREAM_BROADCAST_DELAY_MS = 250;
+
+let pendingBroadcast = [];
 
-  Object.keys(agentGroups).forEach(agent => {
-    agentMetrics[agent] = calculateMetrics(agentGroups[agent]);
+// Push new records and the recomputed summary to every subscribed dashboard.
+// Only records matching a client's filters are sent to it; clients showing the
+// same filters share one summary.
+function broadcastConversations(records) {
+  const summaries = new Map();
+  streamClients.forEach(client => {
+    try {
+      const key = JSON.stringify(client.filters);
+      if (!summaries.has(key)) {
+        summaries.set(key, calculateSummary(client.filters));
+      }
+      sendEvent(client.res, 'conversations', {
+        records: presentConversations(client.user, filterData(records, client.filters)),
+        summary: presentSummary(client.user, summaries.get(key)),
+      });
+    } catch (error) {
+      console.error('Error pushing stream update:', error);
+    }
   });
+}
 
-  return agentMetrics;
+// Queue records for the next broadcast, outside the request that ingested them
+function scheduleBroadcast(records) {
+  if (streamClients.size === 0) return;
+  if (pendingBroadcast.length === 0) {
+    setTimeout(() => {
+      const batch = pendingBroadcast;
+      pendingBroadcast = [];
+      broadcastConversations(batch);
+    }, STREAM_BROADCAST_DELAY_MS);
+  }
+  pendingBroadcast = pendingBroadcast.concat(records);
 }
 
+// Sign in with a username and password. The session is set as an httpOnly cookie for the
+// dashboard; the token is also returned for scripts, which send it as a Bearer header.
+app.post('/api/auth/login', (req, res) => {
+  try {
+    const { username, password } = req.body || {};
+    const user = typeof username === 'string' && typeof password === 'string'
+      ? users.authenticate(username, password)
+      : undefined;
+    if (!user) {
+      return res.status(401).json({ error: 'Invalid username or password' });
+    }
+    const token = auth.issueSession(res, user);
+    res.json({ user, token });
+  } catch (error) {
+    console.error('Error signing in:', error);
+    res.status(500).json({ error: 'Failed to sign in' });
+  }
+});
+
+app.post('/api/auth/logout', (req, res) => {
+  auth.clearSession(res);
+  res.status(204).end();
+});
+
+// Every other API route needs a session
+app.use('/api', auth.authenticate);
+
+app.get('/api/auth/me', (req, res) => {
+  res.json(req.user);
+});
+
+// Sets or clears (timeZone: null) the signed-in user's own time zone
+app.patch('/api/auth/me', (req, res) => {
+  try {
+    const timeZone = (req.body || {}).timeZone;
+    if (timeZone !== null && (typeof timeZone !== 'string' || !isValidTimeZone(timeZone))) {
+      return res.status(400).json({ error: `Unknown time zone "${timeZone}"` });
+    }
+    const { id, username, name, role, agents } = req.user;
+    const user = users.update(id, { username, name, role, agents, timeZone: timeZone || undefined });
+    res.json(user);
+  } catch (error) {
+    console.error('Error updating profile:', error);
+    res.status(500).json({ error: 'Failed to update profile' });
+  }
+});
+
+// Supervisors only see their agents; viewers cannot filter by phone number
+app.use('/api', auth.scopeToUser);
+
+// Dates are read in the user's time zone, then the organization's, unless the request names one
+app.use('/api', (req, res, next) => {
+  if (req.query.timeZone === undefined) {
+    req.query.timeZone = req.user.timeZone || settings.timeZone;
+  }
+  next();
+});
+
+app.get('/api/settings', (req, res) => {
+  res.json(settings);
+});
+
+app.put('/api/settings', auth.requirePermission('manageSettings'), (req, res) => {
+  try {
+    const { timeZone } = req.body || {};
+    if (typeof timeZone !== 'string' || !isValidTimeZone(timeZone)) {
+      return res.status(400).json({ error: `Unknown time zone "${timeZone}"` });
+    }
+    const next = { ...settings, timeZone };
+    fs.writeFileSync(settingsPath, JSON.stringify(next, null, 2));
+    settings = next;
+    // The next digest run is worked out in the new zone
+    digestScheduler.reschedule();
+    res.json(settings);
+  } catch (error) {
+    console.error('Error saving settings:', error);
+    res.status(500).json({ error: 'Failed to save settings' });
+  }
+});
+
 // API Routes
 app.get('/api/metrics', (req, res) => {
   try {
     const filters = req.query;
-    const filteredData = filterData(conversationsData, filters);
-    const metrics = calculateMetrics(filteredData);
-    res.json(metrics);
+    res.json(repository.calculateMetrics(filters));
   } catch (error) {
+    if (error instanceof FilterError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Error calculating metrics:', error);
     res.status(500).json({ error: 'Failed to calculate metrics' });
   }
@@ -174,19 +433,156 @@ app.get('/api/metrics', (req, res) => {
 app.get('/api/agent-metrics', (req, res) => {
   try {
     const filters = req.query;
-    const filteredData = filterData(conversationsData, filters);
-    const agentMetrics = calculateAgentMetrics(filteredData);
-    res.json(agentMetrics);
+    res.json(repository.calculateAgentMetrics(filters));
   } catch (error) {
+    if (error instanceof FilterError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Error calculating agent metrics:', error);
     res.status(500).json({ error: 'Failed to calculate agent metrics' });
   }
 });
 
+// KPIs per weekday and hour of the day
+app.get('/api/metrics/heatmap', (req, res) => {
+  try {
+    res.json(repository.calculateHeatmap(req.query));
+  } catch (error) {
+    if (error instanceof FilterError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error calculating heatmap:', error);
+    res.status(500).json({ error: 'Failed to calculate heatmap' });
+  }
+});
+
+// KPIs per hour/day/week bucket for trend charts
+app.get('/api/metrics/timeseries', (req, res) => {
+  try {
+    const filters = req.query;
+    const bucket = filters.bucket || 'day';
+    if (!TIME_BUCKETS.includes(bucket)) {
+      throw new FilterError(`bucket must be one of ${TIME_BUCKETS.join(', ')}`);
+    }
+    res.json(repository.calculateTimeSeries(filters, bucket));
+  } catch (error) {
+    if (error instanceof FilterError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error calculating time series:', error);
+    res.status(500).json({ error: 'Failed to calculate time series' });
+  }
+});
+
+// Histograms of LLM, TTS and total latency; binSize is the bin width in ms
+app.get('/api/metrics/latency-distribution', (req, res) => {
+  try {
+    const filters = req.query;
+    const binSize = filters.binSize === undefined ? DEFAULT_LATENCY_BIN_SIZE : Number(filters.binSize);
+    if (!Number.isFinite(binSize) || binSize <= 0) {
+      throw new FilterError('binSize must be a positive number');
+    }
+    res.json(repository.calculateLatencyDistribution(filters, binSize));
+  } catch (error) {
+    if (error instanceof FilterError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error calculating latency distribution:', error);
+    res.status(500).json({ error: 'Failed to calculate latency distribution' });
+  }
+});
+
+// Dashboard summary: filtered KPIs plus the per-agent breakdown in one round trip
+app.get('/api/summary', (req, res) => {
+  try {
+    res.json(presentSummary(req.user, calculateSummary(req.query)));
+  } catch (error) {
+    if (error instanceof FilterError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error calculating summary:', error);
+    res.status(500).json({ error: 'Failed to calculate summary' });
+  }
+});
+
+// Filtered conversations, per-agent KPIs or overall KPIs as CSV, NDJSON or XLSX.
+// CSV and NDJSON are streamed as rows are read; XLSX is built in memory.
+app.get('/api/export', (req, res) => {
+  try {
+    const filters = req.query;
+    const { format, dataset } = parseExportQuery(filters);
+    // Validate before the response starts, since conversations are only read while streaming
+    parseFilters(filters);
+    const { columns, rows } = getExportRows(dataset, filters, req.user);
+
+    res.attachment(getExportFilename(dataset, format, filters));
+    res.set('Content-Type', EXPORT_CONTENT_TYPES[format]);
+
+    if (format === 'xlsx') {
+      const values = [];
+      for (const row of rows) {
+        values.push(toExportValues(columns, row));
+      }
+      const sheetName = dataset.charAt(0).toUpperCase() + dataset.slice(1);
+      return res.send(createXlsxWorkbook(sheetName, columns.map(column => column.header), values));
+    }
+
+    // The byte order mark makes Excel open the CSV as UTF-8
+    let chunk = format === 'csv' ? '\uFEFF' + toCsvLine(columns.map(column => column.header)) : '';
+    for (const row of rows) {
+      if (format === 'csv') {
+        chunk += toCsvLine(toExportValues(columns, row));
+      } else {
+        chunk += JSON.stringify(dataset === 'conversations' ? row : toExportObject(columns, row)) + '\n';
+      }
+      if (chunk.length >= EXPORT_CHUNK_SIZE) {
+        res.write(chunk);
+        chunk = '';
+      }
+    }
+    res.end(chunk);
+  } catch (error) {
+    if (res.headersSent) {
+      console.error('Error streaming export:', error);
+      return res.destroy(error);
+    }
+    if (error instanceof FilterError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error exporting data:', error);
+    res.status(500).json({ error: 'Failed to export data' });
+  }
+});
+
+// Printable HTML report of the KPI cards, charts and agent table for the filters
+app.get('/api/report', (req, res) => {
+  try {
+    const filters = req.query;
+    res.type('html').send(renderReport(filters, calculateSummary(filters)));
+  } catch (error) {
+    if (error instanceof FilterError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error rendering report:', error);
+    res.status(500).json({ error: 'Failed to render report' });
+  }
+});
+
+app.get('/api/metric-definitions', (req, res) => {
+  res.json(METRIC_DEFINITIONS.map(({ key, label, description, format, precision }) => ({
+    key,
+    label,
+    description,
+    format,
+    precision,
+  })));
+});
+
 app.get('/api/agents', (req, res) => {
   try {
-    const agents = [...new Set(conversationsData.map(call => call.agent))].sort();
-    res.json(agents);
+    const allowed = getAllowedAgents(req.user);
+    const agents = repository.getAgents();
+    res.json(allowed ? agents.filter(agent => allowed.includes(agent)) : agents);
   } catch (error) {
     console.error('Error fetching agents:', error);
     res.status(500).json({ error: 'Failed to fetch agents' });
@@ -195,8 +591,7 @@ app.get('/api/agents', (req, res) => {
 
 app.get('/api/call-types', (req, res) => {
   try {
-    const callTypes = [...new Set(conversationsData.map(call => call.callInfo?.type).filter(Boolean))].sort();
-    res.json(callTypes);
+    res.json(repository.getCallTypes());
   } catch (error) {
     console.error('Error fetching call types:', error);
     res.status(500).json({ error: 'Failed to fetch call types' });
@@ -205,33 +600,410 @@ app.get('/api/call-types', (req, res) => {
 
 app.get('/api/date-range', (req, res) => {
   try {
-    const timestamps = conversationsData.map(call => call.startTime);
-    const minDate = new Date(Math.min(...timestamps));
-    const maxDate = new Date(Math.max(...timestamps));
-    res.json({
-      min: minDate.toISOString().split('T')[0],
-      max: maxDate.toISOString().split('T')[0]
-    });
+    const dateRange = repository.getDateRange(parseFilters(req.query).timeZone);
+    if (!dateRange) {
+      return res.status(404).json({ error: 'No conversations stored yet' });
+    }
+    res.json(dateRange);
   } catch (error) {
+    if (error instanceof FilterError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Error fetching date range:', error);
     res.status(500).json({ error: 'Failed to fetch date range' });
   }
 });
 
+// Customers who got in touch again within repeatWindowHours, among the filtered calls
+app.get('/api/repeat-callers', (req, res) => {
+  try {
+    const filters = req.query;
+    const callers = repository.findRepeatCallers(filters);
+    res.json(canViewPhoneNumbers(req.user) ? callers : callers.map(maskRepeatCaller));
+  } catch (error) {
+    if (error instanceof FilterError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error finding repeat callers:', error);
+    res.status(500).json({ error: 'Failed to find repeat callers' });
+  }
+});
+
+// Agents breaching a health rule for the filtered calls
+app.get('/api/alerts', (req, res) => {
+  try {
+    const filters = req.query;
+    const repeatIndex = repository.getRepeatContactIndex(parseFilters(filters).repeatWindowHours);
+    const alerts = evaluateAlertRules(repository.find(filters), alertRules, repeatIndex);
+    res.json({ rules: alertRules, alerts });
+  } catch (error) {
+    if (error instanceof FilterError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error evaluating alerts:', error);
+    res.status(500).json({ error: 'Failed to evaluate alerts' });
+  }
+});
+
+app.get('/api/alerts/rules', (req, res) => {
+  res.json(alertRules);
+});
+
+// Replace the full rule set
+app.put('/api/alerts/rules', auth.requirePermission('manageAlertRules'), (req, res) => {
+  try {
+    const rules = req.body;
+    if (!Array.isArray(rules)) {
+      return res.status(400).json({ error: 'Body must be an array of alert rules' });
+    }
+    const invalid = rules.map(validateAlertRule).find(Boolean);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+    const ids = rules.map(rule => rule.id);
+    if (new Set(ids).size !== ids.length) {
+      return res.status(400).json({ error: 'Alert rule ids must be unique' });
+    }
+
+    fs.writeFileSync(alertRulesPath, JSON.stringify(rules, null, 2));
+    alertRules = rules;
+    res.json(alertRules);
+  } catch (error) {
+    console.error('Error saving alert rules:', error);
+    res.status(500).json({ error: 'Failed to save alert rules' });
+  }
+});
+
+// Days whose KPIs broke from their rolling baseline, overall and per agent
+app.get('/api/anomalies', (req, res) => {
+  try {
+    const options = parseAnomalyOptions(req.query);
+    res.json({ options, anomalies: calculateAnomalies(req.query, options) });
+  } catch (error) {
+    if (error instanceof FilterError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error detecting anomalies:', error);
+    res.status(500).json({ error: 'Failed to detect anomalies' });
+  }
+});
+
+// KPIs for two or more filter sets side by side, each compared with the first.
+// Segments are { name, filters } in the saved view format; relative dates are resolved now.
+app.post('/api/compare', (req, res) => {
+  try {
+    const { segments, errors } = validateSegments((req.body || {}).segments);
+    if (!segments) {
+      return res.status(400).json({ error: 'Invalid segments', errors });
+    }
+
+    const results = [];
+    for (const segment of segments) {
+      const dateRange = getSavedViewDateRange(segment.filters, Date.now(), req.query.timeZone);
+      const filters = { ...segment.filters, dateRange, timeZone: req.query.timeZone };
+      delete filters.relativeDateRange;
+      const forbidden = scopeFilters(req.user, filters);
+      if (forbidden) {
+        return res.status(403).json({ error: `${segment.name}: ${forbidden}` });
+      }
+      results.push({ name: segment.name, dateRange, metrics: repository.calculateMetrics(filters) });
+    }
+    res.json(compareSegments(results));
+  } catch (error) {
+    if (error instanceof FilterError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error comparing segments:', error);
+    res.status(500).json({ error: 'Failed to compare segments' });
+  }
+});
+
+app.get('/api/leaderboard', (req, res) => {
+  try {
+    res.json(calculateLeaderboard(req.query));
+  } catch (error) {
+    if (error instanceof FilterError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error building leaderboard:', error);
+    res.status(500).json({ error: 'Failed to build leaderboard' });
+  }
+});
+
+app.get('/api/leaderboard/weights', (req, res) => {
+  res.json(scoreWeights);
+});
+
+app.put('/api/leaderboard/weights', auth.requirePermission('manageSettings'), (req, res) => {
+  try {
+    const invalid = validateScoreWeights(req.body);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+    fs.writeFileSync(scoreWeightsPath, JSON.stringify(req.body, null, 2));
+    scoreWeights = req.body;
+    res.json(scoreWeights);
+  } catch (error) {
+    console.error('Error saving leaderboard weights:', error);
+    res.status(500).json({ error: 'Failed to save leaderboard weights' });
+  }
+});
+
+// Saved filter presets, sorted by name
+app.get('/api/views', (req, res) => {
+  res.json(savedViews.slice().sort((a, b) => a.name.localeCompare(b.name)));
+});
+
+app.post('/api/views', auth.requirePermission('manageViews'), (req, res) => {
+  try {
+    const { view, errors } = validateSavedViewInput(req.body);
+    if (!view) {
+      return res.status(400).json({ error: 'Invalid view', errors });
+    }
+    if (savedViews.some(existing => existing.name === view.name)) {
+      return res.status(400).json({ error: `A view named "${view.name}" already exists` });
+    }
+
+    const now = Date.now();
+    const saved = { id: crypto.randomUUID(), ...view, createdAt: now, updatedAt: now };
+    writeSavedViews([...savedViews, saved]);
+    res.status(201).json(saved);
+  } catch (error) {
+    console.error('Error saving view:', error);
+    res.status(500).json({ error: 'Failed to save view' });
+  }
+});
+
+// Rename a view or replace its filters
+app.put('/api/views/:id', auth.requirePermission('manageViews'), (req, res) => {
+  try {
+    const existing = savedViews.find(view => view.id === req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'View not found' });
+    }
+    const { view, errors } = validateSavedViewInput(req.body);
+    if (!view) {
+      return res.status(400).json({ error: 'Invalid view', errors });
+    }
+    if (savedViews.some(other => other.id !== existing.id && other.name === view.name)) {
+      return res.status(400).json({ error: `A view named "${view.name}" already exists` });
+    }
+
+    const updated = { ...existing, ...view, updatedAt: Date.now() };
+    writeSavedViews(savedViews.map(other => (other.id === existing.id ? updated : other)));
+    res.json(updated);
+  } catch (error) {
+    console.error('Error updating view:', error);
+    res.status(500).json({ error: 'Failed to update view' });
+  }
+});
+
+app.delete('/api/views/:id', auth.requirePermission('manageViews'), (req, res) => {
+  try {
+    if (!savedViews.some(view => view.id === req.params.id)) {
+      return res.status(404).json({ error: 'View not found' });
+    }
+    writeSavedViews(savedViews.filter(view => view.id !== req.params.id));
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error deleting view:', error);
+    res.status(500).json({ error: 'Failed to delete view' });
+  }
+});
+
+// Digest reports on disk, newest first
+app.get('/api/digests', auth.requirePermission('manageDigests'), (req, res) => {
+  try {
+    res.json(listDigests(digestsPath));
+  } catch (error) {
+    console.error('Error listing digests:', error);
+    res.status(500).json({ error: 'Failed to list digests' });
+  }
+});
+
+app.get('/api/digests/:file', auth.requirePermission('manageDigests'), (req, res) => {
+  const file = req.params.file;
+  if (!DIGEST_FILE_PATTERN.test(file) || !fs.existsSync(path.join(digestsPath, file))) {
+    return res.status(404).json({ error: 'Digest not found' });
+  }
+  res.sendFile(path.join(digestsPath, file));
+});
+
+// Generate and deliver a digest now. `date` (YYYY-MM-DD) runs it as if on that day in the
+// organization's time zone, e.g. date=2025-04-21 gives the daily digest for 2025-04-20.
+app.post('/api/digests/:period', auth.requirePermission('manageDigests'), async (req, res) => {
+  const period = req.params.period;
+  const date = req.query.date;
+  if (!DIGEST_PERIODS.includes(period)) {
+    return res.status(400).json({ error: `period must be one of ${DIGEST_PERIODS.join(', ')}` });
+  }
+  if (date !== undefined && !DATE_PATTERN.test(date)) {
+    return res.status(400).json({ error: 'date must use the YYYY-MM-DD format' });
+  }
+
+  let message;
+  try {
+    message = generateDigest(repository, period, {
+      now: date ? getZonedTime(date, digestHour * HOUR_MS, settings.timeZone) : Date.now(),
+      outputDir: digestsPath,
+      minCalls: digestMinCalls,
+      timeZone: settings.timeZone,
+    });
+  } catch (error) {
+    console.error('Error generating digest:', error);
+    return res.status(500).json({ error: 'Failed to generate digest' });
+  }
+
+  const result = {
+    digest: message.digest,
+    files: [path.basename(message.files.markdown), path.basename(message.files.html)],
+  };
+  try {
+    await deliverDigest(message);
+    res.status(201).json(result);
+  } catch (error) {
+    console.error('Error delivering digest:', error);
+    res.status(502).json({ ...result, error: `Digest was written but delivery failed: ${error.message}` });
+  }
+});
+
+// Paginated, sorted and searchable conversations for the explorer table
 app.get('/api/conversations', (req, res) => {
   try {
-    res.json(conversationsData);
+    const filters = req.query;
+    const query = parseExplorerQuery(filters);
+    const page = repository.queryConversations(filters, query);
+    res.json({ ...page, rows: presentConversations(req.user, page.rows) });
   } catch (error) {
+    if (error instanceof FilterError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Error fetching conversations:', error);
     res.status(500).json({ error: 'Failed to fetch conversations' });
   }
 });
 
+// Ingest one record or a batch. Batches are all-or-nothing: any invalid record rejects the request.
+app.post('/api/conversations', auth.requirePermission('ingestConversations'), (req, res) => {
+  try {
+    const isBatch = Array.isArray(req.body);
+    const items = isBatch ? req.body : [req.body];
+    if (items.length === 0) {
+      return res.status(400).json({ error: 'Batch must contain at least one record' });
+    }
+    if (items.length > MAX_INGEST_BATCH) {
+      return res.status(400).json({ error: `Batch must contain at most ${MAX_INGEST_BATCH} records` });
+    }
+
+    const existingIds = new Set(repository.findExistingIds(
+      items.map(item => item && item.id).filter(id => typeof id === 'string')
+    ));
+    const batchIds = new Set();
+    const records = [];
+    const invalid = [];
+    items.forEach((item, index) => {
+      const { record, errors } = validateConversationRecord(item);
+      if (record) {
+        if (existingIds.has(record.id)) {
+          errors.push(`id ${record.id} already exists`);
+        } else if (batchIds.has(record.id)) {
+          errors.push(`id ${record.id} appears more than once in the batch`);
+        }
+        batchIds.add(record.id);
+      }
+      if (errors.length > 0) {
+        invalid.push({ index, errors });
+      } else {
+        records.push(record);
+      }
+    });
+
+    if (invalid.length > 0) {
+      return res.status(400).json({ error: 'Invalid conversation records', invalid });
+    }
+
+    repository.insert(records);
+    scheduleBroadcast(records);
+    console.log(`Ingested ${records.length} conversation records (${repository.count()} total)`);
+    res.status(201).json(isBatch ? records : records[0]);
+  } catch (error) {
+    console.error('Error ingesting conversations:', error);
+    res.status(500).json({ error: 'Failed to ingest conversations' });
+  }
+});
+
+// Server-Sent Events channel for live updates; accepts the same filters as /api/summary
+app.get('/api/stream', (req, res) => {
+  const filters = req.query;
+  let summary;
+  try {
+    // Also rejects malformed filters before the stream is opened
+    summary = calculateSummary(filters);
+  } catch (error) {
+    if (error instanceof FilterError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error opening stream:', error);
+    return res.status(500).json({ error: 'Failed to open stream' });
+  }
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.flushHeaders();
+
+  const client = { res, filters, user: req.user };
+  streamClients.add(client);
+  // The current summary lets a reconnecting dashboard catch up on anything it missed
+  sendEvent(res, 'ready', { summary: presentSummary(req.user, summary) });
+
+  // Comments keep proxies from closing an idle connection
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), STREAM_HEARTBEAT_MS);
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    streamClients.delete(client);
+  });
+});
+
+// Single conversation with its agent's averages over the same period
+app.get('/api/conversations/:id', (req, res) => {
+  try {
+    const conversation = repository.findById(req.params.id);
+    const allowed = getAllowedAgents(req.user);
+    // Calls outside a supervisor's agents are reported as missing rather than forbidden
+    if (!conversation || (allowed && !allowed.includes(conversation.agent))) {
+      return res.status(404).json({ error: `Conversation ${req.params.id} not found` });
+    }
+
+    const period = req.query.dateRange;
+    res.json({
+      conversation: canViewPhoneNumbers(req.user) ? conversation : maskConversation(conversation),
+      agentMetrics: repository.calculateMetrics({
+        dateRange: period,
+        agents: [conversation.agent],
+        repeatWindowHours: req.query.repeatWindowHours,
+        timeZone: req.query.timeZone,
+      }),
+      period: period && period.start && period.end ? { start: period.start, end: period.end } : undefined,
+    });
+  } catch (error) {
+    if (error instanceof FilterError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error fetching conversation:', error);
+    res.status(500).json({ error: 'Failed to fetch conversation' });
+  }
+});
+
 // New endpoint to serve raw conversations data
 app.get('/api/raw-data', (req, res) => {
   try {
-    console.log(`Raw conversations data contains ${conversationsData.length} records`);
-    res.json(conversationsData);
+    const allowed = getAllowedAgents(req.user);
+    const conversations = presentConversations(req.user, allowed ? repository.find({ agents: allowed }) : repository.getAll());
+    console.log(`Raw conversations data contains ${conversations.length} records`);
+    res.json(conversations);
   } catch (error) {
     console.error('Error fetching raw data:', error);
     res.status(500).json({ error: 'Failed to fetch raw data' });
@@ -239,25 +1011,102 @@ app.get('/api/raw-data', (req, res) => {
 });
 
 // Debug endpoint to check filtering issues
-app.get('/api/debug-filter', (req, res) => {
+app.get('/api/debug-filter', auth.requirePermission('debug'), (req, res) => {
   try {
     const filters = req.query;
     console.log('Received filters:', JSON.stringify(filters));
-    const filteredData = filterData(conversationsData, filters);
-    console.log(`Original data: ${conversationsData.length} records, Filtered data: ${filteredData.length} records`);
+    const filteredData = repository.find(filters);
+    const originalCount = repository.count();
+    console.log(`Original data: ${originalCount} records, Filtered data: ${filteredData.length} records`);
     
     res.json({
-      originalCount: conversationsData.length,
+      originalCount,
       filteredCount: filteredData.length,
       filters: filters,
       sampleRecord: filteredData[0] || null
     });
   } catch (error) {
+    if (error instanceof FilterError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Error in debug filter:', error);
     res.status(500).json({ error: 'Failed to debug filter' });
   }
 });
 
+// Dashboard accounts, without password hashes
+app.get('/api/users', auth.requirePermission('manageUsers'), (req, res) => {
+  res.json(users.list());
+});
+
+app.post('/api/users', auth.requirePermission('manageUsers'), (req, res) => {
+  try {
+    const { user, errors } = validateUserInput(req.body, { requirePassword: true });
+    if (!user) {
+      return res.status(400).json({ error: 'Invalid user', errors });
+    }
+    if (users.isUsernameTaken(user.username)) {
+      return res.status(400).json({ error: `A user named "${user.username}" already exists` });
+    }
+    res.status(201).json(users.create(user));
+  } catch (error) {
+    console.error('Error creating user:', error);
+    res.status(500).json({ error: 'Failed to create user' });
+  }
+});
+
+const isLastAdmin = (id) => !users.list().some(user => user.role === 'admin' && user.id !== id);
+
+// Replace a user's details; the password only changes when one is given
+app.put('/api/users/:id', auth.requirePermission('manageUsers'), (req, res) => {
+  try {
+    const existing = users.findById(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    const { user, errors } = validateUserInput(req.body, { requirePassword: false });
+    if (!user) {
+      return res.status(400).json({ error: 'Invalid user', errors });
+    }
+    if (users.isUsernameTaken(user.username, existing.id)) {
+      return res.status(400).json({ error: `A user named "${user.username}" already exists` });
+    }
+    if (existing.role === 'admin' && user.role !== 'admin' && isLastAdmin(existing.id)) {
+      return res.status(400).json({ error: 'The last admin cannot be given another role' });
+    }
+    // Users set their own zone; leaving it out of the body keeps it
+    const timeZone = req.body.timeZone === undefined ? existing.timeZone : user.timeZone;
+    res.json(users.update(existing.id, { ...user, timeZone }));
+  } catch (error) {
+    console.error('Error updating user:', error);
+    res.status(500).json({ error: 'Failed to update user' });
+  }
+});
+
+app.delete('/api/users/:id', auth.requirePermission('manageUsers'), (req, res) => {
+  try {
+    const existing = users.findById(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    if (existing.id === req.user.id) {
+      return res.status(400).json({ error: 'You cannot delete your own account' });
+    }
+    if (existing.role === 'admin' && isLastAdmin(existing.id)) {
+      return res.status(400).json({ error: 'The last admin cannot be deleted' });
+    }
+    users.remove(existing.id);
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error deleting user:', error);
+    res.status(500).json({ error: 'Failed to delete user' });
+  }
+});
+
 app.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
+  if (process.env.DIGEST_SCHEDULE !== 'off') {
+    digestScheduler.start();
+    console.log(`Digest reports scheduled daily at ${digestHour}:00 ${settings.timeZone} (weekly on Mondays)`);
+  }
 }); 
\ No newline at end of file
@@ -0,0 +1,211 @@
+const { METRIC_DEFINITIONS, METRICS_BY_KEY, formatMetricValue } = require('../lib/metrics');
+const { NUMERIC_FILTER_LABELS, formatDurationBucketLabel } = require('../lib/filters');
+const { formatZonedDateTime, toZonedDateString } = require('../lib/timezone');
+const { parseFilters } = require('./filters');
+
+// Printable HTML report of the dashboard for one set of filters, served by GET /api/report.
+// It is self-contained (inline CSS and SVG charts) so it can be saved, mailed or
+// printed to PDF from the browser.
+
+// KPI cards shown at the top, in dashboard order; the rest go in the metrics table
+const CARD_METRICS = [
+  'totalCalls',
+  'totalCost',
+  'successRate',
+  'avgCostPerCall',
+  'avgCostPerSuccessfulCall',
+  'avgHandleTime',
+  'firstCallResolutionRate',
+  'abandonmentRate',
+  'avgInterruptions',
+  'avgTotalLatency',
+];
+
+const AGENT_TABLE_METRICS = [
+  'totalCalls',
+  'successRate',
+  'totalCost',
+  'avgCostPerCall',
+  'avgHandleTime',
+  'avgInterruptions',
+  'avgTotalLatency',
+  'totalLatencyP95',
+];
+
+const escapeHtml = (text) => String(text)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+const formatMetric = (key, value) => formatMetricValue(METRICS_BY_KEY[key].format, value);
+
+// One line per active filter, e.g. "Agents: agent_1, agent_3"
+function describeFilters(query) {
+  const filters = parseFilters(query);
+  const lines = [];
+  const toDate = (timestamp) => toZonedDateString(timestamp, filters.timeZone);
+  lines.push(filters.startTime !== undefined
+    ? `Dates: ${toDate(filters.startTime)} to ${toDate(filters.endTime)} (${filters.timeZone})`
+    : 'Dates: all');
+  if (filters.agents.length > 0) lines.push(`Agents: ${filters.agents.join(', ')}`);
+  if (filters.callTypes.length > 0) lines.push(`Call types: ${filters.callTypes.join(', ')}`);
+  if (filters.statuses.length > 0) lines.push(`Statuses: ${filters.statuses.join(', ')}`);
+  if (filters.durationBuckets.length > 0) {
+    const labels = filters.durationBuckets.map(bucket => formatDurationBucketLabel(bucket, filters.durationThresholds));
+    lines.push(`Duration: ${labels.join(', ')}`);
+  }
+  if (filters.timeOfDay) {
+    lines.push(`Time of day: ${filters.timeOfDay.start}-${filters.timeOfDay.end} (${filters.timeOfDay.timeZone})`);
+  }
+  Object.keys(filters.ranges).forEach(field => {
+    const { min, max } = filters.ranges[field];
+    const bounds = [min !== undefined ? `>= ${min}` : '', max !== undefined ? `<= ${max}` : ''].filter(Boolean);
+    lines.push(`${NUMERIC_FILTER_LABELS[field]}: ${bounds.join(' and ')}`);
+  });
+  if (query.query) lines.push(`Query: ${query.query}`);
+  return lines;
+}
+
+// Horizontal bar chart; bars are scaled to the largest value
+function renderBarChart(title, bars, format, color) {
+  const labelWidth = 110;
+  const chartWidth = 520;
+  const barHeight = 18;
+  const gap = 8;
+  const max = Math.max(0, ...bars.map(bar => bar.value));
+  const height = bars.length * (barHeight + gap) + gap;
+
+  const rows = bars.map((bar, index) => {
+    const y = gap + index * (barHeight + gap);
+    const width = max > 0 ? Math.max(1, (bar.value / max) * (chartWidth - labelWidth - 90)) : 0;
+    return `<text x="0" y="${y + barHeight - 5}" class="axis">${escapeHtml(bar.label)}</text>`
+      + `<rect x="${labelWidth}" y="${y}" width="${width.toFixed(1)}" height="${barHeight}" fill="${color}" rx="2"/>`
+      + `<text x="${(labelWidth + width + 6).toFixed(1)}" y="${y + barHeight - 5}" class="value">${escapeHtml(format(bar.value))}</text>`;
+  }).join('');
+
+  return `<figure class="chart"><figcaption>${escapeHtml(title)}</figcaption>`
+    + (bars.length === 0
+      ? '<p class="empty">No data</p>'
+      : `<svg width="${chartWidth}" height="${height}" viewBox="0 0 ${chartWidth} ${height}" role="img">${rows}</svg>`)
+    + '</figure>';
+}
+
+// Column chart of a latency histogram
+function renderHistogram(title, bins, color) {
+  const width = 520;
+  const height = 160;
+  const axisHeight = 18;
+  const max = Math.max(0, ...bins.map(bin => bin.count));
+  const columnWidth = bins.length > 0 ? width / bins.length : 0;
+
+  const columns = bins.map((bin, index) => {
+    const columnHeight = max > 0 ? (bin.count / max) * (height - axisHeight) : 0;
+    return `<rect x="${(index * columnWidth).toFixed(1)}" y="${(height - axisHeight - columnHeight).toFixed(1)}" `
+      + `width="${Math.max(1, columnWidth - 1).toFixed(1)}" height="${columnHeight.toFixed(1)}" fill="${color}">`
+      + `<title>${bin.start}-${bin.end}ms: ${bin.count}</title></rect>`;
+  }).join('');
+  const axis = bins.length > 0
+    ? `<text x="0" y="${height - 4}" class="axis">${bins[0].start}ms</text>`
+      + `<text x="${width}" y="${height - 4}" class="axis" text-anchor="end">${bins[bins.length - 1].end}ms</text>`
+    : '';
+
+  return `<figure class="chart"><figcaption>${escapeHtml(title)}</figcaption>`
+    + (bins.length === 0
+      ? '<p class="empty">No calls reported latency stats</p>'
+      : `<svg width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" role="img">${columns}${axis}</svg>`)
+    + '</figure>';
+}
+
+const STYLES = `
+  body { font-family: -apple-system, "Segoe UI", Roboto, Helvetica, Arial, sans-serif; color: #212121; margin: 32px; }
+  h1 { margin: 0 0 4px; font-size: 24px; }
+  h2 { font-size: 18px; margin: 28px 0 12px; border-bottom: 2px solid #90caf9; padding-bottom: 4px; }
+  .meta { color: #616161; font-size: 13px; margin: 0; }
+  .filters { margin: 12px 0 0; padding-left: 18px; font-size: 13px; color: #424242; }
+  .cards { display: grid; grid-template-columns: repeat(5, 1fr); gap: 12px; }
+  .card { border: 1px solid #e0e0e0; border-radius: 6px; padding: 10px 12px; break-inside: avoid; }
+  .card .label { font-size: 12px; color: #616161; }
+  .card .value { font-size: 20px; font-weight: 600; margin-top: 4px; }
+  .charts { display: grid; grid-template-columns: repeat(2, 1fr); gap: 16px; }
+  .chart { margin: 0; break-inside: avoid; }
+  .chart figcaption { font-weight: 600; font-size: 14px; margin-bottom: 6px; }
+  .chart .axis, .chart .value { font-size: 11px; fill: #424242; }
+  .empty { color: #9e9e9e; font-size: 13px; }
+  table { border-collapse: collapse; width: 100%; font-size: 12px; }
+  th, td { border-bottom: 1px solid #e0e0e0; padding: 6px 8px; text-align: right; }
+  th:first-child, td:first-child { text-align: left; }
+  th { background: #f5f5f5; }
+  th.text, td.text { text-align: left; }
+  tr { break-inside: avoid; }
+  .actions { position: fixed; top: 16px; right: 16px; }
+  .actions button { font-size: 14px; padding: 8px 14px; cursor: pointer; }
+  @media print {
+    body { margin: 0; }
+    .actions { display: none; }
+    h2 { break-after: avoid; }
+  }
+  @page { size: A4 landscape; margin: 12mm; }
+`;
+
+// summary is the /api/summary payload for query; generatedAt is a timestamp in ms
+function renderReport(query, summary, generatedAt = Date.now()) {
+  const { metrics, agentMetrics, latencyDistribution } = summary;
+  const { timeZone } = parseFilters(query);
+  const agents = Object.keys(agentMetrics).sort();
+  const agentBars = (key) => agents.map(agent => ({ label: agent, value: agentMetrics[agent][key] }));
+
+  const cards = CARD_METRICS.map(key => `<div class="card"><div class="label">${escapeHtml(METRICS_BY_KEY[key].label)}</div>`
+    + `<div class="value">${escapeHtml(formatMetric(key, metrics[key]))}</div></div>`).join('');
+
+  const charts = [
+    renderBarChart('Calls by Agent', agentBars('totalCalls'), value => formatMetric('totalCalls', value), '#1976d2'),
+    renderBarChart('Success Rate by Agent', agentBars('successRate'), value => formatMetric('successRate', value), '#2e7d32'),
+    renderBarChart('Avg Cost per Call by Agent', agentBars('avgCostPerCall'), value => formatMetric('avgCostPerCall', value), '#8e24aa'),
+    renderHistogram('Total Latency Distribution', latencyDistribution.total, '#ef6c00'),
+  ].join('');
+
+  const agentHeader = AGENT_TABLE_METRICS.map(key => `<th>${escapeHtml(METRICS_BY_KEY[key].label)}</th>`).join('');
+  const agentRows = agents.map(agent => `<tr><td>${escapeHtml(agent)}</td>`
+    + AGENT_TABLE_METRICS.map(key => `<td>${escapeHtml(formatMetric(key, agentMetrics[agent][key]))}</td>`).join('')
+    + '</tr>').join('');
+
+  const metricRows = METRIC_DEFINITIONS.map(definition => `<tr><td>${escapeHtml(definition.label)}</td>`
+    + `<td>${escapeHtml(formatMetricValue(definition.format, metrics[definition.key]))}</td>`
+    + `<td class="text">${escapeHtml(definition.description)}</td></tr>`).join('');
+
+  const filterLines = describeFilters(query).map(line => `<li>${escapeHtml(line)}</li>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Call Analytics Report</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<div class="actions"><button onclick="window.print()">Print / Save as PDF</button></div>
+<h1>Call Analytics Report</h1>
+<p class="meta">Generated ${escapeHtml(`${formatZonedDateTime(generatedAt, timeZone)} ${timeZone}`)}</p>
+<ul class="filters">${filterLines}</ul>
+
+<h2>Key Metrics</h2>
+<div class="cards">${cards}</div>
+
+<h2>Charts</h2>
+<div class="charts">${charts}</div>
+
+<h2>Agents</h2>
+${agents.length === 0
+    ? '<p class="empty">No calls match these filters</p>'
+    : `<table><thead><tr><th>Agent</th>${agentHeader}</tr></thead><tbody>${agentRows}</tbody></table>`}
+
+<h2>All Metrics</h2>
+<table><thead><tr><th>Metric</th><th>Value</th><th class="text">Definition</th></tr></thead><tbody>${metricRows}</tbody></table>
+</body>
+</html>
+`;
+}
+
+module.exports = { escapeHtml, renderReport };
@@ -0,0 +1,40 @@
+const fs = require('fs');
+const path = require('path');
+const { createMemoryRepository } = require('./memoryRepository');
+const { createSqliteRepository } = require('./sqliteRepository');
+const { importJson } = require('../importJson');
+
+// Every route goes through a repository, so storage can be swapped without touching them.
+// A repository implements:
+//   count(), getAll(), findById(id), findExistingIds(ids), insert(records)
+//   find(query)                                 records matching the filters
+//   iterate(query)                              the same records one at a time, for exports
+//   queryConversations(query, explorerQuery)    one explorer page
+//   calculateMetrics(query), calculateAgentMetrics(query), calculateTimeSeries(query, bucket)
+//   calculateHeatmap(query), calculateLatencyDistribution(query, binSize), findRepeatCallers(query, limit?)
+//   getRepeatContactIndex(windowHours), getAgents(), getCallTypes(), getDateRange(timeZone)
+// where query is the raw filter query understood by parseFilters.
+
+const DATA_DIR = path.join(__dirname, '../../data');
+const JSON_PATH = path.join(DATA_DIR, 'conversations.json');
+const SQLITE_PATH = path.join(DATA_DIR, 'conversations.db');
+
+// DATA_STORE selects the backend: "sqlite" (default) or "json"
+function createRepository(store = process.env.DATA_STORE || 'sqlite') {
+  switch (store) {
+    case 'json':
+      return createMemoryRepository(process.env.CONVERSATIONS_JSON || JSON_PATH);
+    case 'sqlite': {
+      const repository = createSqliteRepository(process.env.SQLITE_PATH || SQLITE_PATH);
+      // Seed a new database from the bundled JSON so the dashboard works out of the box
+      if (repository.count() === 0 && fs.existsSync(JSON_PATH)) {
+        importJson(repository, JSON_PATH);
+      }
+      return repository;
+    }
+    default:
+      throw new Error(`Unknown DATA_STORE "${store}"; use "sqlite" or "json"`);
+  }
+}
+
+module.exports = { createRepository };
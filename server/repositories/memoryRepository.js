@@ -0,0 +1,106 @@
+const fs = require('fs');
+const { calculateMetrics, calculateAgentMetrics, calculateLatencyDistribution } = require('../../lib/metrics');
+const { queryConversations } = require('../../lib/explorer');
+const { calculateTimeSeries } = require('../../lib/timeseries');
+const { calculateHeatmap } = require('../../lib/heatmap');
+const { toZonedDateString } = require('../../lib/timezone');
+const { buildRepeatContactIndex, findRepeatCallers } = require('../../lib/repeatContacts');
+const { filterData, parseFilters } = require('../filters');
+
+// Keeps every record in a JS array loaded from a JSON file and rewrites the file on insert.
+// Fine for the sample dataset; use the SQLite repository once the data outgrows memory.
+function createMemoryRepository(filePath) {
+  let conversations = [];
+  try {
+    conversations = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    console.log(`Loaded ${conversations.length} conversation records from ${filePath}`);
+  } catch (error) {
+    console.error('Error loading conversations data:', error);
+    console.log('Please ensure conversations.json exists in the data/ directory');
+  }
+
+  // Repeat contacts are detected over the whole dataset, so the index only needs
+  // rebuilding when the data or the window changes
+  let repeatIndexCache = { data: null, windowHours: null, index: null };
+
+  function getRepeatContactIndex(windowHours) {
+    if (repeatIndexCache.data !== conversations || repeatIndexCache.windowHours !== windowHours) {
+      repeatIndexCache = {
+        data: conversations,
+        windowHours,
+        index: buildRepeatContactIndex(conversations, windowHours),
+      };
+    }
+    return repeatIndexCache.index;
+  }
+
+  const repeatIndexFor = (query) => getRepeatContactIndex(parseFilters(query).repeatWindowHours);
+
+  // Write to a temporary file first so a crash mid-write can't corrupt the dataset
+  function persist() {
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(conversations, null, 2));
+    fs.renameSync(tempPath, filePath);
+  }
+
+  return {
+    name: 'json',
+
+    count: () => conversations.length,
+
+    getAll: () => conversations,
+
+    findById: (id) => conversations.find(call => call.id === id),
+
+    findExistingIds(ids) {
+      const wanted = new Set(ids);
+      return conversations.filter(call => wanted.has(call.id)).map(call => call.id);
+    },
+
+    insert(records) {
+      conversations = conversations.concat(records);
+      persist();
+    },
+
+    find: (query) => filterData(conversations, query),
+
+    iterate: (query) => filterData(conversations, query),
+
+    queryConversations: (query, explorerQuery) => queryConversations(filterData(conversations, query), explorerQuery),
+
+    calculateMetrics: (query) => calculateMetrics(filterData(conversations, query), repeatIndexFor(query)),
+
+    calculateAgentMetrics: (query) => calculateAgentMetrics(filterData(conversations, query), repeatIndexFor(query)),
+
+    calculateTimeSeries: (query, bucket) =>
+      calculateTimeSeries(filterData(conversations, query), bucket, repeatIndexFor(query), parseFilters(query).timeZone),
+
+    calculateHeatmap: (query) =>
+      calculateHeatmap(filterData(conversations, query), repeatIndexFor(query), parseFilters(query).timeZone),
+
+    calculateLatencyDistribution: (query, binSize) =>
+      calculateLatencyDistribution(filterData(conversations, query), binSize),
+
+    findRepeatCallers(query, limit) {
+      const callers = findRepeatCallers(filterData(conversations, query), repeatIndexFor(query));
+      return limit ? callers.slice(0, limit) : callers;
+    },
+
+    getRepeatContactIndex,
+
+    getAgents: () => [...new Set(conversations.map(call => call.agent))].sort(),
+
+    getCallTypes: () => [...new Set(conversations.map(call => call.callInfo?.type).filter(Boolean))].sort(),
+
+    getDateRange(timeZone) {
+      if (conversations.length === 0) return undefined;
+      const timestamps = conversations.map(call => call.startTime);
+      return {
+        min: toZonedDateString(Math.min(...timestamps), timeZone),
+        max: toZonedDateString(Math.max(...timestamps), timeZone),
+      };
+    },
+  };
+}
+
+module.exports = { createMemoryRepository };
@@ -0,0 +1,572 @@
+const Database = require('better-sqlite3');
+const {
+  buildLatencyPercentiles,
+  calculateMetricsFromContext,
+  DEFAULT_LATENCY_BIN_SIZE,
+  LATENCY_PERCENTILES,
+  LATENCY_SOURCES,
+} = require('../../lib/metrics');
+const { percentileOf } = require('../../lib/stats');
+const { getMinutesOfDay, parseClockTime } = require('../../lib/filters');
+const { getCustomerNumber } = require('../../lib/repeatContacts');
+const { getBucketStart } = require('../../lib/timeseries');
+const { getHeatmapSlot, toHeatmapCell } = require('../../lib/heatmap');
+const { toZonedDateString } = require('../../lib/timezone');
+const { parseFilters } = require('../filters');
+
+// SQLite-backed repository. Filtering and aggregation run as SQL so only the
+// rows a response actually needs are loaded into memory.
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS conversations (
+    id TEXT PRIMARY KEY,
+    agent TEXT NOT NULL,
+    start_time INTEGER NOT NULL,
+    duration REAL NOT NULL,
+    cost REAL NOT NULL,
+    status TEXT NOT NULL,
+    call_type TEXT NOT NULL,
+    caller TEXT NOT NULL,
+    callee TEXT NOT NULL,
+    -- Caller on inbound calls, callee on outbound calls; used for repeat contacts
+    customer TEXT NOT NULL,
+    has_stats INTEGER NOT NULL,
+    llm_latency REAL,
+    tts_latency REAL,
+    interruptions REAL
+  );
+  CREATE INDEX IF NOT EXISTS idx_conversations_start_time ON conversations (start_time);
+  CREATE INDEX IF NOT EXISTS idx_conversations_agent ON conversations (agent, start_time);
+  CREATE INDEX IF NOT EXISTS idx_conversations_status ON conversations (status);
+  CREATE INDEX IF NOT EXISTS idx_conversations_customer ON conversations (customer, start_time);
+
+  -- Calls flagged by REPEAT_FLAGS_CTE for the most recently queried repeat window
+  CREATE TEMP TABLE IF NOT EXISTS repeat_flags (
+    window_ms INTEGER NOT NULL,
+    id TEXT NOT NULL,
+    followed_by_repeat INTEGER NOT NULL,
+    is_repeat INTEGER NOT NULL,
+    PRIMARY KEY (window_ms, id)
+  ) WITHOUT ROWID;
+`;
+
+// Flags every call that was followed by, or is, a repeat contact within ? ms (bound twice).
+// It scans the whole table, so its result is stored in repeat_flags rather than run per query.
+const REPEAT_FLAGS_CTE = `
+  WITH flags AS (
+    SELECT
+      id,
+      CASE WHEN LEAD(start_time) OVER w - (start_time + duration * 1000) <= ? THEN 1 ELSE 0 END AS followed_by_repeat,
+      CASE WHEN start_time - LAG(start_time + duration * 1000) OVER w <= ? THEN 1 ELSE 0 END AS is_repeat
+    FROM conversations
+    WINDOW w AS (PARTITION BY customer ORDER BY start_time, rowid)
+  )
+`;
+
+// The MetricContext aggregates from lib/metrics, collected in one query. f is repeat_flags
+// left joined on the call, so unflagged calls have NULL flags
+const CONTEXT_COLUMNS = `
+  COUNT(*) AS totalCalls,
+  TOTAL(c.cost) AS totalCost,
+  TOTAL(CASE WHEN c.duration > 0 THEN c.duration END) AS totalDuration,
+  COUNT(CASE WHEN c.duration > 0 THEN 1 END) AS answeredCalls,
+  COUNT(CASE WHEN c.status = 'success' THEN 1 END) AS successfulCalls,
+  TOTAL(CASE WHEN c.status = 'success' THEN c.cost END) AS successfulCost,
+  COUNT(CASE WHEN c.status = 'transfer' THEN 1 END) AS transferredCalls,
+  COUNT(CASE WHEN c.status IN ('dropped', 'no_answer') THEN 1 END) AS abandonedCalls,
+  COUNT(CASE WHEN c.status NOT IN ('success', 'transfer', 'dropped', 'no_answer') THEN 1 END) AS failedCalls,
+  COUNT(CASE WHEN c.status = 'success' AND f.followed_by_repeat IS NOT 1 THEN 1 END) AS firstContactResolutions,
+  COUNT(CASE WHEN f.is_repeat = 1 THEN 1 END) AS repeatContacts,
+  COUNT(CASE WHEN c.has_stats = 1 THEN 1 END) AS callsWithStats,
+  TOTAL(c.interruptions) AS totalInterruptions,
+  TOTAL(c.llm_latency) AS totalLLMLatency,
+  TOTAL(c.tts_latency) AS totalTTSLatency
+`;
+
+// Latency per source for calls with stats, as lib/metrics collects it
+const LATENCY_EXPRESSIONS = {
+  llm: 'COALESCE(c.llm_latency, 0)',
+  tts: 'COALESCE(c.tts_latency, 0)',
+  total: 'COALESCE(c.llm_latency, 0) + COALESCE(c.tts_latency, 0)',
+};
+
+// Positions around each percentile's ranks (getPercentileRanks in lib/stats) in a group of
+// n sorted values; the margin absorbs float error in the rank.
+const PERCENTILE_POSITIONS = LATENCY_PERCENTILES
+  .map(p => `idx BETWEEN (n - 1) * ${p} / 100 - 1 AND (n - 1) * ${p} / 100 + 2`)
+  .join(' OR ');
+
+const SORT_COLUMNS = {
+  startTime: 'start_time',
+  duration: 'duration',
+  cost: 'cost',
+};
+
+const placeholders = (values) => values.map(() => '?').join(', ');
+
+// Columns behind the numeric range filters; latency and interruptions are NULL without stats,
+// so those calls never match a bounded range, as in matchesNumericRanges
+const RANGE_COLUMNS = {
+  cost: 'c.cost',
+  llmLatency: 'c.llm_latency',
+  ttsLatency: 'c.tts_latency',
+  interruptions: 'c.interruptions',
+};
+
+// Columns behind the query language fields in lib/query
+const QUERY_COLUMNS = {
+  id: 'c.id',
+  agent: 'c.agent',
+  status: 'c.status',
+  type: 'c.call_type',
+  caller: 'c.caller',
+  callee: 'c.callee',
+  startTime: 'c.start_time',
+  duration: 'c.duration',
+  cost: 'c.cost',
+  'stats.llmLatency': 'c.llm_latency',
+  'stats.ttsLatency': 'c.tts_latency',
+  'stats.interruptions': 'c.interruptions',
+};
+
+// "*" is the only wildcard in query values, so GLOB's "?" and "[" are matched literally
+const toGlobPattern = (value) => value.replace(/[?[]/g, '[$&]');
+
+// One query term as SQL, mirroring matchesQuery: NULL stats never match, and negation
+// turns that into a match
+function buildQueryTerm(term, params) {
+  const column = QUERY_COLUMNS[term.field];
+  const alternatives = term.values.length > 0
+    ? term.values.map(value => {
+      const isPattern = value.includes('*');
+      params.push(isPattern ? toGlobPattern(value) : value);
+      return isPattern ? `${column} GLOB ?` : `${column} = ?`;
+    })
+    : term.intervals.map(interval => {
+      switch (term.operator) {
+        case '=':
+          params.push(interval.from, interval.to);
+          return `${column} BETWEEN ? AND ?`;
+        case '>':
+          params.push(interval.to);
+          return `${column} > ?`;
+        case '>=':
+          params.push(interval.from);
+          return `${column} >= ?`;
+        case '<':
+          params.push(interval.from);
+          return `${column} < ?`;
+        default:
+          params.push(interval.to);
+          return `${column} <= ?`;
+      }
+    });
+  const clause = `(${alternatives.join(' OR ')})`;
+  return term.negated ? `NOT COALESCE(${clause}, 0)` : clause;
+}
+
+// Translate parsed filters into a WHERE clause over the conversations table aliased as c
+function buildWhere(filters) {
+  const clauses = [];
+  const params = [];
+
+  if (filters.startTime !== undefined) {
+    clauses.push('c.start_time BETWEEN ? AND ?');
+    params.push(filters.startTime, filters.endTime);
+  }
+  if (filters.agents.length > 0) {
+    clauses.push(`c.agent IN (${placeholders(filters.agents)})`);
+    params.push(...filters.agents);
+  }
+  if (filters.callTypes.length > 0) {
+    clauses.push(`c.call_type IN (${placeholders(filters.callTypes)})`);
+    params.push(...filters.callTypes);
+  }
+  if (filters.statuses.length > 0) {
+    clauses.push(`c.status IN (${placeholders(filters.statuses)})`);
+    params.push(...filters.statuses);
+  }
+  if (filters.durationBuckets.length > 0) {
+    const { shortMax, longMin } = filters.durationThresholds;
+    const bucketClauses = filters.durationBuckets.map(bucket => {
+      switch (bucket) {
+        case 'short':
+          params.push(shortMax);
+          return 'c.duration < ?';
+        case 'long':
+          params.push(longMin);
+          return 'c.duration >= ?';
+        default:
+          params.push(shortMax, longMin);
+          return '(c.duration >= ? AND c.duration < ?)';
+      }
+    });
+    clauses.push(`(${bucketClauses.join(' OR ')})`);
+  }
+  if (filters.timeOfDay) {
+    const start = parseClockTime(filters.timeOfDay.start);
+    const end = parseClockTime(filters.timeOfDay.end);
+    // A start later than the end wraps past midnight
+    clauses.push(start <= end
+      ? 'minutes_of_day(c.start_time, ?) BETWEEN ? AND ?'
+      : '(minutes_of_day(c.start_time, ?) >= ? OR minutes_of_day(c.start_time, ?) <= ?)');
+    params.push(...(start <= end
+      ? [filters.timeOfDay.timeZone, start, end]
+      : [filters.timeOfDay.timeZone, start, filters.timeOfDay.timeZone, end]));
+  }
+
+  Object.keys(filters.ranges).forEach(field => {
+    const range = filters.ranges[field];
+    if (range.min !== undefined) {
+      clauses.push(`${RANGE_COLUMNS[field]} >= ?`);
+      params.push(range.min);
+    }
+    if (range.max !== undefined) {
+      clauses.push(`${RANGE_COLUMNS[field]} <= ?`);
+      params.push(range.max);
+    }
+  });
+
+  filters.queryTerms.forEach(term => {
+    clauses.push(buildQueryTerm(term, params));
+  });
+
+  return { where: clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '', params };
+}
+
+// Mirrors matchesSearch in lib/explorer
+function buildSearch(search) {
+  const term = (search || '').trim().toLowerCase();
+  if (!term) return undefined;
+
+  const digits = term.replace(/[^0-9]/g, '');
+  if (/^[0-9+\-\s()]+$/.test(term) && digits) {
+    return {
+      clause: '(instr(lower(c.id), ?) > 0 OR instr(digits(c.caller), ?) > 0 OR instr(digits(c.callee), ?) > 0)',
+      params: [term, digits, digits],
+    };
+  }
+  return { clause: 'instr(lower(c.id), ?) > 0', params: [term] };
+}
+
+const toRecord = (row) => ({
+  id: row.id,
+  agent: row.agent,
+  startTime: row.start_time,
+  duration: row.duration,
+  cost: row.cost,
+  status: row.status,
+  callInfo: {
+    caller: row.caller,
+    callee: row.callee,
+    type: row.call_type,
+    ...(row.has_stats ? {
+      stats: { llmLatency: row.llm_latency, ttsLatency: row.tts_latency, interruptions: row.interruptions },
+    } : {}),
+  },
+});
+
+const toRow = (record) => {
+  const stats = record.callInfo.stats;
+  return {
+    id: record.id,
+    agent: record.agent,
+    start_time: record.startTime,
+    duration: record.duration,
+    cost: record.cost,
+    status: record.status,
+    call_type: record.callInfo.type,
+    caller: record.callInfo.caller,
+    callee: record.callInfo.callee,
+    customer: getCustomerNumber(record),
+    has_stats: stats ? 1 : 0,
+    llm_latency: stats ? stats.llmLatency : null,
+    tts_latency: stats ? stats.ttsLatency : null,
+    interruptions: stats ? stats.interruptions : null,
+  };
+};
+
+// Contiguous fixed-width bins from zero, matching buildHistogram in lib/stats
+function toHistogram(counts, binSize) {
+  if (counts.length === 0) return [];
+  const byBin = {};
+  counts.forEach(({ bin, count }) => {
+    byBin[bin] = count;
+  });
+  const lastBin = Math.max(...counts.map(({ bin }) => bin));
+  const bins = [];
+  for (let i = 0; i <= lastBin; i++) {
+    bins.push({ start: i * binSize, end: (i + 1) * binSize, count: byBin[i] || 0 });
+  }
+  return bins;
+}
+
+function createSqliteRepository(databasePath) {
+  const db = new Database(databasePath);
+  db.pragma('journal_mode = WAL');
+  db.exec(SCHEMA);
+  db.function('minutes_of_day', { deterministic: true }, (timestamp, timeZone) => getMinutesOfDay(timestamp, timeZone));
+  // Bucket boundaries depend on the time zone's offset on the day, so they come from lib/timeseries
+  db.function('bucket_start', { deterministic: true }, (timestamp, bucket, timeZone) => getBucketStart(timestamp, bucket, timeZone));
+  db.function('heatmap_slot', { deterministic: true }, (timestamp, timeZone) => getHeatmapSlot(timestamp, timeZone));
+  db.function('digits', { deterministic: true }, (value) => String(value).replace(/[^0-9]/g, ''));
+  console.log(`Opened SQLite database ${databasePath}`);
+
+  const insertStatement = db.prepare(`
+    INSERT INTO conversations (
+      id, agent, start_time, duration, cost, status, call_type, caller, callee, customer,
+      has_stats, llm_latency, tts_latency, interruptions
+    ) VALUES (
+      @id, @agent, @start_time, @duration, @cost, @status, @call_type, @caller, @callee, @customer,
+      @has_stats, @llm_latency, @tts_latency, @interruptions
+    )
+  `);
+  const insertMany = db.transaction((records) => {
+    records.forEach(record => insertStatement.run(toRow(record)));
+  });
+
+  // Bumped on every insert so cached repeat indexes are rebuilt
+  let version = 0;
+  let repeatIndexCache = { version: -1, windowHours: null, index: null };
+
+  // The data version and window (ms) whose flags are in repeat_flags. Only one window is
+  // kept, so arbitrary client-supplied windows can't pile up full-table passes and rows.
+  let flaggedWindow = { version: -1, windowMs: null };
+
+  const refillRepeatFlags = db.transaction((windowMs) => {
+    db.exec('DELETE FROM repeat_flags');
+    db.prepare(`
+      INSERT INTO repeat_flags (window_ms, id, followed_by_repeat, is_repeat)
+      ${REPEAT_FLAGS_CTE}
+      SELECT ?, id, followed_by_repeat, is_repeat FROM flags WHERE followed_by_repeat = 1 OR is_repeat = 1
+    `).run(windowMs, windowMs, windowMs);
+  });
+
+  // Flag repeats for the window unless they already are for this data version;
+  // returns the window in ms to join on
+  function ensureRepeatFlags(windowHours) {
+    const windowMs = windowHours * HOUR_MS;
+    if (flaggedWindow.version !== version || flaggedWindow.windowMs !== windowMs) {
+      refillRepeatFlags(windowMs);
+      flaggedWindow = { version, windowMs };
+    }
+    return windowMs;
+  }
+
+  // Aggregate MetricContexts per group; group is a SQL expression or undefined for a single total
+  // groupParams fill placeholders in the group expression
+  function calculateContexts(query, group, groupParams = []) {
+    const filters = parseFilters(query);
+    const { where, params } = buildWhere(filters);
+    const groupSelect = group ? `${group} AS grp,` : `NULL AS grp,`;
+    const groupBy = group ? 'GROUP BY grp ORDER BY grp' : '';
+
+    const windowMs = ensureRepeatFlags(filters.repeatWindowHours);
+
+    const rows = db.prepare(`
+      SELECT ${groupSelect} ${CONTEXT_COLUMNS}
+      FROM conversations c LEFT JOIN repeat_flags f ON f.window_ms = ? AND f.id = c.id
+      ${where}
+      ${groupBy}
+    `).all(...(group ? groupParams : []), windowMs, ...params);
+
+    // Percentiles are ranked in SQL so filtered latencies never reach JS; only the values
+    // around each percentile's ranks come back, per group and source
+    const ranked = {};
+    LATENCY_SOURCES.forEach(source => {
+      db.prepare(`
+        SELECT grp, n, idx, value FROM (
+          SELECT grp, value,
+            ROW_NUMBER() OVER (PARTITION BY grp ORDER BY value) - 1 AS idx,
+            COUNT(*) OVER (PARTITION BY grp) AS n
+          FROM (
+            SELECT ${groupSelect} ${LATENCY_EXPRESSIONS[source]} AS value
+            FROM conversations c
+            ${where ? `${where} AND` : 'WHERE'} c.has_stats = 1
+          )
+        )
+        WHERE ${PERCENTILE_POSITIONS}
+      `).all(...(group ? groupParams : []), ...params).forEach(row => {
+        if (!ranked[row.grp]) ranked[row.grp] = {};
+        if (!ranked[row.grp][source]) ranked[row.grp][source] = { count: row.n, values: {} };
+        ranked[row.grp][source].values[row.idx] = row.value;
+      });
+    });
+
+    // A rank missing from the selection is a bug in PERCENTILE_POSITIONS, never a zero latency
+    const latencyPercentiles = (grp) => buildLatencyPercentiles((source, p) => {
+      const latencies = ranked[grp] && ranked[grp][source];
+      if (!latencies) return 0;
+      return percentileOf(latencies.count, p, rank => {
+        if (latencies.values[rank] === undefined) {
+          throw new Error(`Latency rank ${rank} of ${latencies.count} was not selected for p${p}`);
+        }
+        return latencies.values[rank];
+      });
+    });
+
+    return rows.map(row => {
+      const { grp, ...ctx } = row;
+      return { group: grp, ctx: { ...ctx, latencyPercentiles: latencyPercentiles(grp) } };
+    });
+  }
+
+  function findFlagged(windowHours) {
+    return db.prepare('SELECT id, followed_by_repeat, is_repeat FROM repeat_flags WHERE window_ms = ?')
+      .all(ensureRepeatFlags(windowHours));
+  }
+
+  return {
+    name: 'sqlite',
+
+    count: () => db.prepare('SELECT COUNT(*) AS count FROM conversations').get().count,
+
+    getAll: () => db.prepare('SELECT * FROM conversations ORDER BY rowid').all().map(toRecord),
+
+    findById(id) {
+      const row = db.prepare('SELECT * FROM conversations WHERE id = ?').get(id);
+      return row ? toRecord(row) : undefined;
+    },
+
+    findExistingIds(ids) {
+      if (ids.length === 0) return [];
+      return db.prepare(`SELECT id FROM conversations WHERE id IN (${placeholders(ids)})`)
+        .all(...ids)
+        .map(row => row.id);
+    },
+
+    insert(records) {
+      insertMany(records);
+      version += 1;
+    },
+
+    find(query) {
+      const { where, params } = buildWhere(parseFilters(query));
+      return db.prepare(`SELECT * FROM conversations c ${where} ORDER BY c.rowid`).all(...params).map(toRecord);
+    },
+
+    // Rows are read lazily, so a large export never holds the whole result in memory
+    *iterate(query) {
+      const { where, params } = buildWhere(parseFilters(query));
+      const rows = db.prepare(`SELECT * FROM conversations c ${where} ORDER BY c.rowid`).iterate(...params);
+      for (const row of rows) {
+        yield toRecord(row);
+      }
+    },
+
+    queryConversations(query, explorerQuery) {
+      const { where, params } = buildWhere(parseFilters(query));
+      const search = buildSearch(explorerQuery.search);
+      const clauses = search ? `${where ? `${where} AND` : 'WHERE'} ${search.clause}` : where;
+      const allParams = search ? params.concat(search.params) : params;
+      const direction = explorerQuery.sortOrder === 'asc' ? 'ASC' : 'DESC';
+
+      const total = db.prepare(`SELECT COUNT(*) AS count FROM conversations c ${clauses}`).get(...allParams).count;
+      const rows = db.prepare(`
+        SELECT * FROM conversations c ${clauses}
+        ORDER BY c.${SORT_COLUMNS[explorerQuery.sortField]} ${direction}, c.rowid
+        LIMIT ? OFFSET ?
+      `).all(...allParams, explorerQuery.pageSize, explorerQuery.page * explorerQuery.pageSize);
+
+      return { rows: rows.map(toRecord), total, page: explorerQuery.page, pageSize: explorerQuery.pageSize };
+    },
+
+    calculateMetrics(query) {
+      const [{ ctx }] = calculateContexts(query);
+      return calculateMetricsFromContext(ctx);
+    },
+
+    calculateAgentMetrics(query) {
+      const agentMetrics = {};
+      calculateContexts(query, 'c.agent').forEach(({ group, ctx }) => {
+        agentMetrics[group] = calculateMetricsFromContext(ctx);
+      });
+      return agentMetrics;
+    },
+
+    calculateTimeSeries(query, bucket) {
+      const { timeZone } = parseFilters(query);
+      const points = calculateContexts(query, 'bucket_start(c.start_time, ?, ?)', [bucket, timeZone]).map(({ group, ctx }) => ({
+        start: group,
+        metrics: calculateMetricsFromContext(ctx),
+      }));
+      return { bucket, points };
+    },
+
+    calculateHeatmap(query) {
+      const { timeZone } = parseFilters(query);
+      const cells = calculateContexts(query, 'heatmap_slot(c.start_time, ?)', [timeZone])
+        .map(({ group, ctx }) => toHeatmapCell(group, calculateMetricsFromContext(ctx)));
+      return { timeZone, cells };
+    },
+
+    calculateLatencyDistribution(query, binSize = DEFAULT_LATENCY_BIN_SIZE) {
+      const { where, params } = buildWhere(parseFilters(query));
+      const histogram = (expression) => toHistogram(db.prepare(`
+        SELECT CAST((${expression}) / ? AS INTEGER) AS bin, COUNT(*) AS count
+        FROM conversations c
+        ${where ? `${where} AND` : 'WHERE'} c.has_stats = 1
+        GROUP BY bin
+      `).all(binSize, ...params), binSize);
+
+      return {
+        llm: histogram('c.llm_latency'),
+        tts: histogram('c.tts_latency'),
+        total: histogram('c.llm_latency + c.tts_latency'),
+      };
+    },
+
+    findRepeatCallers(query, limit) {
+      const filters = parseFilters(query);
+      const { where, params } = buildWhere(filters);
+      const windowMs = ensureRepeatFlags(filters.repeatWindowHours);
+      const rows = db.prepare(`
+        SELECT
+          c.customer AS number,
+          COUNT(*) AS calls,
+          SUM(f.is_repeat) AS repeatContacts,
+          GROUP_CONCAT(DISTINCT c.agent) AS agents,
+          MIN(c.start_time) AS firstCall,
+          MAX(c.start_time) AS lastCall
+        FROM conversations c LEFT JOIN repeat_flags f ON f.window_ms = ? AND f.id = c.id
+        ${where}
+        GROUP BY c.customer
+        HAVING SUM(f.is_repeat) > 0
+        ORDER BY repeatContacts DESC, lastCall DESC
+        ${limit ? 'LIMIT ?' : ''}
+      `).all(windowMs, ...params, ...(limit ? [limit] : []));
+
+      return rows.map(row => ({ ...row, agents: row.agents.split(',').sort() }));
+    },
+
+    getRepeatContactIndex(windowHours) {
+      if (repeatIndexCache.version !== version || repeatIndexCache.windowHours !== windowHours) {
+        const index = { windowHours, followedByRepeat: {}, isRepeat: {} };
+        findFlagged(windowHours).forEach(row => {
+          if (row.followed_by_repeat) index.followedByRepeat[row.id] = true;
+          if (row.is_repeat) index.isRepeat[row.id] = true;
+        });
+        repeatIndexCache = { version, windowHours, index };
+      }
+      return repeatIndexCache.index;
+    },
+
+    getAgents: () => db.prepare('SELECT DISTINCT agent FROM conversations ORDER BY agent').all().map(row => row.agent),
+
+    getCallTypes: () =>
+      db.prepare('SELECT DISTINCT call_type FROM conversations ORDER BY call_type').all().map(row => row.call_type),
+
+    getDateRange(timeZone) {
+      const row = db.prepare('SELECT MIN(start_time) AS min, MAX(start_time) AS max FROM conversations').get();
+      if (row.min === null) return undefined;
+      return {
+        min: toZonedDateString(row.min, timeZone),
+        max: toZonedDateString(row.max, timeZone),
+      };
+    },
+  };
+}
+
+module.exports = { createSqliteRepository };
@@ -0,0 +1,96 @@
+const fs = require('fs');
+const net = require('net');
+const path = require('path');
+
+// Local stand-in for a mail server, for trying out digest delivery:
+//   npm run smtp-stub
+//   DIGEST_DELIVERY=smtp SMTP_HOST=localhost SMTP_PORT=2525 SMTP_FROM=... DIGEST_RECIPIENTS=... npm run server
+// Accepts every message (and any AUTH) and saves it to data/outbox as a .eml file.
+
+const PORT = Number(process.env.SMTP_STUB_PORT || 2525);
+const OUTBOX_DIR = process.env.SMTP_STUB_OUTBOX || path.join(__dirname, '../data/outbox');
+
+function handleConnection(socket) {
+  let buffer = '';
+  let inData = false;
+  let message = [];
+  let envelope = { from: undefined, to: [] };
+
+  const reply = (line) => socket.write(`${line}\r\n`);
+
+  const saveMessage = () => {
+    fs.mkdirSync(OUTBOX_DIR, { recursive: true });
+    const file = path.join(OUTBOX_DIR, `${Date.now()}-${Math.random().toString(36).slice(2, 8)}.eml`);
+    // Undo the client's dot-stuffing
+    fs.writeFileSync(file, message.map(line => (line.startsWith('..') ? line.slice(1) : line)).join('\r\n'));
+    console.log(`Saved message from ${envelope.from} to ${envelope.to.join(', ')} as ${file}`);
+  };
+
+  const handleLine = (line) => {
+    if (inData) {
+      if (line === '.') {
+        inData = false;
+        saveMessage();
+        message = [];
+        envelope = { from: undefined, to: [] };
+        reply('250 OK: message saved');
+      } else {
+        message.push(line);
+      }
+      return;
+    }
+
+    const command = line.split(' ')[0].toUpperCase();
+    switch (command) {
+      case 'EHLO':
+        reply('250-smtp-stub');
+        reply('250 AUTH PLAIN LOGIN');
+        break;
+      case 'HELO':
+        reply('250 smtp-stub');
+        break;
+      case 'AUTH':
+        reply('235 Authentication succeeded');
+        break;
+      case 'MAIL':
+        envelope.from = (/<(.*)>/.exec(line) || [])[1];
+        reply('250 OK');
+        break;
+      case 'RCPT':
+        envelope.to.push((/<(.*)>/.exec(line) || [])[1]);
+        reply('250 OK');
+        break;
+      case 'DATA':
+        inData = true;
+        reply('354 End data with <CR><LF>.<CR><LF>');
+        break;
+      case 'RSET':
+        envelope = { from: undefined, to: [] };
+        reply('250 OK');
+        break;
+      case 'NOOP':
+        reply('250 OK');
+        break;
+      case 'QUIT':
+        reply('221 Bye');
+        socket.end();
+        break;
+      default:
+        reply('502 Command not implemented');
+    }
+  };
+
+  socket.setEncoding('utf8');
+  socket.on('data', (chunk) => {
+    buffer += chunk;
+    const lines = buffer.split('\r\n');
+    buffer = lines.pop();
+    lines.forEach(handleLine);
+  });
+  socket.on('error', (error) => console.error('SMTP stub connection error:', error.message));
+  reply('220 smtp-stub ready');
+}
+
+net.createServer(handleConnection).listen(PORT, () => {
+  console.log(`SMTP stub listening on port ${PORT}, saving messages to ${OUTBOX_DIR}`);
+});
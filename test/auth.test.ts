@@ -0,0 +1,217 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'crypto';
+import { createAuth, hashPassword, scopeFilters, signToken, verifyPassword, verifyToken } from '../server/auth';
+import { FilterError } from '../server/filters';
+import { AuthUser, getAllowedAgents, hasPermission, maskConversation, maskPhoneNumber } from '../lib/auth';
+import { ConversationRecord } from '../lib/types';
+
+const SECRET = 'test-secret';
+
+const admin: AuthUser = { id: 'u1', username: 'admin', name: 'Admin', role: 'admin' };
+const supervisor: AuthUser = { id: 'u2', username: 'sup', name: 'Sup', role: 'supervisor', agents: ['agent_1', 'agent_2'] };
+const viewer: AuthUser = { id: 'u3', username: 'view', name: 'View', role: 'viewer' };
+
+// Re-signs a token's header and body with the given secret
+const sign = (header: object, body: object, secret: string = SECRET) => {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const unsigned = `${encode(header)}.${encode(body)}`;
+  const signature = createHmac('sha256', secret).update(unsigned).digest('base64url');
+  return `${unsigned}.${signature}`;
+};
+
+const decodeBody = (token: string) => JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString());
+
+// Minimal Express request and response for the middleware
+function runMiddleware(middleware: (req: any, res: any, next: () => void) => void, req: any) {
+  const result: { status?: number; body?: any; next: boolean } = { next: false };
+  const res = {
+    status(code: number) {
+      result.status = code;
+      return this;
+    },
+    json(body: any) {
+      result.body = body;
+      return this;
+    },
+  };
+  middleware(req, res, () => {
+    result.next = true;
+  });
+  return result;
+}
+
+describe('session tokens', () => {
+  it('round-trips the payload with iat and exp', () => {
+    const token = signToken({ sub: 'u1' }, SECRET, 60);
+    const payload = verifyToken(token, SECRET);
+    assert.equal(payload.sub, 'u1');
+    assert.equal(payload.exp - payload.iat, 60);
+  });
+
+  it('rejects a token signed with another secret', () => {
+    assert.equal(verifyToken(signToken({ sub: 'u1' }, 'other-secret', 60), SECRET), undefined);
+  });
+
+  it('rejects a tampered payload', () => {
+    const token = signToken({ sub: 'u1' }, SECRET, 60);
+    const [header, , signature] = token.split('.');
+    const body = Buffer.from(JSON.stringify({ ...decodeBody(token), sub: 'u2' })).toString('base64url');
+    assert.equal(verifyToken(`${header}.${body}.${signature}`, SECRET), undefined);
+  });
+
+  it('rejects an expired token', () => {
+    assert.equal(verifyToken(signToken({ sub: 'u1' }, SECRET, -1), SECRET), undefined);
+  });
+
+  it('rejects a token without an expiry', () => {
+    assert.equal(verifyToken(sign({ alg: 'HS256', typ: 'JWT' }, { sub: 'u1' }), SECRET), undefined);
+  });
+
+  it('rejects algorithms other than HS256, even with a valid signature', () => {
+    const exp = Math.floor(Date.now() / 1000) + 60;
+    assert.equal(verifyToken(sign({ alg: 'none', typ: 'JWT' }, { sub: 'u1', exp }), SECRET), undefined);
+    assert.equal(verifyToken(sign({ alg: 'HS512', typ: 'JWT' }, { sub: 'u1', exp }), SECRET), undefined);
+  });
+
+  it('rejects malformed tokens', () => {
+    ['', 'abc', 'a.b', 'a.b.c.d', 'a.b.c'].forEach(token => {
+      assert.equal(verifyToken(token, SECRET), undefined);
+    });
+    assert.equal(verifyToken(undefined, SECRET), undefined);
+  });
+});
+
+describe('password hashing', () => {
+  it('verifies the password it hashed and nothing else', () => {
+    const stored = hashPassword('correct horse');
+    assert.match(stored, /^scrypt\$[0-9a-f]{32}\$[0-9a-f]{128}$/);
+    assert.equal(verifyPassword('correct horse', stored), true);
+    assert.equal(verifyPassword('Correct horse', stored), false);
+  });
+
+  it('salts every hash', () => {
+    assert.notEqual(hashPassword('same'), hashPassword('same'));
+  });
+
+  it('rejects stored values in another scheme', () => {
+    assert.equal(verifyPassword('secret', 'plain$secret'), false);
+    assert.equal(verifyPassword('secret', undefined), false);
+  });
+});
+
+describe('roles', () => {
+  it('grants permissions by role', () => {
+    assert.equal(hasPermission('admin', 'manageUsers'), true);
+    assert.equal(hasPermission('supervisor', 'manageViews'), true);
+    assert.equal(hasPermission('supervisor', 'manageUsers'), false);
+    assert.equal(hasPermission('viewer', 'viewPhoneNumbers'), false);
+  });
+
+  it('limits only supervisors to agents', () => {
+    assert.deepEqual(getAllowedAgents(supervisor), ['agent_1', 'agent_2']);
+    assert.deepEqual(getAllowedAgents({ ...supervisor, agents: undefined }), []);
+    assert.equal(getAllowedAgents(admin), undefined);
+    assert.equal(getAllowedAgents(viewer), undefined);
+  });
+});
+
+describe('scopeFilters', () => {
+  it('narrows a supervisor without an agent filter to their agents', () => {
+    const filters: { [key: string]: unknown } = {};
+    assert.equal(scopeFilters(supervisor, filters), undefined);
+    assert.deepEqual(filters.agents, ['agent_1', 'agent_2']);
+  });
+
+  it('keeps a supervisor filter within their agents', () => {
+    const filters: { [key: string]: unknown } = { agents: 'agent_2' };
+    assert.equal(scopeFilters(supervisor, filters), undefined);
+    assert.deepEqual(filters.agents, ['agent_2']);
+  });
+
+  it('forbids agents outside a supervisor\'s assignment', () => {
+    assert.equal(scopeFilters(supervisor, { agents: ['agent_1', 'agent_3'] }), 'You are not assigned to agent "agent_3"');
+    assert.equal(scopeFilters({ ...supervisor, agents: [] }, {}), 'You are not assigned to any agents');
+  });
+
+  it('leaves admins and viewers on every agent', () => {
+    const filters: { [key: string]: unknown } = {};
+    assert.equal(scopeFilters(admin, filters), undefined);
+    assert.equal(scopeFilters(viewer, filters), undefined);
+    assert.equal(filters.agents, undefined);
+  });
+
+  it('keeps viewers from filtering or searching by phone number', () => {
+    const message = 'Your role cannot filter or search by phone number';
+    assert.equal(scopeFilters(viewer, { query: 'caller:+1555*' }), message);
+    assert.equal(scopeFilters(viewer, { search: '+1 (555) 010' }), message);
+    assert.equal(scopeFilters(viewer, { search: 'agent_1' }), undefined);
+    assert.equal(scopeFilters(supervisor, { query: 'caller:+1555*' }), undefined);
+  });
+
+  it('throws a FilterError for agents that are not strings', () => {
+    assert.throws(() => scopeFilters(supervisor, { agents: { a: '1' } }), FilterError);
+  });
+});
+
+describe('auth middleware', () => {
+  const users = { findById: (id: string) => [admin, supervisor, viewer].find(user => user.id === id) };
+  const auth = createAuth({ users, secret: SECRET, tokenTtlSeconds: 60 });
+
+  it('loads the user from a Bearer token or the session cookie', () => {
+    const token = signToken({ sub: 'u2' }, SECRET, 60);
+    const bearer = { headers: { authorization: `Bearer ${token}` } } as any;
+    assert.equal(runMiddleware(auth.authenticate, bearer).next, true);
+    assert.equal(bearer.user.username, 'sup');
+
+    const cookie = { headers: { cookie: `theme=dark; session=${encodeURIComponent(token)}` } } as any;
+    assert.equal(runMiddleware(auth.authenticate, cookie).next, true);
+    assert.deepEqual(cookie.user.agents, ['agent_1', 'agent_2']);
+  });
+
+  it('answers 401 without a valid session or for a deleted user', () => {
+    assert.equal(runMiddleware(auth.authenticate, { headers: {} }).status, 401);
+    const forged = { headers: { authorization: `Bearer ${signToken({ sub: 'u2' }, 'other', 60)}` } };
+    assert.equal(runMiddleware(auth.authenticate, forged).status, 401);
+    const deleted = { headers: { authorization: `Bearer ${signToken({ sub: 'gone' }, SECRET, 60)}` } };
+    assert.equal(runMiddleware(auth.authenticate, deleted).status, 401);
+  });
+
+  it('answers 403 when the role lacks the permission', () => {
+    const guard = auth.requirePermission('manageUsers');
+    assert.equal(runMiddleware(guard, { user: admin }).next, true);
+    assert.equal(runMiddleware(guard, { user: supervisor }).status, 403);
+  });
+
+  it('scopes the query, answering 403 for forbidden agents and 400 for malformed ones', () => {
+    const req = { user: supervisor, query: {} as { [key: string]: unknown } };
+    assert.equal(runMiddleware(auth.scopeToUser, req).next, true);
+    assert.deepEqual(req.query.agents, ['agent_1', 'agent_2']);
+    assert.equal(runMiddleware(auth.scopeToUser, { user: supervisor, query: { agents: 'agent_9' } }).status, 403);
+    assert.equal(runMiddleware(auth.scopeToUser, { user: supervisor, query: { agents: { a: '1' } } }).status, 400);
+  });
+});
+
+describe('phone number masking', () => {
+  it('keeps only the last four digits', () => {
+    assert.equal(maskPhoneNumber('+14449178731'), '+*******8731');
+    assert.equal(maskPhoneNumber('+1 (444) 917-8731'), '+* (***) ***-8731');
+    assert.equal(maskPhoneNumber('123'), '123');
+  });
+
+  it('masks caller and callee without touching the record', () => {
+    const record: ConversationRecord = {
+      id: 'c1',
+      agent: 'agent_1',
+      startTime: 0,
+      duration: 60,
+      cost: 1,
+      status: 'success',
+      callInfo: { caller: '+14449178731', callee: '+15550001234', type: 'inbound' },
+    };
+    const masked = maskConversation(record);
+    assert.equal(masked.callInfo.caller, '+*******8731');
+    assert.equal(masked.callInfo.callee, '+*******1234');
+    assert.equal(record.callInfo.caller, '+14449178731');
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { compileQuery, formatQueryError, getQuerySuggestions, matchesTextValue, parseQuery } from '../lib/query';
+import { ConversationRecord } from '../lib/types';
+
+const call = (overrides: Partial<ConversationRecord> = {}): ConversationRecord => ({
+  id: 'conv_1',
+  agent: 'agent_4',
+  startTime: Date.UTC(2025, 3, 1, 12),
+  duration: 320,
+  cost: 1.5,
+  status: 'dropped',
+  callInfo: {
+    caller: '+15550101234',
+    callee: '+15559990000',
+    type: 'outbound',
+    stats: { llmLatency: 800, ttsLatency: 200, interruptions: 3 },
+  },
+  ...overrides,
+});
+
+const withoutStats = call({ callInfo: { caller: '+15550101234', callee: '+15559990000', type: 'inbound' } });
+
+// Whether the query compiles and matches the call
+const matches = (query: string, record: ConversationRecord, timeZone?: string) => {
+  const predicate = compileQuery(query, timeZone);
+  assert.ok(predicate, `"${query}" should parse`);
+  return predicate(record);
+};
+
+const errorsOf = (query: string) => parseQuery(query).errors.map(error => error.message);
+
+describe('parseQuery', () => {
+  it('reads fields, aliases, operators and negation', () => {
+    const { terms, errors } = parseQuery('status:dropped -agent:agent_1 callInfo.type=outbound llmLatency>=500 cost!=2');
+    assert.deepEqual(errors, []);
+    assert.deepEqual(terms.map(term => [term.field, term.operator, term.negated]), [
+      ['status', '=', false],
+      ['agent', '=', true],
+      ['type', '=', false],
+      ['stats.llmLatency', '>=', false],
+      ['cost', '=', true],
+    ]);
+  });
+
+  it('splits comma separated values and keeps quoted values whole', () => {
+    assert.deepEqual(parseQuery('status:dropped,busy').terms[0].values, ['dropped', 'busy']);
+    assert.deepEqual(parseQuery('agent:"agent 4, west"').terms[0].values, ['agent 4, west']);
+  });
+
+  it('suggests the closest field for a typo', () => {
+    assert.deepEqual(errorsOf('stauts:dropped'), ['Unknown field "stauts", did you mean "status"?']);
+  });
+
+  it('reports malformed terms with their offsets', () => {
+    const { errors } = parseQuery('agent:a status:lost');
+    assert.equal(errors.length, 1);
+    assert.equal(errors[0].start, 15);
+    assert.equal(formatQueryError(errors[0]), 'status must be one of success, dropped, transfer, busy, no_answer; got "lost" (at character 16)');
+  });
+
+  it('rejects missing operators, values and quotes', () => {
+    assert.deepEqual(errorsOf('status'), ['Expected an operator after "status", e.g. status:value']);
+    assert.deepEqual(errorsOf('status:'), ['Expected a value after "status:"']);
+    assert.deepEqual(errorsOf('agent:"agent 4'), ['Missing closing quote']);
+    assert.deepEqual(errorsOf('status:dropped,'), ['Empty value in "status:dropped,"']);
+  });
+
+  it('rejects comparisons on text fields and lists on comparisons', () => {
+    assert.deepEqual(errorsOf('agent>agent_1'), ['">" needs a number or date field; agent is text']);
+    assert.deepEqual(errorsOf('duration>1,2'), ['Only ":", "=" and "!=" accept a list of values']);
+    assert.deepEqual(errorsOf('duration>long'), ['duration expects a number; got "long"']);
+    assert.equal(errorsOf('startTime>yesterday').length, 1);
+  });
+
+  it('keeps the valid terms of a query with errors', () => {
+    const { terms, errors } = parseQuery('status:dropped foo:bar');
+    assert.equal(terms.length, 1);
+    assert.equal(errors.length, 1);
+    assert.equal(compileQuery('status:dropped foo:bar'), undefined);
+  });
+});
+
+describe('matching', () => {
+  it('requires every term to match', () => {
+    assert.equal(matches('status:dropped agent:agent_4 duration>300 stats.interruptions>=3 type:outbound', call()), true);
+    assert.equal(matches('status:dropped duration>320', call()), false);
+    assert.equal(matches('', call()), true);
+  });
+
+  it('matches any of a list and honours negation', () => {
+    assert.equal(matches('status:busy,dropped', call()), true);
+    assert.equal(matches('-status:busy,dropped', call()), false);
+    assert.equal(matches('status!=busy', call()), true);
+  });
+
+  it('compares numbers inclusively or strictly by operator', () => {
+    assert.equal(matches('duration>=320', call()), true);
+    assert.equal(matches('duration>320', call()), false);
+    assert.equal(matches('duration<=320 cost<2', call()), true);
+    assert.equal(matches('cost=1.5', call()), true);
+  });
+
+  it('never matches a stats term on calls without stats, so its negation does', () => {
+    assert.equal(matches('stats.interruptions>3', withoutStats), false);
+    assert.equal(matches('-stats.interruptions>3', withoutStats), true);
+    assert.equal(matches('stats.llmLatency!=800', withoutStats), true);
+    assert.equal(matches('stats.llmLatency!=800', call()), false);
+  });
+});
+
+describe('text wildcards', () => {
+  it('matches exactly and case-sensitively without a wildcard', () => {
+    assert.equal(matchesTextValue('agent_4', 'agent_4'), true);
+    assert.equal(matchesTextValue('agent_4', 'Agent_4'), false);
+    assert.equal(matchesTextValue('agent_40', 'agent_4'), false);
+  });
+
+  it('lets "*" match any run of characters, including none', () => {
+    assert.equal(matchesTextValue('+15550101234', '+1555*'), true);
+    assert.equal(matchesTextValue('+15550101234', '*1234'), true);
+    assert.equal(matchesTextValue('+15550101234', '+1*0*4'), true);
+    assert.equal(matchesTextValue('+1555', '+1555*'), true);
+    assert.equal(matchesTextValue('+14440101234', '+1555*'), false);
+  });
+
+  it('treats every other character literally', () => {
+    assert.equal(matchesTextValue('a.b', 'a.*'), true);
+    assert.equal(matchesTextValue('axb', 'a.*'), false);
+    assert.equal(matchesTextValue('a?c', 'a?*'), true);
+    assert.equal(matchesTextValue('abc', 'a?*'), false);
+    assert.equal(matchesTextValue('[x]1', '[x]*'), true);
+    assert.equal(matchesTextValue('x1', '[x]*'), false);
+  });
+
+  it('applies wildcards to caller and callee terms', () => {
+    assert.equal(matches('caller:+1555*', call()), true);
+    assert.equal(matches('callInfo.callee:*0000 -caller:*9999', call()), true);
+  });
+});
+
+describe('date terms', () => {
+  const start = Date.UTC(2025, 3, 1, 2);
+
+  it('covers the whole day of a bare date in the time zone', () => {
+    assert.equal(matches('startTime:2025-04-01', call({ startTime: start })), true);
+    // 02:00 UTC is still March 31 in New York
+    assert.equal(matches('startTime:2025-04-01', call({ startTime: start }), 'America/New_York'), false);
+    assert.equal(matches('date:2025-03-31', call({ startTime: start }), 'America/New_York'), true);
+  });
+
+  it('compares against the start or end of the day by operator', () => {
+    assert.equal(matches('startTime>2025-03-31', call({ startTime: start })), true);
+    assert.equal(matches('startTime>2025-04-01', call({ startTime: start })), false);
+    assert.equal(matches('startTime<2025-04-01', call({ startTime: start })), false);
+    assert.equal(matches('startTime<=2025-04-01', call({ startTime: start })), true);
+  });
+
+  it('reads times without an offset in the time zone and keeps explicit offsets', () => {
+    const { terms } = parseQuery('startTime>=2025-04-01T09:30 startTime<2025-04-01T10:00Z startTime:1743500000000', 'Asia/Kolkata');
+    assert.deepEqual(terms.map(term => term.intervals[0].from), [
+      Date.UTC(2025, 3, 1, 4, 0),
+      Date.UTC(2025, 3, 1, 10, 0),
+      1743500000000,
+    ]);
+  });
+});
+
+describe('getQuerySuggestions', () => {
+  it('completes field names with their operator', () => {
+    const suggestions = getQuerySuggestions('status:dropped ag', 17);
+    assert.deepEqual(suggestions.map(suggestion => suggestion.insertText), ['agent:']);
+    assert.equal(suggestions[0].replaceStart, 15);
+  });
+
+  it('completes the last value of a list from enum values or the given options', () => {
+    const statuses = getQuerySuggestions('status:dropped,b', 16);
+    assert.deepEqual(statuses.map(suggestion => suggestion.label), ['busy']);
+    assert.equal(statuses[0].replaceStart, 15);
+    const agents = getQuerySuggestions('-agent:agent_', 13, { agent: ['agent_1', 'agent_2', 'other'] });
+    assert.deepEqual(agents.map(suggestion => suggestion.label), ['agent_1', 'agent_2']);
+  });
+});
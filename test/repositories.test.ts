@@ -0,0 +1,126 @@
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createMemoryRepository } from '../server/repositories/memoryRepository';
+import { createSqliteRepository } from '../server/repositories/sqliteRepository';
+import { importJson } from '../server/importJson';
+import { ConversationRecord } from '../lib/types';
+
+// The SQLite repository computes in SQL what the JSON one computes in lib/, so both are
+// loaded with the bundled dataset and must agree on every filter
+
+const bundled: ConversationRecord[] = JSON.parse(
+  fs.readFileSync(path.join(__dirname, '../data/conversations.json'), 'utf8')
+);
+
+const start = Math.min(...bundled.map(call => call.startTime));
+
+// Numbers holding GLOB's "?" and "[", calls without stats and a repeat caller
+const extra = (id: string, caller: string, minutes: number, stats = true): ConversationRecord => ({
+  id,
+  agent: 'agent_1',
+  startTime: start + minutes * 60 * 1000,
+  duration: 90,
+  cost: 0.5,
+  status: 'dropped',
+  callInfo: {
+    caller,
+    callee: '+15550000000',
+    type: 'inbound',
+    ...(stats ? { stats: { llmLatency: 500, ttsLatency: 300, interruptions: 1 } } : {}),
+  },
+});
+
+const records = bundled.concat([
+  extra('glob_1', '+1555?0001', 0),
+  extra('glob_2', '+1555[1]0002', 5, false),
+  extra('glob_3', '+15551', 10),
+  extra('glob_4', '+1555?0001', 30, false),
+]);
+
+const queries: Array<{ [key: string]: unknown }> = [
+  {},
+  { agents: ['agent_1', 'agent_3'], statuses: 'dropped' },
+  { callTypes: 'inbound', durationBuckets: ['long'] },
+  { ranges: { cost: { min: '2', max: '6' }, llmLatency: { min: '600' } } },
+  { query: 'caller:+1555?* -status:success' },
+  { query: 'caller:*[1]* agent:agent_1' },
+  { query: 'stats.interruptions>3' },
+  { query: '-stats.interruptions>3 duration<=200' },
+  { query: 'startTime>=2025-04-10 startTime<2025-04-20T12:00', timeZone: 'Asia/Kolkata' },
+  { 'dateRange[start]': '2025-04-01', 'dateRange[end]': '2025-04-07', timeZone: 'America/New_York' },
+  { repeatWindowHours: '1' },
+  { repeatWindowHours: '168', agents: 'agent_2' },
+];
+
+// undefined fields are dropped the way they are in API responses
+const plain = (value: unknown) => JSON.parse(JSON.stringify(value));
+
+describe('SQLite and JSON repositories', () => {
+  let directory: string;
+  let memory: any;
+  let sqlite: any;
+
+  before(() => {
+    mock.method(console, 'log', () => {});
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'repositories-'));
+    const filePath = path.join(directory, 'conversations.json');
+    fs.writeFileSync(filePath, JSON.stringify(records));
+    memory = createMemoryRepository(filePath);
+    sqlite = createSqliteRepository(':memory:');
+    importJson(sqlite, filePath);
+  });
+
+  after(() => {
+    mock.restoreAll();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  const same = (call: (repository: any) => unknown) => assert.deepEqual(plain(call(sqlite)), plain(call(memory)));
+
+  queries.forEach(query => {
+    it(`agree for ${JSON.stringify(query)}`, () => {
+      assert.equal(sqlite.find(query).length, memory.find(query).length);
+      same(repository => repository.find(query).map((call: ConversationRecord) => call.id).sort());
+      same(repository => repository.calculateMetrics(query));
+      same(repository => repository.calculateAgentMetrics(query));
+      same(repository => repository.calculateTimeSeries(query, 'day'));
+      same(repository => repository.calculateHeatmap(query));
+      same(repository => repository.calculateLatencyDistribution(query, 100));
+      same(repository => repository.findRepeatCallers(query, 10));
+      same(repository => repository.queryConversations(query, { page: 0, pageSize: 25, sortField: 'startTime', sortOrder: 'desc' }));
+    });
+  });
+
+  it('match "?" and "[" in query values literally', () => {
+    const ids = (query: string) => sqlite.find({ query }).map((call: ConversationRecord) => call.id).sort();
+    assert.deepEqual(ids('caller:+1555?*'), ['glob_1', 'glob_4']);
+    assert.deepEqual(ids('caller:+1555[1]*'), ['glob_2']);
+    assert.deepEqual(ids('caller:+1555?0001'), ['glob_1', 'glob_4']);
+  });
+
+  it('agree on search, lookups and the repeat contact index', () => {
+    same(repository => repository.queryConversations({}, { page: 1, pageSize: 10, sortField: 'cost', sortOrder: 'asc', search: '555' }).total);
+    same(repository => repository.findById('glob_2'));
+    same(repository => repository.findExistingIds(['conv_1', 'glob_3', 'missing']).sort());
+    same(repository => repository.getAgents());
+    same(repository => repository.getCallTypes());
+    same(repository => repository.getDateRange('Asia/Kolkata'));
+    same(repository => repository.getRepeatContactIndex(72));
+  });
+
+  it('keep agreeing when the repeat window alternates and calls are inserted', () => {
+    ['24', '168', '24', '1000'].forEach(repeatWindowHours => {
+      same(repository => repository.calculateMetrics({ repeatWindowHours }));
+    });
+    const inserted = [extra('glob_5', '+15551', 20), extra('glob_6', '+1555?0001', 45)];
+    memory.insert(inserted);
+    sqlite.insert(inserted);
+    ['24', '1'].forEach(repeatWindowHours => {
+      same(repository => repository.calculateMetrics({ repeatWindowHours }));
+      same(repository => repository.findRepeatCallers({ repeatWindowHours }, 10));
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  addDays,
+  formatZonedDateTime,
+  getDayEnd,
+  getDayStart,
+  getDaysSinceMonday,
+  getTimeZoneOffset,
+  getZonedHourStart,
+  getZonedTime,
+  getZonedWeekdayAndHour,
+  isValidTimeZone,
+  toZonedDateString,
+} from '../lib/timezone';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('time zones', () => {
+  it('accepts IANA zones only', () => {
+    assert.equal(isValidTimeZone('Asia/Kolkata'), true);
+    assert.equal(isValidTimeZone('UTC'), true);
+    assert.equal(isValidTimeZone('Mars/Olympus_Mons'), false);
+  });
+
+  it('reads the offset at the instant, following daylight saving', () => {
+    assert.equal(getTimeZoneOffset(Date.UTC(2025, 0, 15), 'Asia/Kolkata'), 5.5 * HOUR_MS);
+    assert.equal(getTimeZoneOffset(Date.UTC(2025, 0, 15), 'America/New_York'), -5 * HOUR_MS);
+    assert.equal(getTimeZoneOffset(Date.UTC(2025, 6, 15), 'America/New_York'), -4 * HOUR_MS);
+  });
+});
+
+describe('calendar dates', () => {
+  it('adds days across month and year ends', () => {
+    assert.equal(addDays('2025-01-31', 1), '2025-02-01');
+    assert.equal(addDays('2025-01-01', -1), '2024-12-31');
+    assert.equal(addDays('2024-02-28', 1), '2024-02-29');
+  });
+
+  it('counts days from Monday', () => {
+    assert.equal(getDaysSinceMonday('2025-04-28'), 0);
+    assert.equal(getDaysSinceMonday('2025-05-04'), 6);
+  });
+
+  it('shows the wall-clock date and time of an instant in the zone', () => {
+    const instant = Date.UTC(2025, 3, 20, 20, 0);
+    assert.equal(toZonedDateString(instant), '2025-04-20');
+    assert.equal(toZonedDateString(instant, 'Asia/Kolkata'), '2025-04-21');
+    assert.equal(formatZonedDateTime(instant, 'Asia/Kolkata'), '2025-04-21 01:30');
+  });
+});
+
+describe('day boundaries', () => {
+  it('starts and ends the day at the zone\'s midnight', () => {
+    assert.equal(getDayStart('2025-04-01'), Date.UTC(2025, 3, 1));
+    assert.equal(getDayStart('2025-04-01', 'Asia/Kolkata'), Date.UTC(2025, 2, 31, 18, 30));
+    assert.equal(getDayEnd('2025-04-01', 'Asia/Kolkata'), Date.UTC(2025, 3, 1, 18, 30) - 1);
+  });
+
+  it('gives daylight saving days 23 and 25 hours', () => {
+    const length = (date: string) => getDayEnd(date, 'America/New_York') + 1 - getDayStart(date, 'America/New_York');
+    assert.equal(length('2025-03-09'), 23 * HOUR_MS);
+    assert.equal(length('2025-11-02'), 25 * HOUR_MS);
+    assert.equal(length('2025-06-01'), 24 * HOUR_MS);
+  });
+
+  it('resolves wall-clock times skipped by daylight saving to the instant after the change', () => {
+    // 02:30 does not exist on 2025-03-09 in New York; clocks jump from 02:00 EST to 03:00 EDT
+    assert.equal(getZonedTime('2025-03-09', 2.5 * HOUR_MS, 'America/New_York'), Date.UTC(2025, 2, 9, 7, 30));
+    assert.equal(getZonedTime('2025-03-09', 3 * HOUR_MS, 'America/New_York'), Date.UTC(2025, 2, 9, 7));
+    // Berlin skips 02:00 to 03:00 CEST on 2025-03-30
+    assert.equal(getZonedTime('2025-03-30', 2.5 * HOUR_MS, 'Europe/Berlin'), Date.UTC(2025, 2, 30, 1, 30));
+  });
+
+  it('starts the day after the gap in zones that skip midnight', () => {
+    // Santiago moves from 00:00 -04 to 01:00 -03 on 2025-09-07
+    assert.equal(getDayStart('2025-09-07', 'America/Santiago'), Date.UTC(2025, 8, 7, 4));
+    assert.equal(toZonedDateString(getDayStart('2025-09-07', 'America/Santiago'), 'America/Santiago'), '2025-09-07');
+  });
+});
+
+describe('hour buckets', () => {
+  it('starts hours at :30 UTC in half-hour zones', () => {
+    const instant = Date.UTC(2025, 3, 1, 10, 15);
+    assert.equal(getZonedHourStart(instant), Date.UTC(2025, 3, 1, 10));
+    assert.equal(getZonedHourStart(instant, 'Asia/Kolkata'), Date.UTC(2025, 3, 1, 9, 30));
+  });
+
+  it('reads the weekday and hour on the zone\'s wall clock', () => {
+    // Sunday 20:00 UTC is Monday 01:30 in Kolkata
+    const instant = Date.UTC(2025, 3, 20, 20, 0);
+    assert.deepEqual(getZonedWeekdayAndHour(instant), { weekday: 6, hour: 20 });
+    assert.deepEqual(getZonedWeekdayAndHour(instant, 'Asia/Kolkata'), { weekday: 0, hour: 1 });
+  });
+});